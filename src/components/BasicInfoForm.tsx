@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   TextField,
@@ -14,30 +14,94 @@ import {
   CardContent,
   Typography,
   Stack,
-  Divider
+  Divider,
+  Button,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress
 } from '@mui/material';
+import { FolderZip as PackageIcon } from '@mui/icons-material';
 import type { LessonConfig } from '../types/lesson';
+import { importLatestCorePackage, type PackageImportResult } from '../utils/packageImporter';
+import { flattenPages } from '../utils/pageTree';
 
 interface BasicInfoFormProps {
   config: LessonConfig;
   onChange: (updates: Partial<LessonConfig>) => void;
+  // Replaces the lesson with one read back from a published package
+  onPackageImport: (result: PackageImportResult) => void;
 }
 
-export default function BasicInfoForm({ config, onChange }: BasicInfoFormProps) {
+interface PendingPackage {
+  fileName: string;
+  result: PackageImportResult;
+}
+
+export default function BasicInfoForm({ config, onChange, onPackageImport }: BasicInfoFormProps) {
+  const [pendingPackage, setPendingPackage] = useState<PendingPackage | null>(null);
+  const [packageError, setPackageError] = useState<string | null>(null);
+  const [readingPackage, setReadingPackage] = useState(false);
+
+
   const handleChange = (field: keyof LessonConfig) => 
     (event: React.ChangeEvent<HTMLInputElement>) => {
       const value = event.target.type === 'checkbox' ? event.target.checked : event.target.value;
       onChange({ [field]: value });
     };
 
+  // Nothing is replaced until the summary of the package has been confirmed
+  const handlePackageSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setReadingPackage(true);
+    try {
+      const result = await importLatestCorePackage(file);
+      setPackageError(null);
+      setPendingPackage({ fileName: file.name, result });
+    } catch (error) {
+      console.error('Error reading lesson package:', error);
+      setPackageError(error instanceof Error ? error.message : `${file.name} could not be read as a lesson package.`);
+    } finally {
+      setReadingPackage(false);
+    }
+  };
+
+  const handleConfirmPackage = () => {
+    if (!pendingPackage) return;
+    onPackageImport(pendingPackage.result);
+    setPendingPackage(null);
+  };
+
   return (
     <Card sx={{ mt: 2 }}>
       <CardHeader align="left"
         title="Basic Information"
         subheader="Configure the basic template details and settings."
+        action={
+          <Button
+            component="label"
+            startIcon={readingPackage ? <CircularProgress size={16} /> : <PackageIcon />}
+            variant="outlined"
+            size="small"
+            disabled={readingPackage}
+          >
+            Open Existing Lesson
+            <input type="file" accept=".zip,application/zip" hidden onChange={handlePackageSelect} />
+          </Button>
+        }
       />
       <CardContent>
         <Stack spacing={3}>
+          {packageError && (
+            <Alert severity="error" onClose={() => setPackageError(null)}>
+              {packageError}
+            </Alert>
+          )}
           
           <Box sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', md: 'row' } }}>
             {/* Language Field */}
@@ -97,6 +161,18 @@ export default function BasicInfoForm({ config, onChange }: BasicInfoFormProps)
             helperText="Main description that will appear on the lesson page"
           />
 
+          {/* Objectives */}
+          <TextField
+            fullWidth
+            label="Objectives"
+            value={config.objectives || ''}
+            onChange={handleChange('objectives')}
+            multiline
+            rows={3}
+            placeholder="One learning objective per line"
+            helperText="Reported as the lesson's objectives by the SCORM 2004 and cmi5 packages"
+          />
+
 
           {/* Keywords */}
           <TextField
@@ -244,6 +320,71 @@ export default function BasicInfoForm({ config, onChange }: BasicInfoFormProps)
           </Box>
         </Stack>
       </CardContent>
+
+      {/* Lesson Package Import Dialog */}
+      <Dialog
+        open={pendingPackage !== null}
+        onClose={() => setPendingPackage(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Open {pendingPackage?.fileName}</DialogTitle>
+        <DialogContent>
+          {pendingPackage && (
+            <Box sx={{ pt: 1 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Lesson
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                "{pendingPackage.result.config.lessonTitle || 'Untitled'}"
+                {pendingPackage.result.config.lessonId && `, lesson ${pendingPackage.result.config.lessonId}`}
+                {`, ${pendingPackage.result.config.language}`}
+                {pendingPackage.result.config.customCopyrightYear && `, © ${pendingPackage.result.config.customCopyrightYear}`}
+              </Typography>
+
+              <Typography variant="subtitle2" gutterBottom>
+                Chapters
+              </Typography>
+              <Box component="ul" sx={{ mt: 0, mb: 2, pl: 3 }}>
+                {pendingPackage.result.config.chapters.map(chapter => (
+                  <Typography key={chapter.id} component="li" variant="body2" color="text.secondary">
+                    {chapter.title} ({flattenPages(chapter.pages).length} page{flattenPages(chapter.pages).length === 1 ? '' : 's'})
+                  </Typography>
+                ))}
+              </Box>
+
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {pendingPackage.result.assets.length} image{pendingPackage.result.assets.length === 1 ? '' : 's'} will be added to Assets &amp; Media.
+              </Typography>
+
+              {pendingPackage.result.issues.length > 0 && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Import report
+                  </Typography>
+                  {pendingPackage.result.issues.map((issue, index) => (
+                    <Typography key={index} variant="body2">
+                      {issue.location}: {issue.message}
+                    </Typography>
+                  ))}
+                </Alert>
+              )}
+
+              <Alert severity="warning">
+                This replaces the lesson information, chapters, pages and assets you have now.
+              </Alert>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingPackage(null)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirmPackage} variant="contained">
+            Open Lesson
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Card>
   );
 }
\ No newline at end of file
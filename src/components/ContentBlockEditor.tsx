@@ -0,0 +1,821 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  Tooltip,
+  Typography,
+  Menu,
+  MenuItem,
+  Select,
+  InputBase,
+  TextField,
+  Autocomplete,
+  Radio,
+  Switch,
+  FormControlLabel
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Close as RemoveIcon,
+  ArrowUpward as MoveUpIcon,
+  ArrowDownward as MoveDownIcon,
+  FormatIndentIncrease as IndentIcon,
+  FormatIndentDecrease as OutdentIcon,
+  Apps as DragHandleIcon
+} from '@mui/icons-material';
+import type {
+  ContentNode,
+  DragQuestionNode,
+  DrawQuestionNode,
+  ListGlyph,
+  ListSetNode,
+  MediaItemNode,
+  PanelNode,
+  ParagraphNode,
+  RadioQuestionNode,
+  SelectQuestionNode,
+  SweeperNode,
+  TabNode,
+  TableCell,
+  TableNode
+} from '../types/content';
+import type { AssetFile } from '../types/lesson';
+import {
+  BLOCK_LABELS,
+  GLYPH_LABELS,
+  MAX_LIST_LEVEL,
+  NESTED_BLOCK_TYPES,
+  createContentNode,
+  createParagraph,
+  findMediaAsset
+} from '../utils/contentBlocks';
+import { getGlyphStyle } from '../utils/listRenderer';
+import { BLANK_PATTERN } from '../utils/questionRenderer';
+import InlineTextEditor from './InlineTextEditor';
+
+interface ContentBlockListProps {
+  nodes: ContentNode[];
+  onChange: (nodes: ContentNode[]) => void;
+  assets: AssetFile[];
+  nested?: boolean; // Inside a tab, panel, table cell or question
+}
+
+interface BlockEditorProps<T extends ContentNode> {
+  node: T;
+  onChange: (node: T) => void;
+  assets: AssetFile[];
+}
+
+// The blocks of one content list, each with its own editor. Blocks are laid out with the
+// class names the generator writes, so the page editor's stylesheet shows them as published.
+export default function ContentBlockList({ nodes, onChange, assets, nested = false }: ContentBlockListProps) {
+  const [addMenuAnchor, setAddMenuAnchor] = useState<HTMLElement | null>(null);
+  const types = nested ? NESTED_BLOCK_TYPES : Object.keys(BLOCK_LABELS) as ContentNode['type'][];
+
+  const updateNode = (index: number, node: ContentNode) => {
+    onChange(nodes.map((current, position) => position === index ? node : current));
+  };
+
+  const moveNode = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= nodes.length) return;
+    const updated = [...nodes];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    onChange(updated);
+  };
+
+  const addNode = (type: ContentNode['type']) => {
+    onChange([...nodes, createContentNode(type)]);
+    setAddMenuAnchor(null);
+  };
+
+  return (
+    <Box>
+      {nodes.map((node, index) => (
+        <Box
+          key={index}
+          sx={{
+            position: 'relative',
+            mb: 1,
+            px: 1,
+            pb: 0.5,
+            border: '1px dashed transparent',
+            borderRadius: 1,
+            '&:hover, &:focus-within': { borderColor: '#bbb' }
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, fontFamily: 'Roboto, sans-serif' }}>
+            <Typography variant="caption" color="text.secondary">
+              {BLOCK_LABELS[node.type] ?? node.type}
+            </Typography>
+            <Box sx={{ ml: 'auto', display: 'flex' }}>
+              <Tooltip title="Move up">
+                <span>
+                  <IconButton size="small" disabled={index === 0} onClick={() => moveNode(index, -1)} sx={{ padding: 0.25 }}>
+                    <MoveUpIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="Move down">
+                <span>
+                  <IconButton size="small" disabled={index === nodes.length - 1} onClick={() => moveNode(index, 1)} sx={{ padding: 0.25 }}>
+                    <MoveDownIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              <Tooltip title="Delete block">
+                <IconButton
+                  size="small"
+                  color="error"
+                  onClick={() => onChange(nodes.filter((_, position) => position !== index))}
+                  sx={{ padding: 0.25 }}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          </Box>
+          <BlockEditor node={node} onChange={(updated) => updateNode(index, updated)} assets={assets} />
+        </Box>
+      ))}
+      <Button size="small" startIcon={<AddIcon />} onClick={(event) => setAddMenuAnchor(event.currentTarget)}>
+        Add Block
+      </Button>
+      <Menu anchorEl={addMenuAnchor} open={addMenuAnchor !== null} onClose={() => setAddMenuAnchor(null)}>
+        {types.map(type => (
+          <MenuItem key={type} onClick={() => addNode(type)}>
+            {BLOCK_LABELS[type]}
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+}
+
+function BlockEditor({ node, onChange, assets }: BlockEditorProps<ContentNode>) {
+  switch (node.type) {
+    case 'paragraph':
+      return <ParagraphEditor node={node} onChange={onChange} assets={assets} />;
+    case 'listSet':
+      return <ListEditor node={node} onChange={onChange} assets={assets} />;
+    case 'mediaItem':
+      return <MediaItemEditor node={node} onChange={onChange} assets={assets} />;
+    case 'tab':
+      return <TabsEditor node={node} onChange={onChange} assets={assets} />;
+    case 'panel':
+      return <PanelEditor node={node} onChange={onChange} assets={assets} />;
+    case 'table':
+      return <TableEditor node={node} onChange={onChange} assets={assets} />;
+    case 'sweeper':
+      return <SweeperEditor node={node} onChange={onChange} assets={assets} />;
+    case 'radioQuestion':
+      return <RadioQuestionEditor node={node} onChange={onChange} assets={assets} />;
+    case 'selectQuestion':
+      return <SelectQuestionEditor node={node} onChange={onChange} assets={assets} />;
+    case 'dragQuestion':
+      return <DragQuestionEditor node={node} onChange={onChange} assets={assets} />;
+    case 'drawQuestion':
+      return <DrawQuestionEditor node={node} onChange={onChange} assets={assets} />;
+    default:
+      return null;
+  }
+}
+
+function ParagraphEditor({ node, onChange }: BlockEditorProps<ParagraphNode>) {
+  return (
+    <InlineTextEditor
+      component="p"
+      value={node.content}
+      onChange={(content) => onChange({ ...node, content })}
+      placeholder="Type or paste text"
+    />
+  );
+}
+
+// Enter starts a new item and Backspace in an empty one removes it. Deeper levels are
+// separate list blocks, nested under the item above them when the page is generated.
+function ListEditor({ node, onChange }: BlockEditorProps<ListSetNode>) {
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const { tag, listStyle } = getGlyphStyle(node.glyph);
+
+  const setItems = (content: ListSetNode['content']) => onChange({ ...node, content });
+
+  const insertItem = (index: number) => {
+    setItems([...node.content.slice(0, index + 1), { type: 'listItem', content: createParagraph() }, ...node.content.slice(index + 1)]);
+    setFocusIndex(index + 1);
+  };
+
+  const removeItem = (index: number) => {
+    if (node.content.length <= 1) return;
+    setItems(node.content.filter((_, position) => position !== index));
+    setFocusIndex(Math.max(0, index - 1));
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Select
+          size="small"
+          variant="standard"
+          value={node.glyph}
+          onChange={(event) => onChange({ ...node, glyph: event.target.value as ListGlyph })}
+          sx={{ fontSize: 13 }}
+        >
+          {(Object.keys(GLYPH_LABELS) as ListGlyph[]).map(glyph => (
+            <MenuItem key={glyph} value={glyph}>{GLYPH_LABELS[glyph]}</MenuItem>
+          ))}
+        </Select>
+        <Tooltip title="Outdent">
+          <span>
+            <IconButton size="small" disabled={node.level === 0} onClick={() => onChange({ ...node, level: node.level - 1 })}>
+              <OutdentIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Indent">
+          <span>
+            <IconButton size="small" disabled={node.level >= MAX_LIST_LEVEL} onClick={() => onChange({ ...node, level: node.level + 1 })}>
+              <IndentIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+      <Box
+        component={tag}
+        sx={{ listStyleType: listStyle ?? (tag === 'ul' ? 'disc' : 'decimal'), ml: `${node.level * 40}px` }}
+      >
+        {node.content.map((item, index) => (
+          <li key={index}>
+            <InlineTextEditor
+              value={item.content.content}
+              onChange={(content) => setItems(node.content.map((current, position) => position === index
+                ? { ...current, content: { ...current.content, content } }
+                : current))}
+              placeholder="List item"
+              focused={focusIndex === index}
+              onFocus={() => setFocusIndex(null)}
+              onEnter={() => insertItem(index)}
+              onDeleteEmpty={() => removeItem(index)}
+            />
+          </li>
+        ))}
+      </Box>
+    </Box>
+  );
+}
+
+function MediaItemEditor({ node, onChange, assets }: BlockEditorProps<MediaItemNode>) {
+  return (
+    <div className="caption">
+      <MediaIdField value={node.id} onChange={(id) => onChange({ ...node, id })} assets={assets} label="Media id" />
+      <MediaPreview id={node.id} assets={assets} alt={node.caption} />
+      <InputBase
+        className="caption-text"
+        value={node.caption}
+        onChange={(event) => onChange({ ...node, caption: event.target.value })}
+        placeholder="Caption"
+        multiline
+        fullWidth
+      />
+    </div>
+  );
+}
+
+function TabsEditor({ node, onChange, assets }: BlockEditorProps<TabNode>) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const current = Math.min(activeIndex, node.tabs.length - 1);
+  const activeTab = node.tabs[current];
+
+  const updateTab = (index: number, updates: Partial<TabNode['tabs'][number]>) => {
+    onChange({ ...node, tabs: node.tabs.map((tab, position) => position === index ? { ...tab, ...updates } : tab) });
+  };
+
+  const addTab = () => {
+    onChange({ ...node, tabs: [...node.tabs, { title: `Tab ${node.tabs.length + 1}`, content: [createParagraph()] }] });
+    setActiveIndex(node.tabs.length);
+  };
+
+  return (
+    <div className="tabs-container">
+      <ul className="nav nav-tabs">
+        {node.tabs.map((tab, index) => (
+          <li key={index} className={index === current ? 'active' : ''}>
+            {index === current
+              ? (
+                <a>
+                  <InputBase
+                    value={tab.title}
+                    onChange={(event) => updateTab(index, { title: event.target.value })}
+                    placeholder="Tab title"
+                    sx={{ font: 'inherit', color: 'inherit', width: `${Math.max(tab.title.length, 8) + 1}ch` }}
+                  />
+                </a>
+              )
+              : <a onClick={() => setActiveIndex(index)}>{tab.title || 'Untitled'}</a>}
+          </li>
+        ))}
+        <li>
+          <Tooltip title="Add tab">
+            <IconButton size="small" onClick={addTab}>
+              <AddIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </li>
+      </ul>
+      {activeTab && (
+        <div className="tab-content">
+          <ContentBlockList
+            nodes={activeTab.content}
+            onChange={(content) => updateTab(current, { content })}
+            assets={assets}
+            nested
+          />
+          <Button
+            size="small"
+            color="error"
+            disabled={node.tabs.length <= 1}
+            onClick={() => onChange({ ...node, tabs: node.tabs.filter((_, position) => position !== current) })}
+          >
+            Remove Tab
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Panels show open in the editor; the published page collapses them behind their title
+function PanelEditor({ node, onChange, assets }: BlockEditorProps<PanelNode>) {
+  return (
+    <div className="panel panel-primary">
+      <div className="panel-heading">
+        <h4 className="panel-title">
+          <InputBase
+            value={node.title}
+            onChange={(event) => onChange({ ...node, title: event.target.value })}
+            placeholder="Panel title"
+            fullWidth
+            sx={{ font: 'inherit', color: 'inherit' }}
+          />
+        </h4>
+      </div>
+      <div className="panel-body">
+        <ContentBlockList nodes={node.content} onChange={(content) => onChange({ ...node, content })} assets={assets} nested />
+      </div>
+    </div>
+  );
+}
+
+function TableEditor({ node, onChange, assets }: BlockEditorProps<TableNode>) {
+  const columns = Math.max(1, ...node.rows.map(row => row.length));
+  const createCell = (): TableCell => ({ content: [createParagraph()] });
+
+  const updateCell = (rowIndex: number, columnIndex: number, cell: TableCell) => {
+    onChange({
+      ...node,
+      rows: node.rows.map((row, r) => r === rowIndex ? row.map((current, c) => c === columnIndex ? cell : current) : row)
+    });
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mb: 1 }}>
+        <FormControlLabel
+          control={<Switch size="small" checked={node.header} onChange={(event) => onChange({ ...node, header: event.target.checked })} />}
+          label={<Typography variant="caption">Header row</Typography>}
+        />
+        <Button size="small" onClick={() => onChange({ ...node, rows: [...node.rows, Array.from({ length: columns }, createCell)] })}>
+          Add Row
+        </Button>
+        <Button size="small" onClick={() => onChange({ ...node, rows: node.rows.map(row => [...row, createCell()]) })}>
+          Add Column
+        </Button>
+        <Button size="small" color="error" disabled={node.rows.length <= 1} onClick={() => onChange({ ...node, rows: node.rows.slice(0, -1) })}>
+          Remove Last Row
+        </Button>
+        <Button size="small" color="error" disabled={columns <= 1} onClick={() => onChange({ ...node, rows: node.rows.map(row => row.slice(0, columns - 1)) })}>
+          Remove Last Column
+        </Button>
+      </Box>
+      <div className="table-responsive">
+        <table className="table table-bordered">
+          <tbody>
+            {node.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, columnIndex) => {
+                  const Cell = node.header && rowIndex === 0 ? 'th' : 'td';
+                  return (
+                    <Cell key={columnIndex}>
+                      <TableCellEditor cell={cell} onChange={(updated) => updateCell(rowIndex, columnIndex, updated)} assets={assets} />
+                    </Cell>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Box>
+  );
+}
+
+// Cells of plain text are edited in place; cells holding lists or images get a block list
+function TableCellEditor({ cell, onChange, assets }: { cell: TableCell; onChange: (cell: TableCell) => void; assets: AssetFile[] }) {
+  const [only] = cell.content;
+  if (cell.content.length === 0 || (cell.content.length === 1 && only.type === 'paragraph')) {
+    return (
+      <InlineTextEditor
+        value={only?.type === 'paragraph' ? only.content : []}
+        onChange={(content) => onChange({ content: [createParagraph(content)] })}
+      />
+    );
+  }
+  return <ContentBlockList nodes={cell.content} onChange={(content) => onChange({ content })} assets={assets} nested />;
+}
+
+function SweeperEditor({ node, onChange, assets }: BlockEditorProps<SweeperNode>) {
+  const sides = [['before', 'Before'], ['after', 'After']] as const;
+  return (
+    <div className="row image-sweep-print">
+      {sides.map(([side, label]) => (
+        <div key={side} className="col-sm-6">
+          <MediaIdField
+            value={node.content[side]}
+            onChange={(id) => onChange({ ...node, content: { ...node.content, [side]: id } })}
+            assets={assets}
+            label={`${label} media id`}
+          />
+          <MediaPreview id={node.content[side]} assets={assets} alt={label} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RadioQuestionEditor({ node, onChange, assets }: BlockEditorProps<RadioQuestionNode>) {
+  const removeAnswer = (index: number) => {
+    const position = index + 1;
+    onChange({
+      ...node,
+      answers: node.answers.filter((_, current) => current !== index),
+      // The correct answer keeps pointing at the same text
+      correct: position === node.correct ? 1 : position < node.correct ? node.correct - 1 : node.correct
+    });
+  };
+
+  return (
+    <QuestionPanel wrapClass="question-wrap radio" heading="Question">
+      <ContentBlockList nodes={node.question} onChange={(question) => onChange({ ...node, question })} assets={assets} nested />
+      <form onSubmit={(event) => event.preventDefault()}>
+        {node.answers.map((answer, index) => (
+          <Box key={index} className="response-group-item" sx={{ display: 'flex', alignItems: 'center' }}>
+            <Tooltip title="Correct answer">
+              <Radio size="small" checked={node.correct === index + 1} onChange={() => onChange({ ...node, correct: index + 1 })} />
+            </Tooltip>
+            <strong>{optionLetter(index)})&nbsp;</strong>
+            <InputBase
+              value={answer}
+              onChange={(event) => onChange({ ...node, answers: node.answers.map((current, position) => position === index ? event.target.value : current) })}
+              placeholder="Answer"
+              fullWidth
+              sx={{ font: 'inherit' }}
+            />
+            <IconButton size="small" disabled={node.answers.length <= 2} onClick={() => removeAnswer(index)}>
+              <RemoveIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+        <Button size="small" startIcon={<AddIcon />} onClick={() => onChange({ ...node, answers: [...node.answers, ''] })}>
+          Add Answer
+        </Button>
+      </form>
+      <FeedbackEditor nodes={node.feedback} onChange={(feedback) => onChange({ ...node, feedback })} assets={assets} />
+    </QuestionPanel>
+  );
+}
+
+// Each line is a sentence with "_____" where its dropdowns go, previewed as the learner sees it
+function SelectQuestionEditor({ node, onChange, assets }: BlockEditorProps<SelectQuestionNode>) {
+  type Line = SelectQuestionNode['questions'][number];
+
+  const updateLine = (index: number, updates: Partial<Line>) => {
+    onChange({ ...node, questions: node.questions.map((line, position) => position === index ? { ...line, ...updates } : line) });
+  };
+
+  const updateDropdown = (line: Line, lineIndex: number, dropdownIndex: number, dropdown: Line['dropdowns'][number]) => {
+    updateLine(lineIndex, { dropdowns: line.dropdowns.map((current, position) => position === dropdownIndex ? dropdown : current) });
+  };
+
+  return (
+    <QuestionPanel wrapClass="question-wrap inlinedropdowns" heading="Question">
+      <ContentBlockList
+        nodes={node.questionContent}
+        onChange={(questionContent) => onChange({ ...node, questionContent })}
+        assets={assets}
+        nested
+      />
+      {node.questions.map((line, lineIndex) => {
+        const blanks = line.question.split(BLANK_PATTERN).length - 1;
+        return (
+          <Box key={lineIndex} className="response-group-item" sx={{ borderBottom: '1px solid #eee' }}>
+            <Box sx={{ mb: 1 }}>
+              <strong>{optionLetter(lineIndex)})&nbsp;</strong>
+              <DropdownLinePreview line={line} />
+            </Box>
+            <TextField
+              size="small"
+              fullWidth
+              label="Sentence"
+              value={line.question}
+              onChange={(event) => updateLine(lineIndex, { question: event.target.value })}
+              helperText={blanks === line.dropdowns.length
+                ? 'Type _____ where each dropdown goes'
+                : `${blanks} blank${blanks === 1 ? '' : 's'} for ${line.dropdowns.length} dropdown${line.dropdowns.length === 1 ? '' : 's'}; extra dropdowns go at the end`}
+            />
+            {line.dropdowns.map((dropdown, dropdownIndex) => (
+              <Box key={dropdownIndex} sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 0.5, mt: 1 }}>
+                <Typography variant="caption" sx={{ minWidth: 80 }}>
+                  Dropdown {dropdownIndex + 1}
+                </Typography>
+                {dropdown.answers.map((answer, answerIndex) => (
+                  <Box key={answerIndex} sx={{ display: 'flex', alignItems: 'center', border: '1px solid #ddd', borderRadius: 1, pr: 0.5 }}>
+                    <Tooltip title="Correct answer">
+                      <Radio
+                        size="small"
+                        checked={dropdown.correct === answerIndex}
+                        onChange={() => updateDropdown(line, lineIndex, dropdownIndex, { ...dropdown, correct: answerIndex })}
+                      />
+                    </Tooltip>
+                    <InputBase
+                      value={answer}
+                      onChange={(event) => updateDropdown(line, lineIndex, dropdownIndex, {
+                        ...dropdown,
+                        answers: dropdown.answers.map((current, position) => position === answerIndex ? event.target.value : current)
+                      })}
+                      placeholder="Option"
+                      sx={{ font: 'inherit', width: `${Math.max(answer.length, 6) + 1}ch` }}
+                    />
+                    <IconButton
+                      size="small"
+                      disabled={dropdown.answers.length <= 2}
+                      onClick={() => updateDropdown(line, lineIndex, dropdownIndex, {
+                        answers: dropdown.answers.filter((_, position) => position !== answerIndex),
+                        correct: answerIndex === dropdown.correct ? 0 : answerIndex < dropdown.correct ? dropdown.correct - 1 : dropdown.correct
+                      })}
+                      sx={{ padding: 0.25 }}
+                    >
+                      <RemoveIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                ))}
+                <Button
+                  size="small"
+                  onClick={() => updateDropdown(line, lineIndex, dropdownIndex, { ...dropdown, answers: [...dropdown.answers, ''] })}
+                >
+                  Add Option
+                </Button>
+                <Button
+                  size="small"
+                  color="error"
+                  onClick={() => updateLine(lineIndex, { dropdowns: line.dropdowns.filter((_, position) => position !== dropdownIndex) })}
+                >
+                  Remove Dropdown
+                </Button>
+              </Box>
+            ))}
+            <Box sx={{ mt: 1 }}>
+              <Button size="small" onClick={() => updateLine(lineIndex, { dropdowns: [...line.dropdowns, { answers: ['', ''], correct: 0 }] })}>
+                Add Dropdown
+              </Button>
+              <Button
+                size="small"
+                color="error"
+                disabled={node.questions.length <= 1}
+                onClick={() => onChange({ ...node, questions: node.questions.filter((_, position) => position !== lineIndex) })}
+              >
+                Remove Sentence
+              </Button>
+            </Box>
+          </Box>
+        );
+      })}
+      <Button
+        size="small"
+        startIcon={<AddIcon />}
+        onClick={() => onChange({ ...node, questions: [...node.questions, { question: '_____', dropdowns: [{ answers: ['', ''], correct: 0 }] }] })}
+      >
+        Add Sentence
+      </Button>
+      <FeedbackEditor nodes={node.feedback} onChange={(feedback) => onChange({ ...node, feedback })} assets={assets} />
+    </QuestionPanel>
+  );
+}
+
+// Blanks filled in order, with any dropdowns left over at the end, as questionRenderer places them
+function DropdownLinePreview({ line }: { line: SelectQuestionNode['questions'][number] }) {
+  const parts = line.question.split(BLANK_PATTERN);
+  const dropdowns = line.dropdowns.map((dropdown, index) => (
+    <select key={index} defaultValue="">
+      <option value="">--</option>
+      {dropdown.answers.map((answer, answerIndex) => (
+        <option key={answerIndex}>{answer}</option>
+      ))}
+    </select>
+  ));
+
+  return (
+    <>
+      {parts.map((part, index) => (
+        <React.Fragment key={index}>
+          {part}
+          {index < parts.length - 1 && (dropdowns[index] ?? '_____')}
+        </React.Fragment>
+      ))}
+      {dropdowns.slice(parts.length - 1).map((dropdown, index) => (
+        <React.Fragment key={index}> {dropdown}</React.Fragment>
+      ))}
+    </>
+  );
+}
+
+function DragQuestionEditor({ node, onChange, assets }: BlockEditorProps<DragQuestionNode>) {
+  // Without the flag, the renderer decides from the directions
+  const reusable = node.reusable ?? /multiple times|more than once/i.test(node.directions);
+
+  return (
+    <QuestionPanel wrapClass="question-wrap-drag" heading="Exercise">
+      <ExercisePrompt node={node} onChange={onChange} assets={assets} />
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center' }}>
+        {node.draggables.map((label, index) => (
+          <span key={index} className="drag_item">
+            <DragHandleIcon fontSize="inherit" />
+            <InputBase
+              value={label}
+              onChange={(event) => onChange({ ...node, draggables: node.draggables.map((current, position) => position === index ? event.target.value : current) })}
+              placeholder="Label"
+              sx={{ font: 'inherit', width: `${Math.max(label.length, 5) + 1}ch` }}
+            />
+            <IconButton
+              size="small"
+              disabled={node.draggables.length <= 1}
+              onClick={() => onChange({
+                ...node,
+                draggables: node.draggables.filter((_, position) => position !== index),
+                labels: node.labels?.filter((_, position) => position !== index)
+              })}
+              sx={{ padding: 0 }}
+            >
+              <RemoveIcon fontSize="inherit" />
+            </IconButton>
+          </span>
+        ))}
+        <Button size="small" startIcon={<AddIcon />} onClick={() => onChange({ ...node, draggables: [...node.draggables, ''] })}>
+          Add Draggable
+        </Button>
+      </Box>
+      <FormControlLabel
+        control={<Switch size="small" checked={reusable} onChange={(event) => onChange({ ...node, reusable: event.target.checked })} />}
+        label={<Typography variant="caption">Each draggable can be placed more than once</Typography>}
+      />
+      <FeedbackEditor nodes={node.feedback} onChange={(feedback) => onChange({ ...node, feedback })} assets={assets} />
+    </QuestionPanel>
+  );
+}
+
+function DrawQuestionEditor({ node, onChange, assets }: BlockEditorProps<DrawQuestionNode>) {
+  return (
+    <QuestionPanel wrapClass="question-wrap-draw" heading="Exercise">
+      <ExercisePrompt node={node} onChange={onChange} assets={assets} />
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+        <Typography variant="caption">Pen colors</Typography>
+        {node.colors.map((color, index) => (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center' }}>
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(color.trim()) ? color.trim() : '#000000'}
+              title={node.labels?.[index] ?? color}
+              onChange={(event) => onChange({ ...node, colors: node.colors.map((current, position) => position === index ? event.target.value : current) })}
+            />
+            <IconButton
+              size="small"
+              disabled={node.colors.length <= 1}
+              onClick={() => onChange({
+                ...node,
+                colors: node.colors.filter((_, position) => position !== index),
+                labels: node.labels?.filter((_, position) => position !== index)
+              })}
+              sx={{ padding: 0.25 }}
+            >
+              <RemoveIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+        <Button size="small" startIcon={<AddIcon />} onClick={() => onChange({ ...node, colors: [...node.colors, '#000000'] })}>
+          Add Color
+        </Button>
+      </Box>
+      <FeedbackEditor nodes={node.feedback} onChange={(feedback) => onChange({ ...node, feedback })} assets={assets} />
+    </QuestionPanel>
+  );
+}
+
+// Question, directions and background image shared by the drag and draw exercises
+function ExercisePrompt<T extends DragQuestionNode | DrawQuestionNode>({ node, onChange, assets }: BlockEditorProps<T>) {
+  return (
+    <>
+      <InputBase
+        value={node.question}
+        onChange={(event) => onChange({ ...node, question: event.target.value })}
+        placeholder="Question"
+        multiline
+        fullWidth
+        sx={{ font: 'inherit', mb: '10px' }}
+      />
+      <InputBase
+        value={node.directions}
+        onChange={(event) => onChange({ ...node, directions: event.target.value })}
+        placeholder="Directions"
+        multiline
+        fullWidth
+        sx={{ font: 'inherit', fontStyle: 'italic', mb: '10px' }}
+      />
+      <MediaIdField value={node.background} onChange={(background) => onChange({ ...node, background })} assets={assets} label="Background media id" />
+      <MediaPreview id={node.background} assets={assets} alt="Background" />
+    </>
+  );
+}
+
+function QuestionPanel({ wrapClass, heading, children }: { wrapClass: string; heading: string; children: React.ReactNode }) {
+  return (
+    <div className="panel panel-default interaction-question">
+      <div className="panel-body">
+        <div className={wrapClass}>
+          <h4>{heading}</h4>
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Revealed after the learner answers; the print version shows it as the answer key
+function FeedbackEditor({ nodes, onChange, assets }: { nodes: ContentNode[]; onChange: (nodes: ContentNode[]) => void; assets: AssetFile[] }) {
+  return (
+    <Box className="explanation" sx={{ mt: 2, pt: 1, borderTop: '1px dashed #ccc' }}>
+      <Typography variant="caption" color="text.secondary">
+        Feedback
+      </Typography>
+      <ContentBlockList nodes={nodes} onChange={onChange} assets={assets} nested />
+    </Box>
+  );
+}
+
+// Suggests the image assets by media id; ids of media not uploaded yet can be typed in
+function MediaIdField({ value, onChange, assets, label }: { value: string; onChange: (id: string) => void; assets: AssetFile[]; label: string }) {
+  const options = assets
+    .filter(asset => asset.type === 'image')
+    .map(asset => asset.name.replace(/\.[^.]+$/, ''));
+
+  return (
+    <Autocomplete
+      freeSolo
+      size="small"
+      options={options}
+      inputValue={value}
+      onInputChange={(_, input) => onChange(input.trim())}
+      renderInput={(params) => <TextField {...params} label={label} variant="standard" />}
+      sx={{ maxWidth: 320, mb: 1 }}
+    />
+  );
+}
+
+function MediaPreview({ id, assets, alt }: { id: string; assets: AssetFile[]; alt: string }) {
+  const asset = findMediaAsset(assets, id);
+  const imageUrl = useMemo(() => asset && URL.createObjectURL(asset.file), [asset]);
+
+  if (!imageUrl) {
+    return (
+      <Box
+        sx={{
+          p: 3,
+          mb: '10px',
+          textAlign: 'center',
+          color: 'text.secondary',
+          border: '1px dashed #ccc',
+          backgroundColor: '#f5f5f5'
+        }}
+      >
+        {id
+          ? `No image asset is named ${id}. Upload ${id}.jpg (or .png) in Assets & Media to see it here.`
+          : 'Choose a media id'}
+      </Box>
+    );
+  }
+  return <img className="img-responsive center-block" src={imageUrl} alt={alt || id} />;
+}
+
+function optionLetter(index: number): string {
+  return String.fromCharCode(97 + index);
+}
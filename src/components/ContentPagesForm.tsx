@@ -9,180 +9,571 @@ import {
   CardActions,
   IconButton,
   Typography,
-  List,
-  ListItemButton,
-  ListItemIcon,
-  ListItemText,
   Dialog,
   DialogTitle,
   DialogContent,
   DialogActions,
-  Chip
+  Chip,
+  Tooltip,
+  Alert,
+  Tabs,
+  Tab
 } from '@mui/material';
+import { SimpleTreeView } from '@mui/x-tree-view/SimpleTreeView';
+import { TreeItem } from '@mui/x-tree-view/TreeItem';
 import {
   Add as AddIcon,
   Delete as DeleteIcon,
-  FolderOpen as UnitIcon
+  Edit as EditIcon,
+  DragIndicator as DragIcon,
+  FolderOpen as UnitIcon,
+  Article as PageIcon,
+  AccountTree as InnerNodeIcon,
+  Upload as UploadIcon,
+  Download as DownloadIcon,
+  Description as WordIcon,
+  TextSnippet as MarkdownIcon,
+  ContentPaste as PasteIcon,
+  EditNote as EditContentIcon
 } from '@mui/icons-material';
-import type { LessonConfig, LessonPage } from '../types/lesson';
-
-interface Unit {
-  id: string;
-  title: string;
-  description?: string;
-}
+import type { ContentNode, LessonContent } from '../types/content';
+import type { AssetFile, LessonChapter, LessonConfig, LessonPage } from '../types/lesson';
+import {
+  MAX_PAGE_LEVEL,
+  addPage,
+  canMovePage,
+  createPage,
+  findPage,
+  flattenPages,
+  movePage,
+  removePage,
+  updatePage,
+  type DropPosition
+} from '../utils/pageTree';
+import { renumberPages, type RenumberResult } from '../utils/pageRenumbering';
+import { createChapter, getLessonUnits, getPrintFileName, removeChapter } from '../utils/chapters';
+import { formatContentIssues, validateLessonContent } from '../utils/contentValidator';
+import { getImportedTitle, importLessonContent, summarizeLessonContent, type ContentSummary } from '../utils/contentImporter';
+import { analyzePages, convertStrayPaths } from '../utils/contentAnalyzer';
+import { NODE_TYPE_LABELS } from '../utils/contentNodes';
+import { importDocx, type DocxImportIssue } from '../utils/docxImporter';
+import { importMarkdown } from '../utils/markdownImporter';
+import { downloadMarkdown } from '../utils/markdownExporter';
+import PasteContentDialog from './PasteContentDialog';
+import PageContentEditor from './PageContentEditor';
 
 interface ContentPagesFormProps {
+  config: LessonConfig;
   onChange: (updates: Partial<LessonConfig>) => void;
+  assets: AssetFile[];
+  // Images extracted from an imported Word document or pasted into a page
+  onAssetsImport: (assets: AssetFile[]) => void;
 }
 
-export default function ContentPagesForm({ onChange }: ContentPagesFormProps) {
-  const [units, setUnits] = useState<Unit[]>([
-    {
-      id: 'unit-default',
-      title: 'Unit Title',
-      description: 'Default unit - edit or add more units as needed'
+// Add dialog targets a parent page (or the top level); rename targets the page itself
+type PageDialogState =
+  | { mode: 'add'; parentId?: string }
+  | { mode: 'rename'; pageId: string };
+
+interface DropTarget {
+  pageId: string;
+  position: DropPosition;
+}
+
+interface PendingImport {
+  fileName: string;
+  content: LessonContent;
+  summary: ContentSummary;
+  assets: AssetFile[];
+  issues: DocxImportIssue[];
+}
+
+// What deleting a chapter did to the links in the chapters that are left
+interface ChapterReport {
+  title: string;
+  linksUpdated: number;
+  linksBroken: number;
+}
+
+const LEVEL_NAMES = ['Unit', 'Section', 'Subsection'];
+
+export default function ContentPagesForm({ config, onChange, assets, onAssetsImport }: ContentPagesFormProps) {
+  const chapters = config.chapters;
+  const [chapterIndex, setChapterIndex] = useState(0);
+  const [expandedItems, setExpandedItems] = useState<string[]>(() => flattenPages(getLessonUnits(config)).map(page => page.id));
+  const [dialog, setDialog] = useState<PageDialogState | null>(null);
+  const [dialogTitle, setDialogTitle] = useState('');
+  const [draggedPageId, setDraggedPageId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [renumberReport, setRenumberReport] = useState<RenumberResult | null>(null);
+  const [chapterReport, setChapterReport] = useState<ChapterReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [pasteTargetId, setPasteTargetId] = useState<string | null>(null);
+  const [editingPageId, setEditingPageId] = useState<string | null>(null);
+
+  // The tree below always edits one chapter; its number is also its tab in navmenu.php
+  const currentIndex = Math.min(chapterIndex, chapters.length - 1);
+  const chapter = chapters[currentIndex];
+  const chapterNumber = currentIndex + 1;
+  const pages = chapter.pages;
+  const editingPage = editingPageId ? findPage(pages, editingPageId) : undefined;
+
+  const withChapter = (updates: Partial<LessonChapter>): LessonChapter[] =>
+    chapters.map((item, index) => index === currentIndex ? { ...item, ...updates } : item);
+
+  const updateChapter = (updates: Partial<LessonChapter>) => {
+    onChange({ chapters: withChapter(updates) });
+  };
+
+  const updatePages = (updatedPages: LessonPage[]) => {
+    updateChapter({ pages: updatedPages });
+  };
+
+  // Structural edits renumber the tree so page ids always match page positions
+  const restructurePages = (updatedPages: LessonPage[]) => {
+    const result = renumberPages(updatedPages, chapterNumber);
+    updateChapter({ pages: result.pages });
+    setRenumberReport(result.changes.length > 0 ? result : null);
+  };
+
+  const selectChapter = (index: number) => {
+    setChapterIndex(index);
+    setRenumberReport(null);
+  };
+
+  const handleAddChapter = () => {
+    const newChapter = createChapter(`Chapter ${chapters.length + 1}`);
+    onChange({ chapters: [...chapters, newChapter] });
+    setExpandedItems([...expandedItems, ...flattenPages(newChapter.pages).map(page => page.id)]);
+    selectChapter(chapters.length);
+  };
+
+  // Later chapters move up a print file, so links into them are renumbered too
+  const handleDeleteChapter = () => {
+    if (chapters.length <= 1) return;
+    const pageCount = flattenPages(pages).length;
+    if (!confirm(`Delete chapter "${chapter.title}" and its ${pageCount} page${pageCount === 1 ? '' : 's'}?`)) {
+      return;
     }
-  ]);
-  const [selectedUnitId, setSelectedUnitId] = useState<string | null>(null);
-  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [newUnitTitle, setNewUnitTitle] = useState('');
-  const [newUnitDescription, setNewUnitDescription] = useState('');
-
-  // Initialize lesson configuration with default unit
-  React.useEffect(() => {
-    const lessonPages: LessonPage[] = units.map((unit, index) => ({
-      id: `${index + 1}`,
-      title: unit.title,
-      description: unit.description,
-      content: '<p>Unit content will be scaffolded in the template</p>',
-      order: index + 1,
-      type: 'content',
-      level: 1,
-      children: [],
-      page: `${index + 1}-0-0`,
-      innerNode: false
-    }));
-    onChange({ pages: lessonPages });
-  }, [units, onChange]);
-
-  const handleAddUnit = () => {
-    if (!newUnitTitle.trim()) return;
-
-    const newUnit: Unit = {
-      id: `unit-${Date.now()}`,
-      title: newUnitTitle.trim(),
-      description: newUnitDescription.trim() || undefined
-    };
+    const result = removeChapter(chapters, currentIndex);
+    onChange({ chapters: result.chapters });
+    selectChapter(Math.max(0, currentIndex - 1));
+    setChapterReport(result.linksUpdated > 0 || result.linksBroken > 0
+      ? { title: chapter.title, linksUpdated: result.linksUpdated, linksBroken: result.linksBroken }
+      : null);
+  };
+
+  const openAddDialog = (parentId?: string) => {
+    setDialog({ mode: 'add', parentId });
+    setDialogTitle('');
+  };
 
-    const updatedUnits = [...units, newUnit];
-    setUnits(updatedUnits);
-    
-    // Reset form
-    setNewUnitTitle('');
-    setNewUnitDescription('');
-    setIsAddDialogOpen(false);
+  const openRenameDialog = (page: LessonPage) => {
+    setDialog({ mode: 'rename', pageId: page.id });
+    setDialogTitle(page.title);
   };
 
-  const handleDeleteUnit = (unitId: string) => {
+  const closeDialog = () => {
+    setDialog(null);
+    setDialogTitle('');
+  };
+
+  const handleDialogSave = () => {
+    const title = dialogTitle.trim();
+    if (!dialog || !title) return;
+
+    if (dialog.mode === 'add') {
+      restructurePages(addPage(pages, createPage(title), dialog.parentId));
+      if (dialog.parentId && !expandedItems.includes(dialog.parentId)) {
+        setExpandedItems([...expandedItems, dialog.parentId]);
+      }
+    } else {
+      updatePages(updatePage(pages, dialog.pageId, { title }));
+    }
+    closeDialog();
+  };
+
+  const handleDeletePage = (page: LessonPage) => {
     // Prevent deletion if this is the only unit
-    if (units.length <= 1) {
-      alert('A template must contain at least one unit. Add another unit before deleting this one.');
+    if (page.level === 1 && pages.length <= 1) {
+      alert('Each chapter must contain at least one unit. Add another unit before deleting this one.');
+      return;
+    }
+    const descendants = flattenPages(page.children).length;
+    if (descendants > 0 && !confirm(`Delete "${page.title}" and the ${descendants} page${descendants === 1 ? '' : 's'} below it?`)) {
+      return;
+    }
+    restructurePages(removePage(pages, page.id));
+  };
+
+  const handleToggleInnerNode = (page: LessonPage) => {
+    updatePages(updatePage(pages, page.id, { innerNode: !page.innerNode }));
+  };
+
+  // Pasted content goes after the page's existing content nodes
+  const handlePasteInsert = (nodes: ContentNode[], pastedAssets: AssetFile[]) => {
+    const page = pasteTargetId ? findPage(pages, pasteTargetId) : undefined;
+    if (!page) return;
+    updatePages(updatePage(pages, page.id, { contentNodes: [...(page.contentNodes ?? []), ...nodes] }));
+    if (pastedAssets.length > 0) {
+      onAssetsImport(pastedAssets);
+    }
+    setPasteTargetId(null);
+  };
+
+  const handleContentSave = (nodes: ContentNode[], addedAssets: AssetFile[]) => {
+    if (!editingPageId) return;
+    updatePages(updatePage(pages, editingPageId, { contentNodes: nodes }));
+    if (addedAssets.length > 0) {
+      onAssetsImport(addedAssets);
+    }
+    setEditingPageId(null);
+  };
+
+  // Files are validated up front; nothing is replaced until the summary is confirmed
+  const handleJsonImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(e.target?.result as string);
+      } catch {
+        setImportError(`${file.name} is not valid JSON. Please check the format.`);
+        return;
+      }
+
+      const issues = validateLessonContent(data);
+      if (issues.length > 0) {
+        setImportError(`${file.name} could not be imported (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n${formatContentIssues(issues)}`);
+        return;
+      }
+
+      const content = data as LessonContent;
+      setImportError(null);
+      setPendingImport({ fileName: file.name, content, summary: summarizeLessonContent(content), assets: [], issues: [] });
+    };
+    reader.readAsText(file);
+  };
+
+  // Word documents are converted to the content JSON model and previewed the same way
+  const handleDocxImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { content, assets, issues } = await importDocx(file);
+      if (content.menu.length === 0) {
+        setImportError(`${file.name} has no content to import.`);
+        return;
+      }
+      setImportError(null);
+      setPendingImport({ fileName: file.name, content, summary: summarizeLessonContent(content), assets, issues });
+    } catch (error) {
+      console.error('Error reading Word document:', error);
+      setImportError(`${file.name} could not be read as a Word (.docx) document.`);
+    }
+  };
+
+  // Markdown is parsed into the content JSON model and then validated like a JSON file
+  const handleMarkdownImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      let content: LessonContent;
+      try {
+        content = importMarkdown(e.target?.result as string);
+      } catch (error) {
+        setImportError(`${file.name} could not be imported: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+
+      const issues = validateLessonContent(content);
+      if (issues.length > 0) {
+        setImportError(`${file.name} could not be imported (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n${formatContentIssues(issues)}`);
+        return;
+      }
+      if (content.menu.length === 0) {
+        setImportError(`${file.name} has no "#" headings to import as pages.`);
+        return;
+      }
+
+      setImportError(null);
+      setPendingImport({ fileName: file.name, content, summary: summarizeLessonContent(content), assets: [], issues: [] });
+    };
+    reader.readAsText(file);
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+
+    const imported = importLessonContent(pendingImport.content, chapterNumber);
+    const importedPages = imported.pages;
+    const title = getImportedTitle(pendingImport.content);
+    const updatedChapters = withChapter({ pages: importedPages });
+    onChange(title ? { chapters: updatedChapters, lessonTitle: title } : { chapters: updatedChapters });
+    if (pendingImport.assets.length > 0) {
+      onAssetsImport(pendingImport.assets);
+    }
+
+    setExpandedItems(flattenPages(importedPages).map(page => page.id));
+    setRenumberReport(imported.changes.length > 0 ? imported : null);
+    setPendingImport(null);
+  };
+
+  // The top and bottom quarters of a row drop beside it; the middle drops inside
+  const getDropPosition = (event: React.DragEvent<HTMLElement>): DropPosition => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const offset = (event.clientY - bounds.top) / bounds.height;
+    if (offset < 0.25) return 'before';
+    if (offset > 0.75) return 'after';
+    return 'inside';
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLElement>, page: LessonPage) => {
+    if (!draggedPageId) return;
+    const position = getDropPosition(event);
+    if (!canMovePage(pages, draggedPageId, page.id, position)) {
+      setDropTarget(null);
       return;
     }
+    event.preventDefault();
+    event.stopPropagation();
+    if (dropTarget?.pageId !== page.id || dropTarget.position !== position) {
+      setDropTarget({ pageId: page.id, position });
+    }
+  };
 
-    const updatedUnits = units.filter(unit => unit.id !== unitId);
-    setUnits(updatedUnits);
-    
-    if (selectedUnitId === unitId) {
-      setSelectedUnitId(null);
+  const handleDrop = (event: React.DragEvent<HTMLElement>, page: LessonPage) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (draggedPageId) {
+      const position = getDropPosition(event);
+      restructurePages(movePage(pages, draggedPageId, page.id, position));
+      if (position === 'inside' && !expandedItems.includes(page.id)) {
+        setExpandedItems([...expandedItems, page.id]);
+      }
     }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDraggedPageId(null);
+    setDropTarget(null);
+  };
+
+  const getDropIndicatorStyle = (page: LessonPage) => {
+    if (dropTarget?.pageId !== page.id) return {};
+    if (dropTarget.position === 'before') return { boxShadow: 'inset 0 2px 0 0 #1976d2' };
+    if (dropTarget.position === 'after') return { boxShadow: 'inset 0 -2px 0 0 #1976d2' };
+    return { backgroundColor: 'action.hover', outline: '1px dashed', outlineColor: 'primary.main' };
   };
 
-  const renderUnitItem = (unit: Unit) => {
-    const unitIndex = units.indexOf(unit) + 1;
-    
+  const renderPageLabel = (page: LessonPage) => {
     return (
-      <ListItemButton
-        key={unit.id}
-        sx={{ 
-          backgroundColor: selectedUnitId === unit.id ? 'action.selected' : 'transparent',
-          mb: 1,
+      <Box
+        draggable
+        onDragStart={(event) => {
+          event.stopPropagation();
+          event.dataTransfer.effectAllowed = 'move';
+          event.dataTransfer.setData('text/plain', page.id);
+          setDraggedPageId(page.id);
+        }}
+        onDragOver={(event) => handleDragOver(event, page)}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(event) => handleDrop(event, page)}
+        onDragEnd={handleDragEnd}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          py: 0.5,
+          opacity: draggedPageId === page.id ? 0.5 : 1,
           borderRadius: 1,
-          border: '1px solid',
-          borderColor: 'divider'
+          ...getDropIndicatorStyle(page)
         }}
-        onClick={() => setSelectedUnitId(unit.id)}
       >
-        <ListItemIcon>
-          <UnitIcon color="primary" />
-        </ListItemIcon>
-        <ListItemText 
-          primary={
-            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-              <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
-                {unit.title}
-              </Typography>
-              <Chip 
-                label={`Unit ${unitIndex}`} 
-                size="small" 
-                color="primary" 
-                variant="outlined" 
-              />
-              <Chip 
-                label={`print_${unitIndex}.php`} 
-                size="small" 
-                color="secondary" 
-                variant="outlined" 
-              />
-            </Box>
-          }
-          secondary={
-            unit.description ? (
-              <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
-                {unit.description}
-              </Typography>
-            ) : (
-              <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5, fontStyle: 'italic' }}>
-                This unit will generate a template scaffold for print_{unitIndex}.php
-              </Typography>
-            )
-          }
-        />
-        <IconButton
-          edge="end"
-          onClick={(e) => {
-            e.stopPropagation();
-            handleDeleteUnit(unit.id);
-          }}
-          color="error"
-          disabled={units.length <= 1}
-          title={units.length <= 1 ? 'Cannot delete the last unit' : 'Delete unit'}
-        >
-          <DeleteIcon />
-        </IconButton>
-      </ListItemButton>
+        <DragIcon fontSize="small" sx={{ color: 'text.disabled', cursor: 'grab' }} />
+        {page.level === 1 ? <UnitIcon fontSize="small" color="primary" /> : <PageIcon fontSize="small" color="action" />}
+        <Typography variant="body2" sx={{ fontWeight: page.level === 1 ? 'bold' : 'normal' }}>
+          {page.title}
+        </Typography>
+        {page.page && (
+          <Chip label={page.page} size="small" variant="outlined" sx={{ fontSize: '0.65rem', height: 20 }} />
+        )}
+        {page.innerNode && (
+          <Chip label="Inner node" size="small" color="info" sx={{ fontSize: '0.65rem', height: 20 }} />
+        )}
+        <Box sx={{ ml: 'auto', display: 'flex', gap: 0.5 }} onClick={(event) => event.stopPropagation()}>
+          <Tooltip title={page.innerNode ? 'Make this a content page' : 'Mark as inner node (navigation only)'}>
+            <IconButton
+              size="small"
+              color={page.innerNode ? 'info' : 'default'}
+              onClick={() => handleToggleInnerNode(page)}
+              sx={{ padding: 0.25 }}
+            >
+              <InnerNodeIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Rename">
+            <IconButton size="small" onClick={() => openRenameDialog(page)} sx={{ padding: 0.25 }}>
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Edit content">
+            <IconButton size="small" onClick={() => setEditingPageId(page.id)} sx={{ padding: 0.25 }}>
+              <EditContentIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Paste content">
+            <IconButton size="small" onClick={() => setPasteTargetId(page.id)} sx={{ padding: 0.25 }}>
+              <PasteIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          {page.level < MAX_PAGE_LEVEL && (
+            <Tooltip title={`Add ${LEVEL_NAMES[page.level].toLowerCase()}`}>
+              <IconButton size="small" color="primary" onClick={() => openAddDialog(page.id)} sx={{ padding: 0.25 }}>
+                <AddIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+          <Tooltip title={page.level === 1 && pages.length <= 1 ? 'Cannot delete the last unit' : 'Delete'}>
+            <span>
+              <IconButton
+                size="small"
+                color="error"
+                onClick={() => handleDeletePage(page)}
+                disabled={page.level === 1 && pages.length <= 1}
+                sx={{ padding: 0.25 }}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      </Box>
     );
   };
 
+  const renderTreeItem = (page: LessonPage): React.ReactNode => (
+    <TreeItem key={page.id} itemId={page.id} label={renderPageLabel(page)}>
+      {page.children.map(renderTreeItem)}
+    </TreeItem>
+  );
+
+  const findings = analyzePages(pages);
+  const strayPaths = findings.flatMap(finding => finding.kind === 'strayPath' ? [finding] : []);
+  const placeholders = findings.flatMap(finding => finding.kind === 'placeholder' ? [finding] : []);
+
+  const dialogParent = dialog?.mode === 'add' && dialog.parentId ? findPage(pages, dialog.parentId) : undefined;
+  const dialogLevelName = LEVEL_NAMES[dialogParent ? dialogParent.level : 0];
+
+  const generatedFiles = chapters.map((_, index) => getPrintFileName(index + 1));
+  if (chapters.length > 1) generatedFiles.push('table_of_contents.php');
+
   return (
     <Box sx={{ p: 1 }}>
       <Card>
-        <CardHeader 
-          title="Content Structure" 
-          subheader="Create units that will generate template scaffolds (print.php files) for your lesson"
+        <CardHeader
+          title="Content Structure"
+          subheader="Organize your lesson into chapters, units, sections and subsections"
+          action={
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button component="label" startIcon={<WordIcon />} variant="outlined" size="small">
+                Import Word
+                <input
+                  type="file"
+                  accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                  hidden
+                  onChange={handleDocxImport}
+                />
+              </Button>
+              <Button component="label" startIcon={<MarkdownIcon />} variant="outlined" size="small">
+                Import Markdown
+                <input type="file" accept=".md,.markdown,text/markdown" hidden onChange={handleMarkdownImport} />
+              </Button>
+              <Button component="label" startIcon={<UploadIcon />} variant="outlined" size="small">
+                Import JSON
+                <input type="file" accept=".json,application/json" hidden onChange={handleJsonImport} />
+              </Button>
+              <Button startIcon={<DownloadIcon />} variant="outlined" size="small" onClick={() => downloadMarkdown(config)}>
+                Export Markdown
+              </Button>
+            </Box>
+          }
         />
         <CardContent>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-            Each unit you create here will generate a corresponding print.php file in your exported lesson package.
-            These serve as templates that you can fill with actual content later in a separate content management system.
+            Each chapter generates a print file in your exported lesson package, and its units, sections and subsections
+            become pages in that chapter's table of contents. Lessons with several chapters also get a chapter menu and a
+            chapter list page. Drag pages to reorder them or drop one onto another to nest it. Inner nodes appear in the
+            menu but are skipped when paging through the lesson.
           </Typography>
 
-          {units.length === 0 ? (
-            <Box sx={{ 
-              textAlign: 'center', 
-              py: 6, 
-              backgroundColor: 'grey.50', 
+          <Box sx={{ display: 'flex', alignItems: 'center', borderBottom: 1, borderColor: 'divider', mb: 2 }}>
+            <Tabs
+              value={currentIndex}
+              onChange={(_, index: number) => selectChapter(index)}
+              variant="scrollable"
+              scrollButtons="auto"
+              sx={{ flexGrow: 1 }}
+            >
+              {chapters.map((item, index) => (
+                <Tab key={item.id} label={`${index + 1}. ${item.title || 'Untitled Chapter'}`} sx={{ textTransform: 'none' }} />
+              ))}
+            </Tabs>
+            <Button size="small" startIcon={<AddIcon />} onClick={handleAddChapter}>
+              Add Chapter
+            </Button>
+          </Box>
+
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, mb: 3 }}>
+            <TextField
+              label="Chapter Title"
+              value={chapter.title}
+              onChange={(e) => updateChapter({ title: e.target.value })}
+              size="small"
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Chapter Description"
+              value={chapter.description}
+              onChange={(e) => updateChapter({ description: e.target.value })}
+              size="small"
+              multiline
+              maxRows={3}
+              helperText="Shown on the chapter list page"
+              sx={{ flex: 2 }}
+            />
+            <Chip label={getPrintFileName(chapterNumber)} size="small" color="secondary" variant="outlined" sx={{ mt: 1 }} />
+            <Tooltip title={chapters.length <= 1 ? 'Cannot delete the only chapter' : 'Delete chapter'}>
+              <span>
+                <IconButton color="error" onClick={handleDeleteChapter} disabled={chapters.length <= 1}>
+                  <DeleteIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+
+          {importError && (
+            <Alert severity="error" sx={{ mb: 2, whiteSpace: 'pre-line' }} onClose={() => setImportError(null)}>
+              {importError}
+            </Alert>
+          )}
+
+          {pages.length === 0 ? (
+            <Box sx={{
+              textAlign: 'center',
+              py: 6,
+              backgroundColor: 'grey.50',
               borderRadius: 1,
               border: '2px dashed',
               borderColor: 'grey.300'
@@ -197,7 +588,7 @@ export default function ContentPagesForm({ onChange }: ContentPagesFormProps) {
               <Button
                 variant="contained"
                 startIcon={<AddIcon />}
-                onClick={() => setIsAddDialogOpen(true)}
+                onClick={() => openAddDialog()}
               >
                 Add First Unit
               </Button>
@@ -205,16 +596,80 @@ export default function ContentPagesForm({ onChange }: ContentPagesFormProps) {
           ) : (
             <Box>
               <Typography variant="h6" gutterBottom sx={{ mb: 2 }}>
-                Lesson Units ({units.length})
+                Lesson Pages ({flattenPages(pages).length})
               </Typography>
-              
-              <List sx={{ mb: 2 }}>
-                {units.map(unit => renderUnitItem(unit))}
-              </List>
-              
-              <Box sx={{ 
-                p: 2, 
-                backgroundColor: 'info.50', 
+
+              {strayPaths.length > 0 && (
+                <Alert
+                  severity="warning"
+                  sx={{ mb: 2 }}
+                  action={
+                    <Button color="inherit" size="small" onClick={() => updatePages(convertStrayPaths(pages))}>
+                      Convert to Images
+                    </Button>
+                  }
+                >
+                  {strayPaths.length} paragraph{strayPaths.length === 1 ? ' contains' : 's contain'} only an image path
+                  (e.g. {strayPaths[0].imagePath} on "{strayPaths[0].page.title}").
+                  Convert them to images that use the uploaded asset with the same file name.
+                </Alert>
+              )}
+
+              {placeholders.length > 0 && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    {placeholders.length} placeholder{placeholders.length === 1 ? '' : 's'} must be replaced before export
+                  </Typography>
+                  {placeholders.map((placeholder, index) => (
+                    <Typography key={index} variant="body2">
+                      {placeholder.page.page} {placeholder.page.title}: "{placeholder.text}"
+                    </Typography>
+                  ))}
+                </Alert>
+              )}
+
+              {chapterReport && (
+                <Alert severity={chapterReport.linksBroken > 0 ? 'warning' : 'info'} sx={{ mb: 2 }} onClose={() => setChapterReport(null)}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Chapter "{chapterReport.title}" deleted
+                    {chapterReport.linksUpdated > 0 && `, ${chapterReport.linksUpdated} link${chapterReport.linksUpdated === 1 ? '' : 's'} to later chapters updated`}
+                  </Typography>
+                  {chapterReport.linksBroken > 0 && (
+                    <Typography variant="body2">
+                      {chapterReport.linksBroken} link{chapterReport.linksBroken === 1 ? '' : 's'} into the deleted chapter now lead{chapterReport.linksBroken === 1 ? 's' : ''} to another chapter and need{chapterReport.linksBroken === 1 ? 's' : ''} fixing.
+                    </Typography>
+                  )}
+                </Alert>
+              )}
+
+              {renumberReport && (
+                <Alert severity="info" sx={{ mb: 2 }} onClose={() => setRenumberReport(null)}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    {renumberReport.changes.length} page{renumberReport.changes.length === 1 ? '' : 's'} renumbered
+                    {renumberReport.linksUpdated > 0 && `, ${renumberReport.linksUpdated} internal link${renumberReport.linksUpdated === 1 ? '' : 's'} updated`}
+                  </Typography>
+                  {renumberReport.changes.map(change => (
+                    <Typography key={change.pageId} variant="body2">
+                      {change.title}: {change.from} → {change.to}
+                    </Typography>
+                  ))}
+                </Alert>
+              )}
+
+              <Box sx={{ mb: 2, border: '1px solid', borderColor: 'divider', borderRadius: 1, p: 1 }}>
+                <SimpleTreeView
+                  expandedItems={expandedItems}
+                  onExpandedItemsChange={(_, itemIds) => setExpandedItems(itemIds)}
+                  expansionTrigger="iconContainer"
+                  disableSelection
+                >
+                  {pages.map(renderTreeItem)}
+                </SimpleTreeView>
+              </Box>
+
+              <Box sx={{
+                p: 2,
+                backgroundColor: 'info.50',
                 borderRadius: 1,
                 border: '1px solid',
                 borderColor: 'info.200'
@@ -223,19 +678,19 @@ export default function ContentPagesForm({ onChange }: ContentPagesFormProps) {
                   📁 Generated Template Files
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
-                  Your lesson package will include: {units.map((_, index) => `print_${index + 1}.php`).join(', ')}
+                  Your lesson package will include: {generatedFiles.join(', ')}
                 </Typography>
               </Box>
             </Box>
           )}
         </CardContent>
-        
-        {units.length > 0 && (
+
+        {pages.length > 0 && (
           <CardActions>
             <Button
               startIcon={<AddIcon />}
               variant="outlined"
-              onClick={() => setIsAddDialogOpen(true)}
+              onClick={() => openAddDialog()}
             >
               Add Unit
             </Button>
@@ -243,49 +698,147 @@ export default function ContentPagesForm({ onChange }: ContentPagesFormProps) {
         )}
       </Card>
 
-      {/* Add Unit Dialog */}
-      <Dialog 
-        open={isAddDialogOpen} 
-        onClose={() => setIsAddDialogOpen(false)}
+      {/* JSON Import Preview Dialog */}
+      <Dialog
+        open={pendingImport !== null}
+        onClose={() => setPendingImport(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Import {pendingImport?.fileName}</DialogTitle>
+        <DialogContent>
+          {pendingImport && (
+            <Box sx={{ pt: 1 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Lesson Title
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {pendingImport.summary.title
+                  ? `"${pendingImport.summary.title}"${config.lessonTitle ? ` replaces "${config.lessonTitle}"` : ''}`
+                  : 'The file has no title; the current lesson title is kept.'}
+              </Typography>
+
+              <Typography variant="subtitle2" gutterBottom>
+                Pages
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {pendingImport.summary.pagesByLevel
+                  .map((count, index) => `${count} ${LEVEL_NAMES[index].toLowerCase()}${count === 1 ? '' : 's'}`)
+                  .join(', ')}
+              </Typography>
+
+              <Typography variant="subtitle2" gutterBottom>
+                Content
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+                {(Object.keys(NODE_TYPE_LABELS) as ContentNode['type'][])
+                  .filter(type => pendingImport.summary.nodeCounts[type])
+                  .map(type => (
+                    <Chip key={type} size="small" label={`${NODE_TYPE_LABELS[type]}: ${pendingImport.summary.nodeCounts[type]}`} />
+                  ))}
+              </Box>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {pendingImport.assets.length > 0
+                  ? `${pendingImport.assets.length} image${pendingImport.assets.length === 1 ? '' : 's'} from the document will be added to Assets & Media.`
+                  : <>
+                      {pendingImport.summary.mediaIds.length} media item{pendingImport.summary.mediaIds.length === 1 ? '' : 's'} referenced.
+                      Upload them in the Assets &amp; Media step, named after their media id (e.g. {pendingImport.summary.mediaIds[0] ?? '87025'}.jpg).
+                    </>}
+              </Typography>
+
+              {pendingImport.issues.length > 0 && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Import report
+                  </Typography>
+                  {pendingImport.issues.map((issue, index) => (
+                    <Typography key={index} variant="body2">
+                      {issue.location}: {issue.message}
+                    </Typography>
+                  ))}
+                </Alert>
+              )}
+
+              {pages.length > 0 && (
+                <Alert severity="warning">
+                  This replaces the {flattenPages(pages).length} page{flattenPages(pages).length === 1 ? '' : 's'} currently
+                  in {chapters.length > 1 ? `chapter ${chapterNumber}, "${chapter.title}"` : 'the lesson'}.
+                </Alert>
+              )}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingImport(null)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirmImport} variant="contained">
+            {pages.length > 0 ? 'Replace Pages' : 'Import Pages'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Page Content Editor */}
+      {editingPage && (
+        <PageContentEditor
+          key={editingPage.id}
+          page={editingPage}
+          assets={assets}
+          onClose={() => setEditingPageId(null)}
+          onSave={handleContentSave}
+        />
+      )}
+
+      {/* Paste Content Dialog */}
+      <PasteContentDialog
+        page={pasteTargetId ? findPage(pages, pasteTargetId) ?? null : null}
+        onClose={() => setPasteTargetId(null)}
+        onInsert={handlePasteInsert}
+      />
+
+      {/* Add / Rename Page Dialog */}
+      <Dialog
+        open={dialog !== null}
+        onClose={closeDialog}
         maxWidth="sm"
         fullWidth
       >
-        <DialogTitle>Add New Unit</DialogTitle>
+        <DialogTitle>
+          {dialog?.mode === 'rename' ? 'Rename Page' : `Add New ${dialogLevelName}`}
+        </DialogTitle>
         <DialogContent>
           <Box sx={{ pt: 2 }}>
+            {dialogParent && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Inside "{dialogParent.title}"
+              </Typography>
+            )}
             <TextField
               fullWidth
-              label="Unit Title"
-              value={newUnitTitle}
-              onChange={(e) => setNewUnitTitle(e.target.value)}
+              label="Title"
+              value={dialogTitle}
+              onChange={(e) => setDialogTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleDialogSave();
+              }}
               placeholder="e.g., Introduction to Weather Patterns"
-              sx={{ mb: 2 }}
               autoFocus
             />
-            <TextField
-              fullWidth
-              label="Unit Description (optional)"
-              value={newUnitDescription}
-              onChange={(e) => setNewUnitDescription(e.target.value)}
-              placeholder="Brief description of what this unit covers..."
-              multiline
-              rows={3}
-            />
           </Box>
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setIsAddDialogOpen(false)}>
+          <Button onClick={closeDialog}>
             Cancel
           </Button>
-          <Button 
-            onClick={handleAddUnit}
+          <Button
+            onClick={handleDialogSave}
             variant="contained"
-            disabled={!newUnitTitle.trim()}
+            disabled={!dialogTitle.trim()}
           >
-            Add Unit
+            {dialog?.mode === 'rename' ? 'Save' : `Add ${dialogLevelName}`}
           </Button>
         </DialogActions>
       </Dialog>
     </Box>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  IconButton,
+  Paper,
+  Tooltip
+} from '@mui/material';
+import {
+  FormatBold as BoldIcon,
+  FormatItalic as ItalicIcon,
+  FormatUnderlined as UnderlineIcon,
+  Superscript as SuperscriptIcon,
+  Subscript as SubscriptIcon,
+  Link as LinkIcon,
+  LinkOff as UnlinkIcon
+} from '@mui/icons-material';
+import type { TextNode } from '../types/content';
+import { formatInlineText } from '../utils/inlineFormatter';
+import { convertInlineHtml } from '../utils/pasteSanitizer';
+
+interface InlineTextEditorProps {
+  value: TextNode[];
+  onChange: (value: TextNode[]) => void;
+  component?: 'div' | 'p' | 'span';
+  placeholder?: string;
+  focused?: boolean; // Takes the focus when this turns true, e.g. for a list item just added
+  onFocus?: () => void;
+  onEnter?: () => void; // Replaces the line break Enter would otherwise insert
+  onDeleteEmpty?: () => void; // Backspace with nothing left to delete
+}
+
+// Browsers write these as <b>, <i>, <u>, <sup> and <sub>, which the sanitizer reads back as marks
+const FORMAT_COMMANDS = [
+  { command: 'bold', label: 'Bold (Ctrl+B)', icon: <BoldIcon fontSize="small" /> },
+  { command: 'italic', label: 'Italic (Ctrl+I)', icon: <ItalicIcon fontSize="small" /> },
+  { command: 'underline', label: 'Underline (Ctrl+U)', icon: <UnderlineIcon fontSize="small" /> },
+  { command: 'superscript', label: 'Superscript', icon: <SuperscriptIcon fontSize="small" /> },
+  { command: 'subscript', label: 'Subscript', icon: <SubscriptIcon fontSize="small" /> }
+];
+
+// Rich text for a single paragraph: the markup is whatever the browser's editing produces,
+// converted back to text runs on every change so only the marks the content model has survive.
+export default function InlineTextEditor({
+  value,
+  onChange,
+  component = 'div',
+  placeholder,
+  focused,
+  onFocus,
+  onEnter,
+  onDeleteEmpty
+}: InlineTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const emitted = useRef<TextNode[] | null>(null);
+  const [active, setActive] = useState(false);
+
+  // Only changes from outside are written back; rewriting what was just typed would move the caret
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && value !== emitted.current) {
+      editor.innerHTML = formatInlineText(value);
+      emitted.current = value;
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (focused) editorRef.current?.focus();
+  }, [focused]);
+
+  // The editor's own markup keeps #page_ links, which pasted content loses
+  const emitChange = () => {
+    const runs = convertInlineHtml(editorRef.current?.innerHTML ?? '', true);
+    emitted.current = runs;
+    onChange(runs);
+  };
+
+  const runCommand = (command: string, argument?: string) => {
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  // The prompt takes the focus, so the selection is put back before the link is made
+  const handleLink = () => {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : undefined;
+    const href = prompt('Link address', 'https://');
+    if (!href?.trim() || !range) return;
+
+    editorRef.current?.focus();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    runCommand('createLink', href.trim());
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey && onEnter) {
+      event.preventDefault();
+      onEnter();
+    } else if (event.key === 'Backspace' && onDeleteEmpty && !editorRef.current?.textContent) {
+      event.preventDefault();
+      onDeleteEmpty();
+    }
+  };
+
+  // Pasted text goes through the same sanitizer as the Paste Content dialog
+  const handlePaste = (event: React.ClipboardEvent<HTMLElement>) => {
+    event.preventDefault();
+    const html = event.clipboardData.getData('text/html');
+    const runs = html
+      ? convertInlineHtml(html)
+      : [{ type: 'text' as const, text: event.clipboardData.getData('text/plain') }];
+    runCommand('insertHTML', formatInlineText(runs));
+  };
+
+  return (
+    <Box sx={{ position: 'relative' }}>
+      {active && (
+        <Paper
+          elevation={3}
+          // Keeps the selection in the text while a button is pressed
+          onMouseDown={(event) => event.preventDefault()}
+          sx={{ position: 'absolute', bottom: '100%', left: 0, zIndex: 2, display: 'flex', mb: 0.5 }}
+        >
+          {FORMAT_COMMANDS.map(({ command, label, icon }) => (
+            <Tooltip key={command} title={label}>
+              <IconButton size="small" onClick={() => runCommand(command)}>
+                {icon}
+              </IconButton>
+            </Tooltip>
+          ))}
+          <Tooltip title="Link">
+            <IconButton size="small" onClick={handleLink}>
+              <LinkIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Remove link">
+            <IconButton size="small" onClick={() => runCommand('unlink')}>
+              <UnlinkIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Paper>
+      )}
+      <Box
+        component={component}
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        data-placeholder={placeholder}
+        onInput={emitChange}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onFocus={() => {
+          setActive(true);
+          onFocus?.();
+        }}
+        onBlur={() => setActive(false)}
+        sx={{
+          minHeight: '1.4em',
+          outline: 'none',
+          cursor: 'text',
+          '&:empty::before': { content: 'attr(data-placeholder)', color: 'text.disabled' }
+        }}
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Paper,
+  Alert
+} from '@mui/material';
+import { ContentPaste as PasteIcon } from '@mui/icons-material';
+import type { SxProps, Theme } from '@mui/material/styles';
+import type { ContentNode } from '../types/content';
+import type { AssetFile, LessonPage } from '../types/lesson';
+import { convertPageHtml } from '../utils/pasteSanitizer';
+import ContentBlockList from './ContentBlockEditor';
+import PasteContentDialog from './PasteContentDialog';
+
+interface PageContentEditorProps {
+  page: LessonPage;
+  assets: AssetFile[];
+  onClose: () => void;
+  onSave: (nodes: ContentNode[], assets: AssetFile[]) => void;
+}
+
+// The parts of meted-base.min.css (Bootstrap 3 underneath) the editor's blocks use, so a page
+// reads close to how it ships without loading the lesson stylesheet into the builder
+const METED_BASE_STYLES: SxProps<Theme> = {
+  fontFamily: '"Helvetica Neue", Helvetica, Arial, sans-serif',
+  fontSize: 14,
+  lineHeight: 1.42857,
+  color: '#333',
+  '& h3, & h4': { fontFamily: 'source_sans_probold, Helvetica, Arial, sans-serif', fontWeight: 'normal', color: '#333' },
+  '& h3': { fontSize: 24, mt: '20px', mb: '10px' },
+  '& h4': { fontSize: 18, mt: '10px', mb: '10px' },
+  '& p': { mt: 0, mb: '10px' },
+  '& ul, & ol': { mt: 0, mb: '10px', pl: '40px' },
+  '& a': { color: '#2a6496' },
+  '& .img-responsive': { display: 'block', maxWidth: '100%', height: 'auto' },
+  '& .center-block': { mx: 'auto' },
+  '& .caption': { mb: '10px' },
+  '& .caption-text': {
+    display: 'block',
+    maxWidth: 960,
+    mx: 'auto',
+    mt: '4px',
+    px: '4px',
+    py: '2px',
+    backgroundColor: '#dadada',
+    borderRadius: '2px',
+    fontSize: '80%',
+    fontStyle: 'italic',
+    color: '#333'
+  },
+  '& .panel': { mb: '20px', backgroundColor: '#fff', border: '1px solid transparent', borderRadius: '4px', boxShadow: '0 1px 1px rgba(0,0,0,.05)' },
+  '& .panel-primary': { borderColor: '#555' },
+  '& .panel-primary > .panel-heading': { color: '#fff', backgroundColor: '#333', borderColor: '#555' },
+  '& .panel-default': { borderColor: '#ddd' },
+  '& .panel-heading': { px: '15px', py: '10px', borderBottom: '1px solid transparent', borderTopLeftRadius: '3px', borderTopRightRadius: '3px' },
+  '& .panel-title': { m: 0, fontSize: 16, color: 'inherit' },
+  '& .panel-body': { p: '15px' },
+  '& .tabs-container': { my: '10px' },
+  '& .nav-tabs': { display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', m: 0, p: 0, listStyle: 'none', borderBottom: '1px solid #ddd' },
+  '& .nav-tabs > li': { mb: '-1px' },
+  '& .nav-tabs > li > a': {
+    display: 'block',
+    mr: '2px',
+    px: '15px',
+    py: '10px',
+    color: '#2a6496',
+    backgroundColor: '#d7d7d7',
+    border: '1px solid transparent',
+    borderRadius: '4px 4px 0 0',
+    cursor: 'pointer',
+    textDecoration: 'none'
+  },
+  '& .nav-tabs > li.active > a': { color: '#555', backgroundColor: '#fff', borderColor: '#ddd', borderBottomColor: 'transparent', cursor: 'default' },
+  '& .tab-content': { p: '10px', border: '1px solid #ddd', borderTop: 'none' },
+  '& .table': { width: '100%', mb: '20px', borderCollapse: 'collapse' },
+  '& .table-bordered, & .table-bordered th, & .table-bordered td': { border: '1px solid #ddd' },
+  '& .table th, & .table td': { p: '8px', verticalAlign: 'top', textAlign: 'left' },
+  '& .row': { display: 'flex', flexWrap: 'wrap', mx: '-15px' },
+  '& .col-sm-6': { flex: '1 1 50%', minWidth: 240, px: '15px', boxSizing: 'border-box' },
+  '& .question-wrap, & .question-wrap-drag, & .question-wrap-draw': { fontSize: 13, lineHeight: '19px', color: '#333', px: '10px' },
+  '& .question-wrap form > div': { px: '5px', py: '10px' },
+  '& .response-group-item': { py: '5px' },
+  '& .drag_item': {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+    m: '4px',
+    px: '8px',
+    py: '4px',
+    backgroundColor: '#f5f5f5',
+    border: '1px solid #ccc',
+    borderRadius: '4px'
+  }
+};
+
+// Edits a copy of the page's content; nothing reaches the lesson until Save
+export default function PageContentEditor({ page, assets, onClose, onSave }: PageContentEditorProps) {
+  const [nodes, setNodes] = useState<ContentNode[] | null>(page.contentNodes ?? null);
+  const [newAssets, setNewAssets] = useState<AssetFile[]>([]);
+  const [pasting, setPasting] = useState(false);
+
+  // Pages opened from a lesson package keep their HTML until the author converts it
+  const htmlOnly = nodes === null && page.content.trim() !== '';
+  const allAssets = [...assets.filter(asset => !newAssets.some(image => image.name === asset.name)), ...newAssets];
+
+  const handleConvert = () => {
+    setNodes(convertPageHtml(page.content));
+  };
+
+  const handlePasteInsert = (pasted: ContentNode[], pastedAssets: AssetFile[]) => {
+    setNodes([...(nodes ?? []), ...pasted]);
+    setNewAssets([...newAssets.filter(asset => !pastedAssets.some(image => image.name === asset.name)), ...pastedAssets]);
+    setPasting(false);
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="lg" fullWidth scroll="paper">
+      <DialogTitle>Edit "{page.title}"</DialogTitle>
+      <DialogContent dividers>
+        {htmlOnly
+          ? (
+            <>
+              <Alert
+                severity="info"
+                sx={{ mb: 2 }}
+                action={
+                  <Button color="inherit" size="small" onClick={handleConvert}>
+                    Convert to Blocks
+                  </Button>
+                }
+              >
+                This page's content is HTML, for example from an opened lesson package.
+                Convert it to blocks to edit it here; markup the blocks don't cover is dropped.
+              </Alert>
+              <Paper variant="outlined" sx={{ p: 3 }}>
+                <Box sx={METED_BASE_STYLES}>
+                  <h3>{page.title}</h3>
+                  <div dangerouslySetInnerHTML={{ __html: page.content }} />
+                </Box>
+              </Paper>
+            </>
+          )
+          : (
+            <Paper variant="outlined" sx={{ p: 3 }}>
+              <Box sx={METED_BASE_STYLES}>
+                <h3>{page.title}</h3>
+                <ContentBlockList nodes={nodes ?? []} onChange={setNodes} assets={allAssets} />
+              </Box>
+            </Paper>
+          )}
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<PasteIcon />} disabled={htmlOnly} onClick={() => setPasting(true)} sx={{ mr: 'auto' }}>
+          Paste Content
+        </Button>
+        <Button onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="contained" disabled={htmlOnly} onClick={() => onSave(nodes ?? [], newAssets)}>
+          Save
+        </Button>
+      </DialogActions>
+
+      {/* Paste Content Dialog */}
+      <PasteContentDialog
+        page={pasting ? { ...page, contentNodes: nodes ?? [] } : null}
+        onClose={() => setPasting(false)}
+        onInsert={handlePasteInsert}
+      />
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Chip,
+  Typography,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import {
+  ContentPaste as PasteIcon,
+  Upload as UploadIcon
+} from '@mui/icons-material';
+import type { ContentNode } from '../types/content';
+import type { AssetFile, LessonPage } from '../types/lesson';
+import { NODE_TYPE_LABELS, walkContentNodes } from '../utils/contentNodes';
+import {
+  convertClipboardData,
+  createPastedAsset,
+  loadPastedImages,
+  removePastedImages,
+  type PastedImage
+} from '../utils/pasteSanitizer';
+
+interface PasteContentDialogProps {
+  page: LessonPage | null; // Page the content goes into; the dialog is open while set
+  onClose: () => void;
+  onInsert: (nodes: ContentNode[], assets: AssetFile[]) => void;
+}
+
+interface PendingPaste {
+  nodes: ContentNode[];
+  assets: AssetFile[];
+  unresolved: PastedImage[];
+  supplied: Record<string, AssetFile>; // Media id -> the file the author chose for it
+}
+
+export default function PasteContentDialog({ page, onClose, onInsert }: PasteContentDialogProps) {
+  const [pendingPaste, setPendingPaste] = useState<PendingPaste | null>(null);
+  const [pasteError, setPasteError] = useState<string | null>(null);
+  const [loadingImages, setLoadingImages] = useState(false);
+
+  // contentNodes take over from a page's HTML, so the HTML is lost
+  const replacesHtml = Boolean(page && !page.contentNodes && page.content.trim());
+
+  const close = () => {
+    setPendingPaste(null);
+    setPasteError(null);
+    onClose();
+  };
+
+  // The clipboard is only readable during the event, so it's converted before anything is awaited
+  const handlePaste = async (event: React.ClipboardEvent<HTMLElement>) => {
+    event.preventDefault();
+    const pasted = convertClipboardData(event.clipboardData);
+    if (pasted.nodes.length === 0) {
+      setPasteError('The clipboard holds nothing that can go into a lesson page.');
+      return;
+    }
+
+    setPasteError(null);
+    setLoadingImages(true);
+    const { assets, unresolved } = await loadPastedImages(pasted.images);
+    setPendingPaste({ nodes: pasted.nodes, assets, unresolved, supplied: {} });
+    setLoadingImages(false);
+  };
+
+  const handleImageChoice = (image: PastedImage, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !pendingPaste) return;
+
+    const asset = createPastedAsset(image, file, file.name);
+    if (!asset) {
+      setPasteError(`${file.name} is not an image browsers can display. Choose a PNG, JPEG, GIF, SVG or WebP file.`);
+      return;
+    }
+    setPasteError(null);
+    setPendingPaste({ ...pendingPaste, supplied: { ...pendingPaste.supplied, [image.id]: asset } });
+  };
+
+  // Images still without a file are left out rather than pointing at nothing
+  const handleInsert = () => {
+    if (!pendingPaste) return;
+    const missing = pendingPaste.unresolved.filter(image => !pendingPaste.supplied[image.id]).map(image => image.id);
+    onInsert(
+      missing.length > 0 ? removePastedImages(pendingPaste.nodes, missing) : pendingPaste.nodes,
+      [...pendingPaste.assets, ...Object.values(pendingPaste.supplied)]
+    );
+    setPendingPaste(null);
+    setPasteError(null);
+  };
+
+  const nodeCounts: Partial<Record<ContentNode['type'], number>> = {};
+  walkContentNodes(pendingPaste?.nodes ?? [], node => {
+    nodeCounts[node.type] = (nodeCounts[node.type] ?? 0) + 1;
+  });
+  const missingCount = pendingPaste?.unresolved.filter(image => !pendingPaste.supplied[image.id]).length ?? 0;
+
+  return (
+    <Dialog open={page !== null} onClose={close} maxWidth="sm" fullWidth>
+      <DialogTitle>Paste into "{page?.title}"</DialogTitle>
+      <DialogContent>
+        <Box sx={{ pt: 1 }}>
+          <Box
+            tabIndex={0}
+            onPaste={handlePaste}
+            sx={{
+              p: 4,
+              mb: 2,
+              border: '2px dashed',
+              borderColor: 'divider',
+              borderRadius: 1,
+              textAlign: 'center',
+              cursor: 'text',
+              '&:focus': { borderColor: 'primary.main', outline: 'none' }
+            }}
+          >
+            {loadingImages
+              ? <CircularProgress size={24} />
+              : <PasteIcon color="action" />}
+            <Typography variant="body2" color="text.secondary">
+              Click here and paste (Ctrl+V / ⌘V) from Word, Google Docs or a web page.
+              Formatting the lesson styles don't use is removed.
+            </Typography>
+          </Box>
+
+          {pasteError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {pasteError}
+            </Alert>
+          )}
+
+          {pendingPaste && (
+            <>
+              <Typography variant="subtitle2" gutterBottom>
+                Content
+              </Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+                {(Object.keys(NODE_TYPE_LABELS) as ContentNode['type'][])
+                  .filter(type => nodeCounts[type])
+                  .map(type => (
+                    <Chip key={type} size="small" label={`${NODE_TYPE_LABELS[type]}: ${nodeCounts[type]}`} />
+                  ))}
+              </Box>
+              {pendingPaste.assets.length > 0 && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  {pendingPaste.assets.length} image{pendingPaste.assets.length === 1 ? '' : 's'} will be added to Assets &amp; Media.
+                </Typography>
+              )}
+
+              {pendingPaste.unresolved.length > 0 && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Images to supply
+                  </Typography>
+                  <Typography variant="body2" sx={{ mb: 1 }}>
+                    These images couldn't be read from the clipboard. Choose a file for each, or they are left out.
+                  </Typography>
+                  {pendingPaste.unresolved.map(image => (
+                    <Box key={image.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                      <Typography variant="body2" sx={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {image.source.slice(image.source.lastIndexOf('/') + 1) || image.id}
+                      </Typography>
+                      {pendingPaste.supplied[image.id] && (
+                        <Chip size="small" color="success" label={pendingPaste.supplied[image.id].file.name} />
+                      )}
+                      <Button size="small" component="label" startIcon={<UploadIcon />}>
+                        Choose Image
+                        <input type="file" hidden accept="image/*" onChange={(event) => handleImageChoice(image, event)} />
+                      </Button>
+                    </Box>
+                  ))}
+                </Alert>
+              )}
+
+              {replacesHtml && (
+                <Alert severity="warning">
+                  This page's content is HTML, for example from an opened lesson package. The pasted content replaces it.
+                </Alert>
+              )}
+            </>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={close}>
+          Cancel
+        </Button>
+        <Button onClick={handleInsert} variant="contained" disabled={!pendingPaste || loadingImages}>
+          {replacesHtml ? 'Replace Content' : 'Add to Page'}
+          {missingCount > 0 ? ` (${missingCount} image${missingCount === 1 ? '' : 's'} left out)` : ''}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
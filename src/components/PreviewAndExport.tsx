@@ -42,10 +42,19 @@ import {
   Description as FileIcon,
   Code as CodeIcon,
   Image as ImageIcon,
-  ContentCopy as CopyIcon
+  ContentCopy as CopyIcon,
+  DataObject as JsonIcon,
+  TextSnippet as MarkdownIcon
 } from '@mui/icons-material';
 import { generateLessonPackage, downloadLessonPackage } from '../utils/lessonGenerator';
 import { LatestCorePhpGenerator } from '../utils/latestCorePhpGenerator';
+import { StaticLessonGenerator } from '../utils/staticLessonGenerator';
+import { Scorm12PackageGenerator, Scorm2004PackageGenerator } from '../utils/scormPackageGenerator';
+import { Cmi5PackageGenerator, XapiPackageGenerator } from '../utils/xapiPackageGenerator';
+import { downloadLessonContent } from '../utils/contentExporter';
+import { downloadMarkdown } from '../utils/markdownExporter';
+import { analyzePages } from '../utils/contentAnalyzer';
+import { getLessonUnits, getPrintFileName } from '../utils/chapters';
 import type { LessonConfig, AssetFile } from '../types/lesson';
 
 interface PreviewAndExportProps {
@@ -53,6 +62,13 @@ interface PreviewAndExportProps {
   assets: AssetFile[];
 }
 
+// The generators' own errors, such as a lesson with no pages, say what to fix
+function alertExportFailure(format: string, error: unknown) {
+  alert(error instanceof Error
+    ? `Failed to generate ${format} package: ${error.message}`
+    : `Failed to generate ${format} package. Please check the console for details.`);
+}
+
 export default function PreviewAndExport({ config, assets }: PreviewAndExportProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [previewDialog, setPreviewDialog] = useState<{
@@ -61,6 +77,7 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
     title: string;
   }>({ open: false, content: '', title: '' });
   const [expandedPanel, setExpandedPanel] = useState<string>('summary');
+  const units = getLessonUnits(config);
 
   const handleGenerateAndDownload = async () => {
     try {
@@ -77,7 +94,7 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
   const handleGenerateLatestCorePhp = async () => {
     try {
       setIsGenerating(true);
-      const generator = new LatestCorePhpGenerator(config);
+      const generator = new LatestCorePhpGenerator(config, assets);
       await generator.generateLesson();
     } catch (error) {
       console.error('Error generating latest_core_php package:', error);
@@ -87,6 +104,71 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
     }
   };
 
+  const handleGenerateStaticHtml = async () => {
+    try {
+      setIsGenerating(true);
+      const generator = new StaticLessonGenerator(config, assets);
+      await generator.generateLesson();
+    } catch (error) {
+      console.error('Error generating static HTML package:', error);
+      alertExportFailure('static HTML', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleGenerateScorm12 = async () => {
+    try {
+      setIsGenerating(true);
+      const generator = new Scorm12PackageGenerator(config, assets);
+      await generator.generateLesson();
+    } catch (error) {
+      console.error('Error generating SCORM 1.2 package:', error);
+      alertExportFailure('SCORM 1.2', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleGenerateScorm2004 = async () => {
+    try {
+      setIsGenerating(true);
+      const generator = new Scorm2004PackageGenerator(config, assets);
+      await generator.generateLesson();
+    } catch (error) {
+      console.error('Error generating SCORM 2004 package:', error);
+      alertExportFailure('SCORM 2004', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleGenerateXapi = async () => {
+    try {
+      setIsGenerating(true);
+      const generator = new XapiPackageGenerator(config, assets);
+      await generator.generateLesson();
+    } catch (error) {
+      console.error('Error generating xAPI package:', error);
+      alertExportFailure('xAPI', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleGenerateCmi5 = async () => {
+    try {
+      setIsGenerating(true);
+      const generator = new Cmi5PackageGenerator(config, assets);
+      await generator.generateLesson();
+    } catch (error) {
+      console.error('Error generating cmi5 package:', error);
+      alertExportFailure('cmi5', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   const handlePreview = async (type: 'config' | 'structure') => {
     let content = '';
     let title = '';
@@ -143,7 +225,7 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
     });
 
     // Add content pages
-    config.pages.forEach((page, index) => {
+    units.forEach((page, index) => {
       structure.push(`├── page${index + 1}.htm`);
     });
 
@@ -173,7 +255,17 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
     const errors = [];
     
     if (!config.lessonTitle.trim()) errors.push('Lesson title is required');
-    if (config.pages.length === 0) errors.push('At least one content page is required');
+    if (units.length === 0) errors.push('At least one content page is required');
+
+    // Page ids repeat from chapter to chapter, so name the chapter when there are several
+    config.chapters.forEach((chapter, index) => {
+      const location = config.chapters.length > 1 ? `chapter ${index + 1}, ` : '';
+      analyzePages(chapter.pages).forEach(finding => {
+        if (finding.kind === 'placeholder') {
+          errors.push(`Placeholder "${finding.text}" on ${location}page ${finding.page.page} (${finding.page.title}) must be replaced`);
+        }
+      });
+    });
     
     return errors;
   };
@@ -182,13 +274,13 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
   const isValid = validationErrors.length === 0;
 
   const fileStats = {
-    totalFiles: 1 + config.pages.length + assets.length + 
+    totalFiles: 1 + units.length + assets.length + 
                 (config.includeQuiz ? 1 : 0) +
                 (config.includePreassessment ? 1 : 0) +
                 (config.includeSurvey ? 1 : 0) +
                 (config.includeResources ? 1 : 0) +
                 (config.includeContributors ? 1 : 0) + 3, // base files
-    htmlFiles: 1 + config.pages.length + 
+    htmlFiles: 1 + units.length + 
                (config.includeQuiz ? 1 : 0) +
                (config.includePreassessment ? 1 : 0) +
                (config.includeSurvey ? 1 : 0) +
@@ -240,6 +332,46 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
               >
                 {isGenerating ? 'Generating...' : 'Latest Core PHP'}
               </Button>
+              <Button
+                variant="outlined"
+                startIcon={isGenerating ? <CircularProgress size={20} /> : <DownloadIcon />}
+                onClick={handleGenerateStaticHtml}
+                disabled={!isValid || isGenerating}
+              >
+                {isGenerating ? 'Generating...' : 'Static HTML'}
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={isGenerating ? <CircularProgress size={20} /> : <DownloadIcon />}
+                onClick={handleGenerateScorm12}
+                disabled={!isValid || isGenerating}
+              >
+                {isGenerating ? 'Generating...' : 'SCORM 1.2'}
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={isGenerating ? <CircularProgress size={20} /> : <DownloadIcon />}
+                onClick={handleGenerateScorm2004}
+                disabled={!isValid || isGenerating}
+              >
+                {isGenerating ? 'Generating...' : 'SCORM 2004'}
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={isGenerating ? <CircularProgress size={20} /> : <DownloadIcon />}
+                onClick={handleGenerateXapi}
+                disabled={!isValid || isGenerating}
+              >
+                {isGenerating ? 'Generating...' : 'xAPI'}
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={isGenerating ? <CircularProgress size={20} /> : <DownloadIcon />}
+                onClick={handleGenerateCmi5}
+                disabled={!isValid || isGenerating}
+              >
+                {isGenerating ? 'Generating...' : 'cmi5'}
+              </Button>
             </Box>
           }
         />
@@ -374,7 +506,8 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                 <FileIcon />
                 <Typography variant="h6">Content Overview</Typography>
-                <Chip label={`${config.pages.length} pages`} size="small" />
+                <Chip label={`${units.length} units`} size="small" />
+                {config.chapters.length > 1 && <Chip label={`${config.chapters.length} chapters`} size="small" />}
               </Box>
             </AccordionSummary>
             <AccordionDetails>
@@ -383,22 +516,20 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
                   <Typography variant="subtitle1" gutterBottom color="primary">
                     Content Pages
                   </Typography>
-                  {config.pages.length === 0 ? (
+                  {units.length === 0 ? (
                     <Typography variant="body2" color="text.secondary">
                       No content pages created
                     </Typography>
                   ) : (
                     <List dense>
-                      {config.pages
-                        .sort((a, b) => a.order - b.order)
-                        .map((page, index) => (
+                      {config.chapters.map((chapter, chapterIndex) => chapter.pages.map((page, index) => (
                         <ListItem key={page.id}>
                           <ListItemText
                             primary={`${index + 1}. ${page.title}`}
-                            secondary={`Type: ${page.type}`}
+                            secondary={`${chapter.title} (${getPrintFileName(chapterIndex + 1)}) · Type: ${page.type}`}
                           />
                         </ListItem>
-                      ))}
+                      )))}
                     </List>
                   )}
                 </Grid>
@@ -546,6 +677,20 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
             >
               Preview Config
             </Button>
+            <Button
+              variant="outlined"
+              startIcon={<JsonIcon />}
+              onClick={() => downloadLessonContent(config)}
+            >
+              Download Content JSON
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<MarkdownIcon />}
+              onClick={() => downloadMarkdown(config)}
+            >
+              Download Markdown
+            </Button>
             <Button
               variant="outlined"
               startIcon={<FolderIcon />}
@@ -580,6 +725,51 @@ export default function PreviewAndExport({ config, assets }: PreviewAndExportPro
                     Generates individual print_X.php files for each unit.
                   </Typography>
                 </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Static HTML
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    LMS-agnostic lesson with one pre-rendered HTML page per page, plus print.html files.
+                    Opens from any static web host or from disk with no PHP or server.
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    SCORM 1.2
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Pre-rendered HTML pages with an imsmanifest.xml for any SCORM 1.2 LMS.
+                    Reports completion, the learner's last page and the question score.
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    SCORM 2004
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    SCORM 2004 4th Edition package with one SCO per unit and {config.scormSequencing} sequencing.
+                    Reports completion and pass/fail separately, with the lesson objectives.
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    xAPI
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    Tin Can package with a tincan.xml for Absorb LMS and other xAPI platforms.
+                    Sends page, question, completion and pass/fail statements to the LRS.
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    cmi5
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    cmi5 course with one assignable unit per unit and a cmi5.xml for the LMS.
+                    Units with questions move on at the {config.masteryScore}% mastery score.
+                  </Typography>
+                </Grid>
               </Grid>
             </CardContent>
           </Card>
@@ -8,7 +8,9 @@ import {
   FormLabel,
   FormControlLabel,
   Radio,
+  RadioGroup,
   Switch,
+  TextField,
   Typography,
   Accordion,
   AccordionSummary,
@@ -32,7 +34,8 @@ import {
   Settings as SettingsIcon,
   Preview as PreviewIcon,
   Info as InfoIcon,
-  CheckCircle as CheckIcon
+  CheckCircle as CheckIcon,
+  School as SchoolIcon
 } from '@mui/icons-material';
 import type { LessonConfig } from '../types/lesson';
 
@@ -48,6 +51,12 @@ const templateTypes = [
     description: 'Latest lesson template for use in Absorb LMS or other xAPI compliant platforms. Requires compatible LMS for deployment and tracking.',
     features: ['xAPI', 'HTML', 'jQuery', 'Bootstrap v3']
   },
+  {
+    value: 'latest_core_lms_agnostic' as const,
+    label: 'Latest Core - LMS Agnostic',
+    description: 'Latest lesson template pre-rendered to plain HTML pages. Runs from any static web host or straight from disk without PHP; nothing is tracked.',
+    features: ['HTML', 'jQuery', 'Bootstrap v3']
+  },
   {
     value: 'latest_core_legacy_standard' as const,
     label: 'Latest Core - PHP Standard (Legacy)',
@@ -59,6 +68,8 @@ const templateTypes = [
 export default function TemplateSettings({ config, onChange }: TemplateSettingsProps) {
   const [previewDialog, setPreviewDialog] = useState(false);
   const [expandedPanel, setExpandedPanel] = useState<string>('template');
+  // What is typed into the mastery score field; it is only clamped and saved on blur
+  const [masteryScoreInput, setMasteryScoreInput] = useState<string | null>(null);
 
   const handleTemplateChange = (templateType: LessonConfig['templateType']) => {
     onChange({ templateType });
@@ -68,6 +79,17 @@ export default function TemplateSettings({ config, onChange }: TemplateSettingsP
     onChange({ useBootstrap });
   };
 
+  const handleSequencingChange = (scormSequencing: LessonConfig['scormSequencing']) => {
+    onChange({ scormSequencing });
+  };
+
+  const handleMasteryScoreBlur = () => {
+    if (masteryScoreInput === null) return;
+    const masteryScore = Math.min(100, Math.max(0, Math.round(Number(masteryScoreInput) || 0)));
+    onChange({ masteryScore });
+    setMasteryScoreInput(null);
+  };
+
   const handleAccordionChange = (panel: string) => (
     _event: React.SyntheticEvent,
     isExpanded: boolean
@@ -82,7 +104,9 @@ export default function TemplateSettings({ config, onChange }: TemplateSettingsP
   const resetToDefaults = () => {
     onChange({ 
       templateType: 'latest_core_legacy_standard', 
-      useBootstrap: false
+      useBootstrap: false,
+      scormSequencing: 'flow',
+      masteryScore: 80
     });
   };
 
@@ -248,6 +272,106 @@ export default function TemplateSettings({ config, onChange }: TemplateSettingsP
             </AccordionDetails>
           </Accordion>
 
+          {/* LMS Package Options */}
+          <Accordion 
+            expanded={expandedPanel === 'lms'} 
+            onChange={handleAccordionChange('lms')}
+            sx={{ mt: 1 }}
+          >
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <SchoolIcon />
+                <Typography variant="h6">LMS Package Options</Typography>
+              </Box>
+            </AccordionSummary>
+            <AccordionDetails>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+                <TextField
+                  type="number"
+                  label="Mastery Score (%)"
+                  value={masteryScoreInput ?? config.masteryScore}
+                  onChange={(e) => setMasteryScoreInput(e.target.value)}
+                  onBlur={handleMasteryScoreBlur}
+                  slotProps={{ htmlInput: { min: 0, max: 100 } }}
+                  helperText="Share of the graded questions a learner must get right to pass; written into cmi5.xml for every unit with questions. An LMS's own mastery score takes precedence."
+                  sx={{ maxWidth: 360 }}
+                />
+
+                <FormControl component="fieldset">
+                  <FormLabel component="legend" sx={{ mb: 1 }}>
+                    SCORM 2004 sequencing of units
+                  </FormLabel>
+                  <RadioGroup
+                    value={config.scormSequencing}
+                    onChange={(e) => handleSequencingChange(e.target.value as LessonConfig['scormSequencing'])}
+                  >
+                    <FormControlLabel
+                      value="flow"
+                      control={<Radio />}
+                      label={
+                        <Box>
+                          <Typography variant="subtitle1">Flow</Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            Learners take the units in order, moving on with Next
+                          </Typography>
+                        </Box>
+                      }
+                    />
+                    <FormControlLabel
+                      value="choice"
+                      control={<Radio />}
+                      label={
+                        <Box>
+                          <Typography variant="subtitle1">Choice</Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            Learners can also open any unit from the LMS menu
+                          </Typography>
+                        </Box>
+                      }
+                    />
+                  </RadioGroup>
+                </FormControl>
+
+                <FormControl component="fieldset">
+                  <FormLabel component="legend" sx={{ mb: 1 }}>
+                    xAPI Learning Record Store
+                  </FormLabel>
+                  <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+                    <TextField
+                      fullWidth
+                      label="LRS Endpoint"
+                      value={config.lrsEndpoint}
+                      onChange={(e) => onChange({ lrsEndpoint: e.target.value })}
+                      placeholder="http://localhost:8080/xapi/"
+                      helperText="Used when the package is opened without an LMS launch, e.g. for testing against a local LRS"
+                    />
+                    <Box sx={{ display: 'flex', gap: 2 }}>
+                      <TextField
+                        fullWidth
+                        label="LRS Username / Key"
+                        value={config.lrsUsername}
+                        onChange={(e) => onChange({ lrsUsername: e.target.value })}
+                      />
+                      <TextField
+                        fullWidth
+                        type="password"
+                        label="LRS Password / Secret"
+                        value={config.lrsPassword}
+                        onChange={(e) => onChange({ lrsPassword: e.target.value })}
+                      />
+                    </Box>
+                    {config.lrsEndpoint && (
+                      <Alert severity="warning">
+                        These credentials are written into the package, where anyone who opens it can read them.
+                        Use a key that can only write statements.
+                      </Alert>
+                    )}
+                  </Box>
+                </FormControl>
+              </Box>
+            </AccordionDetails>
+          </Accordion>
+
           {/* Template Summary */}
           <Card variant="outlined" sx={{ mt: 2, backgroundColor: 'grey.50' }}>
             <CardContent>
@@ -274,6 +398,26 @@ export default function TemplateSettings({ config, onChange }: TemplateSettingsP
                     secondary={config.useBootstrap ? 'Enabled' : 'Disabled'}
                   />
                 </ListItem>
+
+                <ListItem>
+                  <ListItemIcon>
+                    <CheckIcon color="success" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary="Mastery Score"
+                    secondary={`${config.masteryScore}%`}
+                  />
+                </ListItem>
+
+                <ListItem>
+                  <ListItemIcon>
+                    <CheckIcon color="success" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary="SCORM 2004 Sequencing"
+                    secondary={config.scormSequencing === 'choice' ? 'Choice' : 'Flow'}
+                  />
+                </ListItem>
               </List>
               
               <Divider sx={{ my: 2 }} />
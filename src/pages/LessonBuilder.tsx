@@ -15,6 +15,7 @@ import ContentPagesForm from '../components/ContentPagesForm'
 import AssetsManager from '../components/AssetsManager'
 import TemplateSettings from '../components/TemplateSettings'
 import PreviewAndExport from '../components/PreviewAndExport'
+import { createChapter, getLessonUnits } from '../utils/chapters'
 
 const steps = [
   'Basic Information',
@@ -43,6 +44,11 @@ const initialConfig: LessonConfig = {
   lastModified: '',
   templateTheme: '',
   templateType: 'latest_core_legacy_standard',
+  scormSequencing: 'flow',
+  masteryScore: 80,
+  lrsEndpoint: '',
+  lrsUsername: '',
+  lrsPassword: '',
   useBootstrap: true,
   includeQuiz: false,
   includeGlossary: false,
@@ -61,7 +67,7 @@ const initialConfig: LessonConfig = {
   enableProgressTracking: false,
   enableAccessibility: false,
   enableMobileOptimization: false,
-  pages: []
+  chapters: [createChapter('Chapter Title')]
 }
 
 export default function LessonBuilder() {
@@ -96,7 +102,7 @@ export default function LessonBuilder() {
       case 1: // Template Settings - no required validation
         break
       case 2: // Content Pages
-        if (lessonConfig.pages.length === 0) errors.push('At least one content page is required')
+        if (getLessonUnits(lessonConfig).length === 0) errors.push('At least one content page is required')
         break
       case 3: // Assets - no required validation
         break
@@ -112,6 +118,11 @@ export default function LessonBuilder() {
           <BasicInfoForm 
             config={lessonConfig} 
             onChange={(updates: Partial<LessonConfig>) => setLessonConfig(prev => ({ ...prev, ...updates }))} 
+            onPackageImport={({ config, assets: packageAssets }) => {
+              // Settings the package doesn't record keep their current values
+              setLessonConfig(prev => ({ ...prev, ...config }))
+              setAssets(packageAssets)
+            }}
           />
         )
       case 1:
@@ -124,7 +135,14 @@ export default function LessonBuilder() {
       case 2:
         return (
           <ContentPagesForm 
+            config={lessonConfig} 
             onChange={(updates: Partial<LessonConfig>) => setLessonConfig(prev => ({ ...prev, ...updates }))} 
+            assets={assets}
+            onAssetsImport={(imported: AssetFile[]) => setAssets(prev => [
+              // Re-importing a document replaces its images rather than duplicating them
+              ...prev.filter(asset => !imported.some(image => image.name === asset.name)),
+              ...imported
+            ])}
           />
         )
       case 3:
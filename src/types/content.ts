@@ -0,0 +1,152 @@
+// Types for the lesson content JSON format (see src/assets/samples)
+
+export interface LessonContent {
+  title?: string
+  menu: ContentMenuItem[]
+}
+
+export interface ContentMenuItem {
+  page: string // Page identifier like "1-0-0", "2-1-0" etc.
+  title: string
+  children: ContentMenuItem[]
+  innerNode: boolean
+  content: ContentNode[]
+}
+
+export type TextMark = 'bold' | 'italic' | 'underline' | 'superscript' | 'subscript' | 'link'
+
+// Plain runs use the 'text' type; formatted runs list their marks instead
+export interface TextNode {
+  type: 'text' | TextMark[]
+  text: string
+  link?: string // Target URL for runs marked 'link'
+}
+
+export interface ParagraphNode {
+  type: 'paragraph'
+  content: TextNode[]
+}
+
+export interface MediaItemNode {
+  type: 'mediaItem'
+  id: string // MetEd media id, resolved to a file path at render time
+  caption: string
+}
+
+export type ListGlyph =
+  | 'BULLET'
+  | 'HOLLOW_BULLET'
+  | 'SQUARE_BULLET'
+  | 'NUMBER'
+  | 'LATIN_UPPER'
+  | 'LATIN_LOWER'
+  | 'ROMAN_UPPER'
+  | 'ROMAN_LOWER'
+
+export interface ListItemNode {
+  type: 'listItem'
+  content: ParagraphNode
+}
+
+// Each indentation level is its own listSet; level 0 is the outermost list
+export interface ListSetNode {
+  type: 'listSet'
+  glyph: ListGlyph
+  level: number
+  content: ListItemNode[]
+}
+
+export interface TabNode {
+  type: 'tab'
+  tabs: {
+    title: string
+    content: ContentNode[]
+  }[]
+}
+
+export interface PanelNode {
+  type: 'panel'
+  title: string
+  content: ContentNode[]
+}
+
+export interface TableCell {
+  content: ContentNode[]
+}
+
+// Rows of cells, as imported from Word tables
+export interface TableNode {
+  type: 'table'
+  header: boolean // Whether the first row holds column headings
+  rows: TableCell[][]
+}
+
+// Before/after image comparison driven by jquery/apps/image-sweep
+export interface SweeperNode {
+  type: 'sweeper'
+  content: {
+    before: string // MetEd media id
+    after: string // MetEd media id
+  }
+}
+
+export interface RadioQuestionNode {
+  type: 'radioQuestion'
+  question: ContentNode[]
+  answers: string[]
+  correct: number // 1-based position in `answers`
+  feedback: ContentNode[]
+}
+
+export interface SelectDropdown {
+  answers: string[]
+  correct: number // 0-based position in `answers`
+}
+
+// Each question line marks its dropdown positions with a run of underscores ("_____")
+export interface SelectQuestionNode {
+  type: 'selectQuestion'
+  questionContent: ContentNode[]
+  questions: {
+    question: string
+    dropdowns: SelectDropdown[]
+  }[]
+  feedback: ContentNode[]
+}
+
+// Tokens dragged onto a background image, driven by jquery/apps/drag
+export interface DragQuestionNode {
+  type: 'dragQuestion'
+  question: string
+  directions: string
+  background: string // MetEd media id
+  draggables: string[]
+  labels?: string[] // Tooltips for the draggables, by position
+  reusable?: boolean // Whether each draggable can be placed more than once
+  feedback: ContentNode[]
+}
+
+// Sketching over a background image, driven by jquery/apps/draw
+export interface DrawQuestionNode {
+  type: 'drawQuestion'
+  question: string
+  directions: string
+  background: string // MetEd media id
+  colors: string[] // CSS colors for the pen swatches
+  labels?: string[] // Swatch tooltips, by position
+  sizes?: number[] // Pen sizes; draw.js defaults to 4, 6 and 8
+  feedback: ContentNode[]
+}
+
+export type ContentNode =
+  | ParagraphNode
+  | MediaItemNode
+  | ListSetNode
+  | TabNode
+  | PanelNode
+  | TableNode
+  | SweeperNode
+  | RadioQuestionNode
+  | SelectQuestionNode
+  | DragQuestionNode
+  | DrawQuestionNode
@@ -1,4 +1,5 @@
 // Types based on the original Yeoman generator structure
+import type { ContentNode } from './content'
 
 export interface LessonConfig {
   // Basic lesson information
@@ -21,7 +22,12 @@ export interface LessonConfig {
   customCoverImageCredit?: string
   
   // Technical settings
-  templateType: 'latest_core_legacy_standard' | 'latest_core_legacy_articulate' | 'latest_core_lms_agnostic'
+  templateType: 'latest_core_legacy_standard' | 'latest_core_legacy_articulate' | 'latest_core_lms_agnostic' | 'latest_core_xapi'
+  scormSequencing: 'flow' | 'choice' // SCORM 2004: units taken in order, or picked freely from the LMS's menu
+  masteryScore: number // Percentage of the graded questions a learner must get right to pass
+  lrsEndpoint: string // xAPI: LRS used when the launch doesn't name one, e.g. "http://localhost:8080/xapi/"
+  lrsUsername: string
+  lrsPassword: string
   useBootstrap: boolean
   customCSS?: string
   
@@ -45,14 +51,22 @@ export interface LessonConfig {
   enableAccessibility: boolean
   enableMobileOptimization: boolean
   
-  // Content pages
-  pages: LessonPage[]
+  // Content chapters, each exported as its own print file
+  chapters: LessonChapter[]
+}
+
+export interface LessonChapter {
+  id: string
+  title: string
+  description: string
+  pages: LessonPage[] // Page tree of the chapter; page ids restart at "1-0-0" in every chapter
 }
 
 export interface LessonPage {
   id: string
   title: string
   content: string
+  contentNodes?: ContentNode[] // Structured content in the lesson content JSON format; takes precedence over `content`
   order: number
   type: 'content' | 'quiz' | 'preassessment' | 'survey' | 'resources'
   level: number // 1, 2, or 3 for the hierarchical structure
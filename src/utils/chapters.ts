@@ -0,0 +1,34 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { LessonChapter, LessonConfig, LessonPage } from '../types/lesson';
+import { createPage } from './pageTree';
+import { renumberChapterLinks, renumberPages, type ChapterLinkResult } from './pageRenumbering';
+
+// New chapters start with one unit so they always have a page to open on
+export function createChapter(title: string): LessonChapter {
+  return {
+    id: uuidv4(),
+    title,
+    description: '',
+    pages: renumberPages([createPage('Unit Title')]).pages
+  };
+}
+
+// Later chapters move up a print file, so links into them from every chapter are
+// renumbered; links into the removed chapter can't be and are counted as broken
+export function removeChapter(chapters: LessonChapter[], index: number): ChapterLinkResult {
+  const numbers = new Map(chapters.map((_, position): [number, number | undefined] => [
+    position + 1,
+    position === index ? undefined : position < index ? position + 1 : position
+  ]));
+  return renumberChapterLinks(chapters.filter((_, position) => position !== index), numbers);
+}
+
+// navmenu.inc.php opens print.php as tab 1 and print_N.php as tab N
+export function getPrintFileName(chapterNumber: number): string {
+  return chapterNumber === 1 ? 'print.php' : `print_${chapterNumber}.php`;
+}
+
+// Top-level units of every chapter in lesson order, for outputs without chapters
+export function getLessonUnits(config: LessonConfig): LessonPage[] {
+  return config.chapters.flatMap(chapter => chapter.pages);
+}
@@ -0,0 +1,88 @@
+import type { ContentNode, MediaItemNode, ParagraphNode } from '../types/content';
+import type { LessonPage } from '../types/lesson';
+import { mapContentNodes, walkContentNodes } from './contentNodes';
+import { flattenPages } from './pageTree';
+
+// Leftovers from the content-conversion workflow that should never reach a lesson:
+// paragraphs holding nothing but an image path, and "INSERT ... HERE" notes
+export type ContentFinding =
+  | { kind: 'strayPath'; page: LessonPage; imagePath: string }
+  | { kind: 'placeholder'; page: LessonPage; text: string };
+
+// "/satmet/sat_apps_geocolor/geocolor_land_button_sm.jpg", possibly tab-indented
+const IMAGE_PATH_PATTERN = /^\/?(?:[\w.-]+\/)*[\w.-]+\.(?:jpe?g|png|gif|svg|webp)$/i;
+// Upper case only, so prose like "insert the pen here" isn't caught
+const PLACEHOLDER_PATTERN = /\bINSERT\b[^.!?\n]*?\bHERE\b/g;
+
+export function analyzePages(pages: LessonPage[]): ContentFinding[] {
+  const findings: ContentFinding[] = [];
+
+  for (const page of flattenPages(pages)) {
+    const texts: string[] = [page.content];
+    collectTexts(page.contentNodes ?? [], texts);
+
+    walkContentNodes(page.contentNodes ?? [], node => {
+      if (node.type === 'paragraph') {
+        const imagePath = getStrayImagePath(node);
+        if (imagePath) findings.push({ kind: 'strayPath', page, imagePath });
+      }
+    });
+
+    for (const text of texts) {
+      for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        findings.push({ kind: 'placeholder', page, text: match[0] });
+      }
+    }
+  }
+
+  return findings;
+}
+
+// Replaces every path-only paragraph with a mediaItem named after the file, so it
+// resolves against an uploaded asset of the same name like any MetEd media id
+export function convertStrayPaths(pages: LessonPage[]): LessonPage[] {
+  return pages.map(page => ({
+    ...page,
+    contentNodes: page.contentNodes ? mapContentNodes(page.contentNodes, convertStrayPath) : undefined,
+    children: convertStrayPaths(page.children)
+  }));
+}
+
+function convertStrayPath(node: ContentNode): ContentNode {
+  if (node.type !== 'paragraph') return node;
+
+  const imagePath = getStrayImagePath(node);
+  if (!imagePath) return node;
+
+  const fileName = imagePath.slice(imagePath.lastIndexOf('/') + 1);
+  const mediaItem: MediaItemNode = { type: 'mediaItem', id: fileName.replace(/\.[^.]+$/, ''), caption: '' };
+  return mediaItem;
+}
+
+function getStrayImagePath(paragraph: ParagraphNode): string | undefined {
+  const text = getParagraphText(paragraph).trim();
+  return IMAGE_PATH_PATTERN.test(text) ? text : undefined;
+}
+
+// Every string field of every node, nested ones included: question and answer text, tab
+// and panel titles, captions and so on. A paragraph's runs are joined so a placeholder
+// split across formatting is still one text.
+function collectTexts(value: unknown, texts: string[]): void {
+  if (typeof value === 'string') {
+    texts.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectTexts(item, texts));
+  } else if (typeof value === 'object' && value !== null) {
+    if ((value as ContentNode).type === 'paragraph') {
+      texts.push(getParagraphText(value as ParagraphNode));
+      return;
+    }
+    Object.entries(value)
+      .filter(([key]) => key !== 'type')
+      .forEach(([, entry]) => collectTexts(entry, texts));
+  }
+}
+
+function getParagraphText(paragraph: ParagraphNode): string {
+  return paragraph.content.map(run => run.text).join('');
+}
@@ -0,0 +1,81 @@
+import type { ContentNode, ListGlyph, ParagraphNode, TextNode } from '../types/content';
+import type { AssetFile } from '../types/lesson';
+
+// Names for one block of each type in the page editor
+export const BLOCK_LABELS: Record<ContentNode['type'], string> = {
+  paragraph: 'Paragraph',
+  mediaItem: 'Media item',
+  listSet: 'List',
+  tab: 'Tabs',
+  panel: 'Panel',
+  table: 'Table',
+  sweeper: 'Image sweep',
+  radioQuestion: 'Multiple choice question',
+  selectQuestion: 'Dropdown question',
+  dragQuestion: 'Drag and drop exercise',
+  drawQuestion: 'Drawing exercise'
+};
+
+// Questions render their own panels, so they aren't offered inside tabs, panels or other questions
+export const NESTED_BLOCK_TYPES: ContentNode['type'][] = ['paragraph', 'listSet', 'mediaItem', 'table', 'tab', 'panel', 'sweeper'];
+
+export const GLYPH_LABELS: Record<ListGlyph, string> = {
+  BULLET: '• Bullets',
+  HOLLOW_BULLET: '◦ Hollow bullets',
+  SQUARE_BULLET: '▪ Square bullets',
+  NUMBER: '1. 2. 3.',
+  LATIN_UPPER: 'A. B. C.',
+  LATIN_LOWER: 'a. b. c.',
+  ROMAN_UPPER: 'I. II. III.',
+  ROMAN_LOWER: 'i. ii. iii.'
+};
+
+// Deepest list level the editor indents to; the conversion workflow never goes past it
+export const MAX_LIST_LEVEL = 4;
+
+export function createParagraph(content: TextNode[] = []): ParagraphNode {
+  return { type: 'paragraph', content };
+}
+
+// A new block of the given type, with the minimum content it needs to render
+export function createContentNode(type: ContentNode['type']): ContentNode {
+  switch (type) {
+    case 'paragraph':
+      return createParagraph();
+    case 'mediaItem':
+      return { type, id: '', caption: '' };
+    case 'listSet':
+      return { type, glyph: 'BULLET', level: 0, content: [{ type: 'listItem', content: createParagraph() }] };
+    case 'tab':
+      return { type, tabs: [{ title: 'Tab 1', content: [createParagraph()] }, { title: 'Tab 2', content: [createParagraph()] }] };
+    case 'panel':
+      return { type, title: 'Panel title', content: [createParagraph()] };
+    case 'table':
+      return {
+        type,
+        header: true,
+        rows: [0, 1].map(() => [0, 1].map(() => ({ content: [createParagraph()] })))
+      };
+    case 'sweeper':
+      return { type, content: { before: '', after: '' } };
+    case 'radioQuestion':
+      return { type, question: [createParagraph()], answers: ['', ''], correct: 1, feedback: [] };
+    case 'selectQuestion':
+      return {
+        type,
+        questionContent: [createParagraph()],
+        questions: [{ question: '_____', dropdowns: [{ answers: ['', ''], correct: 0 }] }],
+        feedback: []
+      };
+    case 'dragQuestion':
+      return { type, question: '', directions: '', background: '', draggables: [''], feedback: [] };
+    case 'drawQuestion':
+      return { type, question: '', directions: '', background: '', colors: ['#ff0000'], feedback: [] };
+  }
+}
+
+// The image asset a media id resolves to, matched on the file name without its extension
+// the way the generator matches it
+export function findMediaAsset(assets: AssetFile[], id: string): AssetFile | undefined {
+  return id ? assets.find(asset => asset.type === 'image' && asset.name.replace(/\.[^.]+$/, '') === id) : undefined;
+}
@@ -0,0 +1,45 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { ContentMenuItem, LessonContent } from '../types/content';
+import type { LessonChapter, LessonConfig, LessonPage } from '../types/lesson';
+import { MISSING_TITLE } from './contentImporter';
+import { convertPageHtml } from './pasteSanitizer';
+
+// Writes a chapter's page tree back out in the content JSON format, key order
+// included, so an imported file survives import -> edit -> export -> import
+// unchanged. Pages that only hold HTML (opened from a lesson package, or new pages
+// still holding the scaffold) are converted the way the page editor converts them.
+export function exportLessonContent(config: LessonConfig, chapter: LessonChapter): LessonContent {
+  return {
+    menu: chapter.pages.map(toMenuItem),
+    title: config.lessonTitle.trim() || MISSING_TITLE
+  };
+}
+
+// One content file per chapter, numbered like the conversion workflow names them
+// (lesson-content_1.json, lesson-content_2.json, ...) and zipped together
+export async function downloadLessonContent(config: LessonConfig): Promise<void> {
+  const baseName = `${config.lessonId || 'lesson'}-content`;
+  const toJson = (chapter: LessonChapter) => JSON.stringify(exportLessonContent(config, chapter), null, 2);
+
+  if (config.chapters.length === 1) {
+    saveAs(new Blob([toJson(config.chapters[0])], { type: 'application/json' }), `${baseName}.json`);
+    return;
+  }
+
+  const zip = new JSZip();
+  config.chapters.forEach((chapter, index) => {
+    zip.file(`${baseName}_${index + 1}.json`, toJson(chapter));
+  });
+  saveAs(await zip.generateAsync({ type: 'blob' }), `${baseName}.zip`);
+}
+
+function toMenuItem(page: LessonPage, index: number): ContentMenuItem {
+  return {
+    page: page.page || `${index + 1}-0-0`,
+    title: page.title,
+    children: page.children.map(toMenuItem),
+    innerNode: page.innerNode,
+    content: page.contentNodes ?? convertPageHtml(page.content)
+  };
+}
@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ContentMenuItem, ContentNode, LessonContent } from '../types/content';
+import type { LessonPage } from '../types/lesson';
+import { walkContentNodes } from './contentNodes';
+import { validateLessonContent } from './contentValidator';
+import { renumberPages, type RenumberResult } from './pageRenumbering';
+
+// What an import will bring in, shown to the author before anything is replaced
+export interface ContentSummary {
+  title?: string;
+  pagesByLevel: number[];
+  nodeCounts: Partial<Record<ContentNode['type'], number>>;
+  mediaIds: string[];
+}
+
+// Placeholder the conversion workflow writes when the source document has no title
+export const MISSING_TITLE = 'No Title Found';
+
+// Builds the page tree of chapter `chapter` from a content file. Structured content goes
+// into contentNodes untouched and page ids are kept as written, so the file round-trips;
+// only when an id is missing, malformed, repeated or out of place is the tree renumbered,
+// and the changes come back for the author to review.
+export function importLessonContent(content: LessonContent, chapter = 1): RenumberResult {
+  const pages = content.menu.map((item, index) => toLessonPage(item, index, 1));
+  const idIssues = validateLessonContent(content).filter(issue => issue.path.endsWith('.page'));
+  return idIssues.length > 0 ? renumberPages(pages, chapter) : { pages, changes: [], linksUpdated: 0 };
+}
+
+export function getImportedTitle(content: LessonContent): string | undefined {
+  const title = content.title?.trim();
+  return title && title !== MISSING_TITLE ? title : undefined;
+}
+
+export function summarizeLessonContent(content: LessonContent): ContentSummary {
+  const pagesByLevel: number[] = [];
+  const nodeCounts: ContentSummary['nodeCounts'] = {};
+  const mediaIds = new Set<string>();
+
+  const visitPage = (item: ContentMenuItem, level: number) => {
+    pagesByLevel[level - 1] = (pagesByLevel[level - 1] ?? 0) + 1;
+
+    walkContentNodes(item.content, node => {
+      nodeCounts[node.type] = (nodeCounts[node.type] ?? 0) + 1;
+      if (node.type === 'mediaItem') mediaIds.add(node.id);
+      if (node.type === 'sweeper') {
+        mediaIds.add(node.content.before);
+        mediaIds.add(node.content.after);
+      }
+      if (node.type === 'dragQuestion' || node.type === 'drawQuestion') mediaIds.add(node.background);
+    });
+
+    item.children.forEach(child => visitPage(child, level + 1));
+  };
+  content.menu.forEach(item => visitPage(item, 1));
+
+  return {
+    title: getImportedTitle(content),
+    pagesByLevel: Array.from(pagesByLevel, count => count ?? 0),
+    nodeCounts,
+    mediaIds: [...mediaIds]
+  };
+}
+
+// Gives menu items built by the document importers their "unit-section-subsection" ids
+export function numberMenu(items: ContentMenuItem[], parentSegments: number[] = []): ContentMenuItem[] {
+  return items.map((item, index) => {
+    const segments = [...parentSegments, index + 1];
+    return {
+      ...item,
+      page: [...segments, 0, 0].slice(0, 3).join('-'),
+      children: numberMenu(item.children, segments)
+    };
+  });
+}
+
+function toLessonPage(item: ContentMenuItem, index: number, level: number, parentId?: string): LessonPage {
+  const id = uuidv4();
+  return {
+    id,
+    title: item.title,
+    content: '',
+    contentNodes: item.content,
+    order: index + 1,
+    type: 'content',
+    level,
+    parentId,
+    children: item.children.map((child, childIndex) => toLessonPage(child, childIndex, level + 1, id)),
+    page: item.page,
+    innerNode: item.innerNode ?? false
+  };
+}
@@ -0,0 +1,73 @@
+import type { ContentNode } from '../types/content';
+
+// Names for each node type in import and paste summaries
+export const NODE_TYPE_LABELS: Record<ContentNode['type'], string> = {
+  paragraph: 'Paragraphs',
+  mediaItem: 'Media items',
+  listSet: 'Lists',
+  tab: 'Tab sets',
+  panel: 'Panels',
+  table: 'Tables',
+  sweeper: 'Image sweeps',
+  radioQuestion: 'Multiple choice questions',
+  selectQuestion: 'Dropdown questions',
+  dragQuestion: 'Drag and drop exercises',
+  drawQuestion: 'Drawing exercises'
+};
+
+// Nodes nested inside a node: tab panes, panel bodies and question text/feedback
+export function getChildNodes(node: ContentNode): ContentNode[] {
+  switch (node.type) {
+    case 'tab':
+      return node.tabs.flatMap(tab => tab.content);
+    case 'panel':
+      return node.content;
+    case 'table':
+      return node.rows.flat().flatMap(cell => cell.content);
+    case 'radioQuestion':
+      return [...node.question, ...node.feedback];
+    case 'selectQuestion':
+      return [...node.questionContent, ...node.feedback];
+    case 'dragQuestion':
+    case 'drawQuestion':
+      return node.feedback;
+    default:
+      return [];
+  }
+}
+
+// Depth-first walk over every node, nested ones included
+export function walkContentNodes(nodes: ContentNode[], visit: (node: ContentNode) => void): void {
+  for (const node of nodes) {
+    visit(node);
+    walkContentNodes(getChildNodes(node), visit);
+  }
+}
+
+// Rebuilds a node list bottom-up, replacing each node with `update(node)` after its
+// nested nodes have been mapped
+export function mapContentNodes(nodes: ContentNode[], update: (node: ContentNode) => ContentNode): ContentNode[] {
+  return nodes.map(node => update(mapChildNodes(node, update)));
+}
+
+function mapChildNodes(node: ContentNode, update: (node: ContentNode) => ContentNode): ContentNode {
+  const map = (children: ContentNode[]) => mapContentNodes(children, update);
+
+  switch (node.type) {
+    case 'tab':
+      return { ...node, tabs: node.tabs.map(tab => ({ ...tab, content: map(tab.content) })) };
+    case 'panel':
+      return { ...node, content: map(node.content) };
+    case 'table':
+      return { ...node, rows: node.rows.map(row => row.map(cell => ({ ...cell, content: map(cell.content) }))) };
+    case 'radioQuestion':
+      return { ...node, question: map(node.question), feedback: map(node.feedback) };
+    case 'selectQuestion':
+      return { ...node, questionContent: map(node.questionContent), feedback: map(node.feedback) };
+    case 'dragQuestion':
+    case 'drawQuestion':
+      return { ...node, feedback: map(node.feedback) };
+    default:
+      return node;
+  }
+}
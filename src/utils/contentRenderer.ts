@@ -0,0 +1,286 @@
+import type { ContentNode, ListSetNode, MediaItemNode, PanelNode, ParagraphNode, SweeperNode, TabNode, TableCell, TableNode } from '../types/content';
+import { escapeAttribute, escapeHtml, indent } from './html';
+import { formatInlineText } from './inlineFormatter';
+import { renderListSets } from './listRenderer';
+import { renderDragQuestion, renderDrawQuestion, renderRadioQuestion, renderSelectQuestion } from './questionRenderer';
+import { nextElementId, type RenderContext } from './renderContext';
+
+// Anything shaped like an entry of the content JSON `menu`. String content is
+// treated as ready-made HTML so pages without structured content still render.
+export interface RenderablePage {
+  page: string;
+  title: string;
+  innerNode: boolean;
+  children: RenderablePage[];
+  content: ContentNode[] | string;
+}
+
+export interface RenderOptions {
+  // Answer-key markup for pages that are only ever printed. print_N.php keeps the
+  // interactive markup, since navmenu.php builds the lesson from it, and its own
+  // `printVersion` flag switches the jQuery apps instead.
+  printVersion?: boolean;
+  // With interactive markup: a print-only answer key after every question, so printing
+  // print_N.php still gives the correct answers and feedback
+  answerKey?: boolean;
+  // Maps a MetEd media id to the path of the file in the package
+  resolveMedia?: (id: string) => string | undefined;
+}
+
+// Sections for every page in the tree, depth-first, in the order navmenu.inc.php expects
+export function renderPageSections(menu: RenderablePage[], options: RenderOptions = {}): string {
+  return flattenMenu(menu)
+    .map(item => renderPageSection(item, options))
+    .join('\n\n');
+}
+
+export function renderPageSection(item: RenderablePage, options: RenderOptions = {}): string {
+  const context: RenderContext = {
+    pageId: item.page,
+    printVersion: options.printVersion ?? false,
+    answerKey: options.answerKey ?? false,
+    resolveMedia: options.resolveMedia ?? (() => undefined),
+    renderNodes: nodes => renderContentNodes(nodes, context),
+    sequence: 0
+  };
+  const body = typeof item.content === 'string'
+    ? item.content.trim()
+    : renderContentNodes(item.content, context);
+
+  return [
+    `<section id="page_${item.page}" class="page">`,
+    `    <h3>${escapeHtml(item.title)}</h3>`,
+    body ? indent(body, 4) : '',
+    '</section>'
+  ].filter(Boolean).join('\n');
+}
+
+// Nested <li> entries for nav#tableofcontents. Child lists get the ul_<page> id
+// navmenu.inc.php uses to expand the current branch, and inner nodes carry the
+// innerNode class so checkPage() skips over them.
+export function renderTableOfContents(menu: RenderablePage[]): string {
+  return menu.map(item => {
+    const linkClass = item.innerNode ? ' class="innerNode"' : '';
+    const link = `<a${linkClass} href="#page_${item.page}">${escapeHtml(item.title)}</a>`;
+
+    if (item.children.length === 0) {
+      return `<li>${link}</li>`;
+    }
+
+    return [
+      `<li>${link}`,
+      `    <ul id="ul_${item.page}">`,
+      indent(renderTableOfContents(item.children), 8),
+      '    </ul>',
+      '</li>'
+    ].join('\n');
+  }).join('\n');
+}
+
+export function flattenMenu(menu: RenderablePage[]): RenderablePage[] {
+  return menu.flatMap(item => [item, ...flattenMenu(item.children)]);
+}
+
+function renderContentNodes(nodes: ContentNode[], context: RenderContext): string {
+  const blocks: string[] = [];
+  let pendingLists: ListSetNode[] = [];
+
+  // Consecutive listSets are rendered together so deeper levels can nest
+  const flushLists = () => {
+    if (pendingLists.length > 0) {
+      blocks.push(renderListSets(pendingLists));
+      pendingLists = [];
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'listSet') {
+      pendingLists.push(node);
+      continue;
+    }
+    flushLists();
+    blocks.push(renderContentNode(node, context));
+  }
+  flushLists();
+
+  return blocks.filter(Boolean).join('\n');
+}
+
+function renderContentNode(node: ContentNode, context: RenderContext): string {
+  switch (node.type) {
+    case 'paragraph':
+      return renderParagraph(node);
+    case 'mediaItem':
+      return renderMediaItem(node, context);
+    case 'tab':
+      return renderTabs(node, context);
+    case 'panel':
+      return renderPanel(node, context);
+    case 'table':
+      return renderTable(node, context);
+    case 'sweeper':
+      return renderSweeper(node, context);
+    case 'radioQuestion':
+      return renderRadioQuestion(node, context);
+    case 'selectQuestion':
+      return renderSelectQuestion(node, context);
+    case 'dragQuestion':
+      return renderDragQuestion(node, context);
+    case 'drawQuestion':
+      return renderDrawQuestion(node, context);
+    default:
+      return `<!-- Unsupported content node: ${escapeHtml(String((node as { type: unknown }).type))} -->`;
+  }
+}
+
+function renderParagraph(node: ParagraphNode): string {
+  const text = formatInlineText(node.content);
+  return text.trim() ? `<p>${text}</p>` : '';
+}
+
+function renderMediaItem(node: MediaItemNode, context: RenderContext): string {
+  const src = context.resolveMedia(node.id);
+  const alt = escapeAttribute(node.caption || `Media item ${node.id}`);
+  const image = src
+    ? `<img class="img-responsive center-block" src="${escapeAttribute(src)}" alt="${alt}">`
+    : `<!-- Media item ${escapeHtml(node.id)} could not be resolved -->`;
+  const caption = node.caption ? `\n    <p>${escapeHtml(node.caption)}</p>` : '';
+
+  return `<div class="caption" data-media-id="${escapeAttribute(node.id)}">\n    ${image}${caption}\n</div>`;
+}
+
+function renderTabs(node: TabNode, context: RenderContext): string {
+  // Answer-key pages show every tab, one after the other, under its own heading
+  if (context.printVersion) {
+    return node.tabs.map(tab => [
+      '<div class="tab-print">',
+      `    <h4>${escapeHtml(tab.title)}</h4>`,
+      indent(renderContentNodes(tab.content, context), 4),
+      '</div>'
+    ].join('\n')).join('\n');
+  }
+
+  const setId = nextElementId(context, 'tab-set');
+  const paneIds = node.tabs.map((_, index) => `${setId}-${index + 1}`);
+
+  const navItems = node.tabs.map((tab, index) => {
+    const active = index === 0 ? ' class="active"' : '';
+    return `<li${active}><a href="#${paneIds[index]}" data-toggle="tab" class="tab-switch">${escapeHtml(tab.title)}</a></li>`;
+  });
+
+  const panes = node.tabs.map((tab, index) => [
+    `<div class="tab-pane fade${index === 0 ? ' in active' : ''}" id="${paneIds[index]}">`,
+    indent(renderContentNodes(tab.content, context), 4),
+    '</div>',
+    '<!-- end tab pane -->'
+  ].join('\n'));
+
+  return [
+    '<div class="tabs-container">',
+    `    <ul id="${setId}" class="nav nav-tabs" role="tablist">`,
+    indent(navItems.join('\n'), 8),
+    '    </ul>',
+    '    <div class="tab-content">',
+    indent(panes.join('\n'), 8),
+    '    </div>',
+    '</div>'
+  ].join('\n');
+}
+
+function renderTable(node: TableNode, context: RenderContext): string {
+  const renderRow = (row: TableCell[], tag: 'th' | 'td') => [
+    '<tr>',
+    indent(row.map(cell => renderTableCell(cell, tag, context)).join('\n'), 4),
+    '</tr>'
+  ].join('\n');
+
+  const [first, ...rest] = node.rows;
+  const head = node.header && first ? [first] : [];
+  const body = node.header ? rest : node.rows;
+
+  return [
+    '<div class="table-responsive">',
+    '    <table class="table table-bordered">',
+    head.length > 0 ? indent(['<thead>', indent(renderRow(first, 'th'), 4), '</thead>'].join('\n'), 8) : '',
+    indent(['<tbody>', indent(body.map(row => renderRow(row, 'td')).join('\n'), 4), '</tbody>'].join('\n'), 8),
+    '    </table>',
+    '</div>'
+  ].filter(Boolean).join('\n');
+}
+
+// A cell holding a single paragraph renders its text directly instead of in a <p>
+function renderTableCell(cell: TableCell, tag: 'th' | 'td', context: RenderContext): string {
+  const [only] = cell.content;
+  const body = cell.content.length === 1 && only.type === 'paragraph'
+    ? formatInlineText(only.content)
+    : renderContentNodes(cell.content, context);
+
+  return body.includes('\n')
+    ? [`<${tag}>`, indent(body, 4), `</${tag}>`].join('\n')
+    : `<${tag}>${body}</${tag}>`;
+}
+
+function renderPanel(node: PanelNode, context: RenderContext): string {
+  const body = indent(renderContentNodes(node.content, context), 8);
+
+  if (context.printVersion) {
+    return [
+      '<div class="panel panel-primary">',
+      '    <div class="panel-heading">',
+      `        <h4 class="panel-title">${escapeHtml(node.title)}</h4>`,
+      '    </div>',
+      '    <div class="panel-body">',
+      body,
+      '    </div>',
+      '</div>'
+    ].join('\n');
+  }
+
+  const collapseId = nextElementId(context, 'collapse');
+  return [
+    '<div class="panel panel-primary">',
+    '    <div class="panel-heading">',
+    '        <h4 class="panel-title">',
+    `            <a data-toggle="collapse" href="#${collapseId}">${escapeHtml(node.title)}<span class="glyphicon glyphicon-plus-sign pull-right"></span></a>`,
+    '        </h4>',
+    '    </div>',
+    `    <div id="${collapseId}" class="panel-collapse collapse">`,
+    '        <div class="panel-body">',
+    indent(body, 4),
+    '        </div>',
+    '    </div>',
+    '</div>'
+  ].join('\n');
+}
+
+// image-sweep.js turns div.image-sweep into a slider using its first image as the
+// "before" view and its last as the "after" view. It does nothing when the page's
+// printVersion flag is set, so answer-key pages get the two images side by side instead.
+function renderSweeper(node: SweeperNode, context: RenderContext): string {
+  const { before, after } = node.content;
+  const beforeSrc = context.resolveMedia(before);
+  const afterSrc = context.resolveMedia(after);
+
+  if (!beforeSrc || !afterSrc) {
+    return `<!-- Image sweep ${escapeHtml(before)}/${escapeHtml(after)} could not be resolved -->`;
+  }
+
+  const beforeImage = `<img class="img-responsive center-block" src="${escapeAttribute(beforeSrc)}" alt="Before">`;
+  const afterImage = `<img class="img-responsive center-block" src="${escapeAttribute(afterSrc)}" alt="After">`;
+
+  if (context.printVersion) {
+    return [
+      '<div class="row image-sweep-print">',
+      `    <div class="col-sm-6">${beforeImage}</div>`,
+      `    <div class="col-sm-6">${afterImage}</div>`,
+      '</div>'
+    ].join('\n');
+  }
+
+  return [
+    '<div class="image-sweep center-block" style="max-width:700px;">',
+    `    ${beforeImage}`,
+    `    ${afterImage}`,
+    '</div>'
+  ].join('\n');
+}
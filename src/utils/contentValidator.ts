@@ -0,0 +1,372 @@
+import type { ContentNode, ListGlyph, TextMark } from '../types/content';
+
+// A problem found in a content JSON file, located by its JSON path
+export interface ContentIssue {
+  path: string;
+  message: string;
+}
+
+const TEXT_MARKS: TextMark[] = ['bold', 'italic', 'underline', 'superscript', 'subscript', 'link'];
+
+const LIST_GLYPHS: ListGlyph[] = [
+  'BULLET',
+  'HOLLOW_BULLET',
+  'SQUARE_BULLET',
+  'NUMBER',
+  'LATIN_UPPER',
+  'LATIN_LOWER',
+  'ROMAN_UPPER',
+  'ROMAN_LOWER'
+];
+
+// Page ids are "unit-section-subsection", with zeros below the page's own level
+const PAGE_ID_PATTERN = /^(\d+)-(\d+)-(\d+)$/;
+const MAX_PAGE_DEPTH = 3;
+
+type NodeKind = ContentNode['type'];
+type JsonObject = Record<string, unknown>;
+
+// Checks a parsed content JSON file against the types in src/types/content.ts and
+// returns every problem found. An empty list means the data is a LessonContent.
+export function validateLessonContent(data: unknown): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+
+  if (!isObject(data)) {
+    issues.push({ path: '$', message: 'Expected an object with a "menu" array' });
+    return issues;
+  }
+  if (data.title !== undefined && typeof data.title !== 'string') {
+    issues.push({ path: 'title', message: 'Expected a string' });
+  }
+  if (!Array.isArray(data.menu)) {
+    issues.push({ path: 'menu', message: 'Expected an array of pages' });
+    return issues;
+  }
+
+  const seenPages = new Map<string, string>();
+  data.menu.forEach((item, index) => validateMenuItem(item, `menu[${index}]`, 1, null, seenPages, issues));
+  return issues;
+}
+
+// Readable summary for alerts; long lists are cut off after `limit` entries
+export function formatContentIssues(issues: ContentIssue[], limit = 10): string {
+  const lines = issues.slice(0, limit).map(issue => `${issue.path}: ${issue.message}`);
+  if (issues.length > limit) {
+    lines.push(`...and ${issues.length - limit} more`);
+  }
+  return lines.join('\n');
+}
+
+function validateMenuItem(
+  item: unknown,
+  path: string,
+  depth: number,
+  parentSegments: number[] | null,
+  seenPages: Map<string, string>,
+  issues: ContentIssue[]
+): void {
+  if (!isObject(item)) {
+    issues.push({ path, message: 'Expected a page object' });
+    return;
+  }
+
+  let segments: number[] | null = null;
+
+  if (typeof item.page !== 'string' || !item.page) {
+    issues.push({ path: `${path}.page`, message: 'Missing page id' });
+  } else if (!PAGE_ID_PATTERN.test(item.page)) {
+    issues.push({ path: `${path}.page`, message: `Page id "${item.page}" should look like "1-0-0"` });
+  } else {
+    segments = item.page.split('-').map(Number);
+    const firstPath = seenPages.get(item.page);
+    if (firstPath) {
+      issues.push({ path: `${path}.page`, message: `Duplicate page id "${item.page}" (first used at ${firstPath})` });
+    } else {
+      seenPages.set(item.page, `${path}.page`);
+    }
+    const hierarchyError = checkHierarchy(segments, depth, parentSegments);
+    if (hierarchyError) {
+      issues.push({ path: `${path}.page`, message: hierarchyError });
+    }
+  }
+
+  expectString(item, 'title', path, issues);
+  if (item.innerNode !== undefined && typeof item.innerNode !== 'boolean') {
+    issues.push({ path: `${path}.innerNode`, message: 'Expected true or false' });
+  }
+
+  validateNodeList(item.content, `${path}.content`, issues);
+
+  if (!Array.isArray(item.children)) {
+    issues.push({ path: `${path}.children`, message: 'Expected an array of pages' });
+    return;
+  }
+  if (item.children.length > 0 && depth >= MAX_PAGE_DEPTH) {
+    issues.push({ path: `${path}.children`, message: `Pages can only be nested ${MAX_PAGE_DEPTH} levels deep` });
+    return;
+  }
+  item.children.forEach((child, index) => validateMenuItem(child, `${path}.children[${index}]`, depth + 1, segments, seenPages, issues));
+}
+
+// A level-N page has a non-zero Nth segment, zeros after it, and shares the
+// leading segments of its parent: "2-3-0" belongs under "2-0-0".
+function checkHierarchy(segments: number[], depth: number, parentSegments: number[] | null): string | null {
+  const id = segments.join('-');
+  if (segments[depth - 1] === 0 || segments.slice(depth).some(segment => segment !== 0)) {
+    return `Page id "${id}" does not match its level ${depth} position in the menu`;
+  }
+  if (parentSegments) {
+    const parentId = parentSegments.join('-');
+    if (segments.slice(0, depth - 1).some((segment, index) => segment !== parentSegments[index])) {
+      return `Page id "${id}" is nested under "${parentId}" but does not belong to it`;
+    }
+  }
+  return null;
+}
+
+function validateNodeList(value: unknown, path: string, issues: ContentIssue[]): void {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of content nodes' });
+    return;
+  }
+  value.forEach((node, index) => validateNode(node, `${path}[${index}]`, issues));
+}
+
+function validateNode(node: unknown, path: string, issues: ContentIssue[]): void {
+  if (!isObject(node)) {
+    issues.push({ path, message: 'Expected a content node object' });
+    return;
+  }
+
+  switch (node.type as NodeKind) {
+    case 'paragraph':
+      validateParagraph(node, path, issues);
+      break;
+    case 'mediaItem':
+      expectMediaId(node, 'id', path, issues);
+      expectString(node, 'caption', path, issues);
+      break;
+    case 'listSet':
+      validateListSet(node, path, issues);
+      break;
+    case 'tab':
+      if (!Array.isArray(node.tabs) || node.tabs.length === 0) {
+        issues.push({ path: `${path}.tabs`, message: 'Expected at least one tab' });
+        break;
+      }
+      node.tabs.forEach((tab, index) => {
+        const tabPath = `${path}.tabs[${index}]`;
+        if (!isObject(tab)) {
+          issues.push({ path: tabPath, message: 'Expected a tab object' });
+          return;
+        }
+        expectString(tab, 'title', tabPath, issues);
+        validateNodeList(tab.content, `${tabPath}.content`, issues);
+      });
+      break;
+    case 'panel':
+      expectString(node, 'title', path, issues);
+      validateNodeList(node.content, `${path}.content`, issues);
+      break;
+    case 'table':
+      validateTable(node, path, issues);
+      break;
+    case 'sweeper':
+      if (!isObject(node.content)) {
+        issues.push({ path: `${path}.content`, message: 'Expected "before" and "after" media ids' });
+        break;
+      }
+      expectMediaId(node.content, 'before', `${path}.content`, issues);
+      expectMediaId(node.content, 'after', `${path}.content`, issues);
+      break;
+    case 'radioQuestion':
+      validateNodeList(node.question, `${path}.question`, issues);
+      if (expectStringArray(node, 'answers', path, issues)) {
+        expectIndex(node, 'correct', path, 1, (node.answers as string[]).length, issues);
+      }
+      validateNodeList(node.feedback, `${path}.feedback`, issues);
+      break;
+    case 'selectQuestion':
+      validateSelectQuestion(node, path, issues);
+      break;
+    case 'dragQuestion':
+      expectString(node, 'question', path, issues);
+      expectString(node, 'directions', path, issues);
+      expectMediaId(node, 'background', path, issues);
+      if (expectStringArray(node, 'draggables', path, issues) && (node.draggables as string[]).length === 0) {
+        issues.push({ path: `${path}.draggables`, message: 'Expected at least one draggable' });
+      }
+      if (node.labels !== undefined) {
+        expectStringArray(node, 'labels', path, issues);
+      }
+      if (node.reusable !== undefined && typeof node.reusable !== 'boolean') {
+        issues.push({ path: `${path}.reusable`, message: 'Expected true or false' });
+      }
+      validateNodeList(node.feedback, `${path}.feedback`, issues);
+      break;
+    case 'drawQuestion':
+      expectString(node, 'question', path, issues);
+      expectString(node, 'directions', path, issues);
+      expectMediaId(node, 'background', path, issues);
+      expectStringArray(node, 'colors', path, issues);
+      if (node.labels !== undefined) {
+        expectStringArray(node, 'labels', path, issues);
+      }
+      if (node.sizes !== undefined && !(Array.isArray(node.sizes) && node.sizes.every(size => typeof size === 'number' && size > 0))) {
+        issues.push({ path: `${path}.sizes`, message: 'Expected an array of positive numbers' });
+      }
+      validateNodeList(node.feedback, `${path}.feedback`, issues);
+      break;
+    default:
+      issues.push({ path: `${path}.type`, message: `Unknown content node type ${JSON.stringify(node.type)}` });
+  }
+}
+
+function validateTable(node: JsonObject, path: string, issues: ContentIssue[]): void {
+  if (typeof node.header !== 'boolean') {
+    issues.push({ path: `${path}.header`, message: 'Expected true or false' });
+  }
+  if (!Array.isArray(node.rows) || node.rows.length === 0) {
+    issues.push({ path: `${path}.rows`, message: 'Expected at least one row' });
+    return;
+  }
+  node.rows.forEach((row, rowIndex) => {
+    const rowPath = `${path}.rows[${rowIndex}]`;
+    if (!Array.isArray(row)) {
+      issues.push({ path: rowPath, message: 'Expected an array of cells' });
+      return;
+    }
+    row.forEach((cell, cellIndex) => {
+      const cellPath = `${rowPath}[${cellIndex}]`;
+      if (!isObject(cell)) {
+        issues.push({ path: cellPath, message: 'Expected a table cell object' });
+        return;
+      }
+      validateNodeList(cell.content, `${cellPath}.content`, issues);
+    });
+  });
+}
+
+function validateParagraph(node: JsonObject, path: string, issues: ContentIssue[]): void {
+  if (!Array.isArray(node.content)) {
+    issues.push({ path: `${path}.content`, message: 'Expected an array of text runs' });
+    return;
+  }
+  node.content.forEach((run, index) => validateTextRun(run, `${path}.content[${index}]`, issues));
+}
+
+function validateTextRun(run: unknown, path: string, issues: ContentIssue[]): void {
+  if (!isObject(run)) {
+    issues.push({ path, message: 'Expected a text run object' });
+    return;
+  }
+  expectString(run, 'text', path, issues);
+
+  if (run.type === 'text') {
+    return;
+  }
+  if (!Array.isArray(run.type)) {
+    issues.push({ path: `${path}.type`, message: 'Expected "text" or an array of marks' });
+    return;
+  }
+  const unknownMarks = run.type.filter(mark => !TEXT_MARKS.includes(mark as TextMark));
+  if (unknownMarks.length > 0) {
+    issues.push({ path: `${path}.type`, message: `Unknown text marks: ${unknownMarks.map(mark => JSON.stringify(mark)).join(', ')}` });
+  }
+  if (run.type.includes('link') && (typeof run.link !== 'string' || !run.link.trim())) {
+    issues.push({ path: `${path}.link`, message: 'Runs marked "link" need a link URL' });
+  }
+}
+
+function validateListSet(node: JsonObject, path: string, issues: ContentIssue[]): void {
+  if (!LIST_GLYPHS.includes(node.glyph as ListGlyph)) {
+    issues.push({ path: `${path}.glyph`, message: `Unknown list glyph ${JSON.stringify(node.glyph)}` });
+  }
+  if (!Number.isInteger(node.level) || (node.level as number) < 0) {
+    issues.push({ path: `${path}.level`, message: 'Expected a list level of 0 or more' });
+  }
+  if (!Array.isArray(node.content)) {
+    issues.push({ path: `${path}.content`, message: 'Expected an array of list items' });
+    return;
+  }
+
+  node.content.forEach((item, index) => {
+    const itemPath = `${path}.content[${index}]`;
+    if (!isObject(item) || item.type !== 'listItem') {
+      issues.push({ path: itemPath, message: 'Expected a listItem node' });
+      return;
+    }
+    if (!isObject(item.content) || item.content.type !== 'paragraph') {
+      issues.push({ path: `${itemPath}.content`, message: 'Expected a paragraph node' });
+      return;
+    }
+    validateParagraph(item.content, `${itemPath}.content`, issues);
+  });
+}
+
+function validateSelectQuestion(node: JsonObject, path: string, issues: ContentIssue[]): void {
+  validateNodeList(node.questionContent, `${path}.questionContent`, issues);
+  validateNodeList(node.feedback, `${path}.feedback`, issues);
+
+  if (!Array.isArray(node.questions)) {
+    issues.push({ path: `${path}.questions`, message: 'Expected an array of question lines' });
+    return;
+  }
+  node.questions.forEach((line, lineIndex) => {
+    const linePath = `${path}.questions[${lineIndex}]`;
+    if (!isObject(line)) {
+      issues.push({ path: linePath, message: 'Expected a question line object' });
+      return;
+    }
+    expectString(line, 'question', linePath, issues);
+    if (!Array.isArray(line.dropdowns)) {
+      issues.push({ path: `${linePath}.dropdowns`, message: 'Expected an array of dropdowns' });
+      return;
+    }
+    line.dropdowns.forEach((dropdown, index) => {
+      const dropdownPath = `${linePath}.dropdowns[${index}]`;
+      if (!isObject(dropdown)) {
+        issues.push({ path: dropdownPath, message: 'Expected a dropdown object' });
+        return;
+      }
+      if (expectStringArray(dropdown, 'answers', dropdownPath, issues)) {
+        expectIndex(dropdown, 'correct', dropdownPath, 0, (dropdown.answers as string[]).length - 1, issues);
+      }
+    });
+  });
+}
+
+function expectString(object: JsonObject, key: string, path: string, issues: ContentIssue[]): boolean {
+  if (typeof object[key] !== 'string') {
+    issues.push({ path: `${path}.${key}`, message: 'Expected a string' });
+    return false;
+  }
+  return true;
+}
+
+function expectStringArray(object: JsonObject, key: string, path: string, issues: ContentIssue[]): boolean {
+  const value = object[key];
+  if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) {
+    issues.push({ path: `${path}.${key}`, message: 'Expected an array of strings' });
+    return false;
+  }
+  return true;
+}
+
+function expectMediaId(object: JsonObject, key: string, path: string, issues: ContentIssue[]): void {
+  const value = object[key];
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push({ path: `${path}.${key}`, message: 'Missing media id' });
+  }
+}
+
+function expectIndex(object: JsonObject, key: string, path: string, min: number, max: number, issues: ContentIssue[]): void {
+  const value = object[key];
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    issues.push({ path: `${path}.${key}`, message: `Expected a whole number from ${min} to ${max}` });
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,642 @@
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  ContentMenuItem,
+  ContentNode,
+  LessonContent,
+  ListGlyph,
+  ListSetNode,
+  MediaItemNode,
+  ParagraphNode,
+  TableCell,
+  TableNode,
+  TextMark,
+  TextNode
+} from '../types/content';
+import type { AssetFile } from '../types/lesson';
+import { numberMenu } from './contentImporter';
+
+// Something in the manuscript that was changed or left out on the way in
+export interface DocxImportIssue {
+  location: string; // Title of the page it was found on
+  message: string;
+}
+
+export interface DocxImportResult {
+  content: LessonContent;
+  assets: AssetFile[];
+  issues: DocxImportIssue[];
+}
+
+interface StyleInfo {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number; // 0-based, as in <w:outlineLvl>
+  numbering?: { numId: string; level: number };
+}
+
+interface Relationship {
+  target: string;
+  external: boolean;
+}
+
+interface DocxContext {
+  zip: JSZip;
+  styles: Map<string, StyleInfo>;
+  numbering: Map<string, ListGlyph[]>; // numId -> glyph for each indentation level
+  relationships: Map<string, Relationship>;
+  images: Map<string, string>; // zip path -> asset file name
+  assetPrefix: string;
+  issues: DocxImportIssue[];
+  location: string;
+  title?: string;
+}
+
+// A heading starts a new page; everything else is content for the current page
+type Block =
+  | { kind: 'heading'; level: number; title: string }
+  | { kind: 'node'; node: ContentNode };
+
+interface RunState {
+  marks: TextMark[];
+  link?: string;
+}
+
+type Inline = TextNode | MediaItemNode;
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const VML_NS = 'urn:schemas-microsoft-com:vml';
+const MATH_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+
+const MAX_HEADING_LEVEL = 3;
+const BEFORE_FIRST_HEADING = 'Before the first heading';
+const INTRODUCTION_TITLE = 'Introduction';
+
+// Mark order matches the conversion workflow's output
+export const MARK_ORDER: TextMark[] = ['bold', 'italic', 'underline', 'superscript', 'subscript', 'link'];
+
+const NUMBER_FORMATS: Record<string, ListGlyph> = {
+  decimal: 'NUMBER',
+  decimalZero: 'NUMBER',
+  upperLetter: 'LATIN_UPPER',
+  lowerLetter: 'LATIN_LOWER',
+  upperRoman: 'ROMAN_UPPER',
+  lowerRoman: 'ROMAN_LOWER'
+};
+
+export const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp'
+};
+
+// Reads a Word manuscript: Heading 1-3 paragraphs become units, sections and
+// subsections, and the paragraphs under each heading become that page's content.
+// The result goes through the same preview and import path as a content JSON file.
+export async function importDocx(file: File): Promise<DocxImportResult> {
+  const zip = await JSZip.loadAsync(file);
+  const documentXml = await readXml(zip, 'word/document.xml');
+  if (!documentXml) {
+    throw new Error(`${file.name} is not a Word document (word/document.xml is missing)`);
+  }
+
+  const context: DocxContext = {
+    zip,
+    styles: parseStyles(await readXml(zip, 'word/styles.xml')),
+    numbering: parseNumbering(await readXml(zip, 'word/numbering.xml')),
+    relationships: parseRelationships(await readXml(zip, 'word/_rels/document.xml.rels')),
+    images: new Map(),
+    assetPrefix: file.name.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_'),
+    issues: [],
+    location: BEFORE_FIRST_HEADING
+  };
+
+  const body = wordElements(documentXml.documentElement, 'body')[0];
+  const blocks = body ? convertBlocks(childElements(body), context, false) : [];
+  const menu = buildMenu(blocks, context);
+  const assets = await loadImages(context);
+
+  return {
+    content: { title: context.title ?? await readDocumentTitle(zip), menu },
+    assets,
+    issues: context.issues
+  };
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | undefined> {
+  const text = await zip.file(path)?.async('string');
+  return text ? new DOMParser().parseFromString(text, 'application/xml') : undefined;
+}
+
+// The Title property from File > Info, used when no paragraph has the Title style
+async function readDocumentTitle(zip: JSZip): Promise<string | undefined> {
+  const core = await readXml(zip, 'docProps/core.xml');
+  const title = core?.getElementsByTagNameNS('http://purl.org/dc/elements/1.1/', 'title')[0]?.textContent?.trim();
+  return title || undefined;
+}
+
+function parseStyles(document: Document | undefined): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  if (!document) return styles;
+
+  for (const style of Array.from(document.getElementsByTagNameNS(WORD_NS, 'style'))) {
+    const id = getWordAttribute(style, 'styleId');
+    if (!id) continue;
+
+    const properties = wordChild(style, 'pPr');
+    const outlineLevel = getWordAttribute(wordChild(properties, 'outlineLvl'), 'val');
+    styles.set(id, {
+      name: getWordAttribute(wordChild(style, 'name'), 'val') ?? id,
+      basedOn: getWordAttribute(wordChild(style, 'basedOn'), 'val'),
+      outlineLevel: outlineLevel !== undefined ? Number(outlineLevel) : undefined,
+      numbering: getNumbering(properties)
+    });
+  }
+  return styles;
+}
+
+function parseNumbering(document: Document | undefined): Map<string, ListGlyph[]> {
+  const numbering = new Map<string, ListGlyph[]>();
+  if (!document) return numbering;
+
+  const abstractGlyphs = new Map<string, ListGlyph[]>();
+  for (const abstractNum of Array.from(document.getElementsByTagNameNS(WORD_NS, 'abstractNum'))) {
+    const glyphs: ListGlyph[] = [];
+    for (const level of wordElements(abstractNum, 'lvl')) {
+      const index = Number(getWordAttribute(level, 'ilvl') ?? 0);
+      glyphs[index] = getListGlyph(
+        getWordAttribute(wordChild(level, 'numFmt'), 'val') ?? 'bullet',
+        getWordAttribute(wordChild(level, 'lvlText'), 'val') ?? ''
+      );
+    }
+    abstractGlyphs.set(getWordAttribute(abstractNum, 'abstractNumId') ?? '', glyphs);
+  }
+
+  for (const num of Array.from(document.getElementsByTagNameNS(WORD_NS, 'num'))) {
+    const abstractId = getWordAttribute(wordChild(num, 'abstractNumId'), 'val') ?? '';
+    numbering.set(getWordAttribute(num, 'numId') ?? '', abstractGlyphs.get(abstractId) ?? []);
+  }
+  return numbering;
+}
+
+// Word writes bullets as a character in a symbol font: "o" is the hollow circle and
+// the Wingdings/private-use characters below are squares
+function getListGlyph(format: string, text: string): ListGlyph {
+  if (format !== 'bullet') {
+    return NUMBER_FORMATS[format] ?? 'NUMBER';
+  }
+  if (text === 'o' || text === '◦') return 'HOLLOW_BULLET';
+  if (['§', '▪', '■', '\uF0A7', '\uF06E'].includes(text)) return 'SQUARE_BULLET';
+  return 'BULLET';
+}
+
+function parseRelationships(document: Document | undefined): Map<string, Relationship> {
+  const relationships = new Map<string, Relationship>();
+  if (!document) return relationships;
+
+  for (const relationship of Array.from(document.getElementsByTagName('Relationship'))) {
+    relationships.set(relationship.getAttribute('Id') ?? '', {
+      target: relationship.getAttribute('Target') ?? '',
+      external: relationship.getAttribute('TargetMode') === 'External'
+    });
+  }
+  return relationships;
+}
+
+function convertBlocks(elements: Element[], context: DocxContext, inTable: boolean): Block[] {
+  const blocks: Block[] = [];
+  const pushNode = (node: ContentNode) => blocks.push({ kind: 'node', node });
+
+  for (const element of elements) {
+    if (element.namespaceURI !== WORD_NS) {
+      reportElement(element, context);
+      continue;
+    }
+
+    switch (element.localName) {
+      case 'p':
+        convertParagraph(element, context, inTable, blocks);
+        break;
+      case 'tbl':
+        pushNode(convertTable(element, context));
+        break;
+      case 'sdt':
+        blocks.push(...convertBlocks(childElements(wordChild(element, 'sdtContent')), context, inTable));
+        break;
+      case 'sectPr':
+      case 'tcPr':
+      case 'bookmarkStart':
+      case 'bookmarkEnd':
+      case 'proofErr':
+        break;
+      default:
+        reportElement(element, context);
+    }
+  }
+
+  return blocks;
+}
+
+function convertParagraph(paragraph: Element, context: DocxContext, inTable: boolean, blocks: Block[]): void {
+  const properties = wordChild(paragraph, 'pPr');
+  const styleId = getWordAttribute(wordChild(properties, 'pStyle'), 'val');
+  const styleName = styleId ? resolveStyle(context, styleId, style => style.name) ?? '' : '';
+  const inlines = convertInlines(childElements(paragraph), { marks: [] }, context);
+  const text = inlines.map(inline => inline.type === 'mediaItem' ? '' : inline.text).join('').trim();
+
+  if (/^title$/i.test(styleName)) {
+    context.title = context.title ?? text;
+    return;
+  }
+
+  const headingLevel = getHeadingLevel(properties, styleId, styleName, context);
+  if (headingLevel !== undefined && text) {
+    if (inTable) {
+      report(context, 'Headings inside tables were kept as table text');
+    } else if (headingLevel <= MAX_HEADING_LEVEL) {
+      blocks.push({ kind: 'heading', level: headingLevel, title: text });
+      context.location = text;
+      return;
+    } else {
+      report(context, `Heading ${headingLevel} paragraphs were kept as bold text; pages only go three levels deep`);
+      inlines.forEach(inline => {
+        if (inline.type !== 'mediaItem') inline.type = withMark(inline, 'bold');
+      });
+    }
+  }
+
+  // A Caption paragraph right after an image becomes that image's caption
+  const previous = blocks[blocks.length - 1];
+  if (/^caption$/i.test(styleName) && previous?.kind === 'node' && previous.node.type === 'mediaItem') {
+    previous.node.caption = text;
+    return;
+  }
+
+  const listNumbering = getNumbering(properties) ?? (styleId ? resolveStyle(context, styleId, style => style.numbering) : undefined);
+  const glyph = listNumbering ? context.numbering.get(listNumbering.numId)?.[listNumbering.level] : undefined;
+
+  // Images split the paragraph: text before, the image, then the text after it
+  let runs: TextNode[] = [];
+  const flushRuns = () => {
+    const content = mergeRuns(runs);
+    runs = [];
+    if (!content.some(run => run.text.trim())) return;
+
+    const node: ParagraphNode = { type: 'paragraph', content };
+    if (glyph && listNumbering) {
+      appendListItem(blocks, node, glyph, listNumbering.level);
+    } else {
+      blocks.push({ kind: 'node', node });
+    }
+  };
+
+  for (const inline of inlines) {
+    if (inline.type === 'mediaItem') {
+      flushRuns();
+      blocks.push({ kind: 'node', node: inline });
+    } else {
+      runs.push(inline);
+    }
+  }
+  flushRuns();
+}
+
+// Word numbering ids of "0" switch numbering off for a paragraph whose style has it
+function getNumbering(properties: Element | undefined): StyleInfo['numbering'] {
+  const numPr = wordChild(properties, 'numPr');
+  const numId = getWordAttribute(wordChild(numPr, 'numId'), 'val');
+  if (!numId) return undefined;
+  return { numId, level: Number(getWordAttribute(wordChild(numPr, 'ilvl'), 'val') ?? 0) };
+}
+
+// "heading 2" by name, or any style (or paragraph) with an outline level
+function getHeadingLevel(properties: Element | undefined, styleId: string | undefined, styleName: string, context: DocxContext): number | undefined {
+  const byName = /^heading\s*(\d)$/i.exec(styleName);
+  if (byName) return Number(byName[1]);
+
+  const outline = getWordAttribute(wordChild(properties, 'outlineLvl'), 'val');
+  const outlineLevel = outline !== undefined
+    ? Number(outline)
+    : styleId ? resolveStyle(context, styleId, style => style.outlineLevel) : undefined;
+  // Level 9 is Word's "body text"
+  return outlineLevel !== undefined && outlineLevel < 9 ? outlineLevel + 1 : undefined;
+}
+
+// Follows the basedOn chain until `read` finds a value
+function resolveStyle<T>(context: DocxContext, styleId: string, read: (style: StyleInfo) => T | undefined): T | undefined {
+  let style = context.styles.get(styleId);
+  for (let depth = 0; style && depth < 10; depth++) {
+    const value = read(style);
+    if (value !== undefined) return value;
+    style = style.basedOn ? context.styles.get(style.basedOn) : undefined;
+  }
+  return undefined;
+}
+
+// Consecutive items of the same list and level share a listSet, matching the
+// content JSON's one-listSet-per-indentation-level layout
+function appendListItem(blocks: Block[], paragraph: ParagraphNode, glyph: ListGlyph, level: number): void {
+  const previous = blocks[blocks.length - 1];
+  const item = { type: 'listItem' as const, content: paragraph };
+
+  if (previous?.kind === 'node' && previous.node.type === 'listSet' && previous.node.level === level && previous.node.glyph === glyph) {
+    previous.node.content.push(item);
+    return;
+  }
+  const listSet: ListSetNode = { type: 'listSet', glyph, level, content: [item] };
+  blocks.push({ kind: 'node', node: listSet });
+}
+
+function convertInlines(elements: Element[], state: RunState, context: DocxContext): Inline[] {
+  const inlines: Inline[] = [];
+
+  for (const element of elements) {
+    if (element.namespaceURI === MATH_NS) {
+      report(context, 'Equations were left out');
+      continue;
+    }
+    if (element.namespaceURI !== WORD_NS) continue;
+
+    switch (element.localName) {
+      case 'r':
+        inlines.push(...convertRun(element, state, context));
+        break;
+      case 'hyperlink':
+        inlines.push(...convertInlines(childElements(element), getLinkState(element, state, context), context));
+        break;
+      case 'ins':
+        report(context, 'Tracked changes were accepted');
+        inlines.push(...convertInlines(childElements(element), state, context));
+        break;
+      case 'del':
+        report(context, 'Tracked changes were accepted');
+        break;
+      case 'smartTag':
+      case 'customXml':
+      case 'fldSimple':
+        inlines.push(...convertInlines(childElements(element), state, context));
+        break;
+      case 'sdt':
+        inlines.push(...convertInlines(childElements(wordChild(element, 'sdtContent')), state, context));
+        break;
+      case 'commentRangeStart':
+        report(context, 'Comments were left out');
+        break;
+    }
+  }
+
+  return inlines;
+}
+
+function getLinkState(hyperlink: Element, state: RunState, context: DocxContext): RunState {
+  const relationshipId = hyperlink.getAttributeNS(RELATIONSHIP_NS, 'id');
+  const target = relationshipId ? context.relationships.get(relationshipId)?.target : undefined;
+  if (target) {
+    return { marks: [...state.marks, 'link'], link: target };
+  }
+  if (getWordAttribute(hyperlink, 'anchor')) {
+    report(context, 'Links to bookmarks within the document were kept as plain text');
+  }
+  return state;
+}
+
+function convertRun(run: Element, state: RunState, context: DocxContext): Inline[] {
+  const marks = [...state.marks, ...getRunMarks(wordChild(run, 'rPr'))];
+  const inlines: Inline[] = [];
+  const pushText = (text: string) => {
+    const type = marks.length > 0 ? MARK_ORDER.filter(mark => marks.includes(mark)) : 'text';
+    inlines.push(state.link ? { type, text, link: state.link } : { type, text });
+  };
+
+  for (const child of childElements(run)) {
+    if (child.namespaceURI !== WORD_NS) continue;
+
+    switch (child.localName) {
+      case 't':
+        pushText(child.textContent ?? '');
+        break;
+      case 'tab':
+        pushText(' ');
+        break;
+      case 'br':
+      case 'cr':
+        if (getWordAttribute(child, 'type') !== 'page') pushText('\n');
+        break;
+      case 'noBreakHyphen':
+        pushText('-');
+        break;
+      case 'drawing':
+      case 'pict':
+        inlines.push(...convertGraphic(child, context));
+        break;
+      case 'object':
+        report(context, 'Embedded objects (charts, spreadsheets, equations) were left out');
+        break;
+      case 'footnoteReference':
+      case 'endnoteReference':
+        report(context, 'Footnotes and endnotes were left out');
+        break;
+      case 'commentReference':
+        report(context, 'Comments were left out');
+        break;
+      case 'sym':
+        report(context, 'Symbol font characters were left out');
+        break;
+    }
+  }
+
+  return inlines;
+}
+
+function getRunMarks(properties: Element | undefined): TextMark[] {
+  if (!properties) return [];
+  const marks: TextMark[] = [];
+  // <w:b/> is on unless its val says otherwise; <w:u/> needs a val other than "none"
+  const isOn = (name: string) => {
+    const element = wordChild(properties, name);
+    return element !== undefined && !['false', '0', 'none'].includes(getWordAttribute(element, 'val') ?? '');
+  };
+
+  if (isOn('b')) marks.push('bold');
+  if (isOn('i')) marks.push('italic');
+  if (isOn('u')) marks.push('underline');
+
+  const verticalAlign = getWordAttribute(wordChild(properties, 'vertAlign'), 'val');
+  if (verticalAlign === 'superscript') marks.push('superscript');
+  if (verticalAlign === 'subscript') marks.push('subscript');
+  return marks;
+}
+
+// Pictures are <a:blip r:embed> in DrawingML and <v:imagedata r:id> in older VML
+function convertGraphic(graphic: Element, context: DocxContext): MediaItemNode[] {
+  if (graphic.getElementsByTagNameNS(WORD_NS, 'txbxContent').length > 0) {
+    report(context, 'Text boxes were left out');
+    return [];
+  }
+
+  const blip = graphic.getElementsByTagNameNS(DRAWING_NS, 'blip')[0];
+  const imageData = graphic.getElementsByTagNameNS(VML_NS, 'imagedata')[0];
+  const relationshipId = blip?.getAttributeNS(RELATIONSHIP_NS, 'embed') || imageData?.getAttributeNS(RELATIONSHIP_NS, 'id');
+  const relationship = relationshipId ? context.relationships.get(relationshipId) : undefined;
+
+  if (!relationship) {
+    report(context, 'Charts, shapes and SmartArt were left out');
+    return [];
+  }
+  if (relationship.external) {
+    report(context, `Linked image ${relationship.target} is not embedded in the document and was left out`);
+    return [];
+  }
+
+  const zipPath = relationship.target.startsWith('/')
+    ? relationship.target.slice(1)
+    : `word/${relationship.target}`;
+  let fileName = context.images.get(zipPath);
+  if (!fileName) {
+    fileName = `${context.assetPrefix}_${zipPath.slice(zipPath.lastIndexOf('/') + 1)}`;
+    context.images.set(zipPath, fileName);
+  }
+  const extension = getExtension(fileName);
+  if (!IMAGE_TYPES[extension]) {
+    report(context, `.${extension} images don't display in browsers; replace ${fileName} with a PNG or JPEG`);
+  }
+
+  // Alt text is the best caption Word has; a following Caption paragraph replaces it
+  const description = graphic.getElementsByTagNameNS('*', 'docPr')[0]?.getAttribute('descr') ?? '';
+  return [{ type: 'mediaItem', id: fileName.replace(/\.[^.]+$/, ''), caption: description }];
+}
+
+function convertTable(table: Element, context: DocxContext): TableNode {
+  const rows = wordElements(table, 'tr');
+
+  const cells = rows.map(row => wordElements(row, 'tc').map((cell): TableCell => {
+    const properties = wordChild(cell, 'tcPr');
+    if (Number(getWordAttribute(wordChild(properties, 'gridSpan'), 'val') ?? 1) > 1 || wordChild(properties, 'vMerge')) {
+      report(context, 'Merged table cells were split back into separate cells');
+    }
+    const content = convertBlocks(childElements(cell), context, true)
+      .flatMap(block => block.kind === 'node' ? [block.node] : []);
+    return { content };
+  }));
+
+  const firstRowProperties = wordChild(rows[0], 'trPr');
+  return { type: 'table', header: wordChild(firstRowProperties, 'tblHeader') !== undefined, rows: cells };
+}
+
+// Headings can skip levels in Word (Heading 1 straight to Heading 3); such pages
+// are attached one level below the nearest heading above them
+function buildMenu(blocks: Block[], context: DocxContext): ContentMenuItem[] {
+  const menu: ContentMenuItem[] = [];
+  const open: ContentMenuItem[] = [];
+  let current: ContentMenuItem | undefined;
+
+  for (const block of blocks) {
+    if (block.kind === 'node') {
+      if (!current) {
+        current = { page: '', title: INTRODUCTION_TITLE, children: [], innerNode: false, content: [] };
+        menu.push(current);
+        open.push(current);
+        context.location = BEFORE_FIRST_HEADING;
+        report(context, `Content before the first heading was placed on an "${INTRODUCTION_TITLE}" page`);
+      }
+      current.content.push(block.node);
+      continue;
+    }
+
+    context.location = block.title;
+    const level = Math.min(block.level, open.length + 1);
+    if (level < block.level) {
+      report(context, `Heading ${block.level} follows a level ${open.length} heading, so it became level ${level}`);
+    }
+
+    current = { page: '', title: block.title, children: [], innerNode: false, content: [] };
+    open.length = level - 1;
+    (open[level - 2]?.children ?? menu).push(current);
+    open.push(current);
+  }
+
+  return numberMenu(menu);
+}
+
+async function loadImages(context: DocxContext): Promise<AssetFile[]> {
+  const assets: AssetFile[] = [];
+
+  for (const [zipPath, name] of context.images) {
+    const entry = context.zip.file(zipPath);
+    if (!entry) {
+      context.issues.push({ location: name, message: `Image ${zipPath} is missing from the document` });
+      continue;
+    }
+
+    const blob = await entry.async('blob');
+    assets.push({
+      id: uuidv4(),
+      name,
+      type: 'image',
+      file: new File([blob], name, { type: IMAGE_TYPES[getExtension(name)] ?? 'application/octet-stream' }),
+      path: `assets/images/${name}`
+    });
+  }
+
+  return assets;
+}
+
+// Adjacent runs with the same formatting are joined so the JSON stays readable
+export function mergeRuns(runs: TextNode[]): TextNode[] {
+  return runs.reduce<TextNode[]>((merged, run) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.link === run.link && JSON.stringify(previous.type) === JSON.stringify(run.type)) {
+      previous.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+    return merged;
+  }, []);
+}
+
+function getExtension(fileName: string): string {
+  return fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+}
+
+function withMark(run: TextNode, mark: TextMark): TextNode['type'] {
+  const marks = Array.isArray(run.type) ? run.type : [];
+  return marks.includes(mark) ? marks : MARK_ORDER.filter(candidate => candidate === mark || marks.includes(candidate));
+}
+
+function reportElement(element: Element, context: DocxContext): void {
+  if (element.namespaceURI === MATH_NS) {
+    report(context, 'Equations were left out');
+  } else {
+    report(context, `Unsupported ${element.nodeName} content was left out`);
+  }
+}
+
+// Each problem is reported once per page
+function report(context: DocxContext, message: string): void {
+  const exists = context.issues.some(issue => issue.location === context.location && issue.message === message);
+  if (!exists) {
+    context.issues.push({ location: context.location, message });
+  }
+}
+
+function childElements(parent: Element | undefined): Element[] {
+  if (!parent) return [];
+  return Array.from(parent.childNodes).filter((node): node is Element => node.nodeType === 1);
+}
+
+function wordElements(parent: Element, localName: string): Element[] {
+  return childElements(parent).filter(element => element.namespaceURI === WORD_NS && element.localName === localName);
+}
+
+function wordChild(parent: Element | undefined, localName: string): Element | undefined {
+  return parent ? wordElements(parent, localName)[0] : undefined;
+}
+
+function getWordAttribute(element: Element | undefined, name: string): string | undefined {
+  return element?.hasAttributeNS(WORD_NS, name) ? element.getAttributeNS(WORD_NS, name) ?? undefined : undefined;
+}
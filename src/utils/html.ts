@@ -0,0 +1,29 @@
+// Small string helpers shared by the HTML/PHP generators
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function escapeAttribute(value: string): string {
+  return escapeHtml(value).replace(/"/g, '&quot;');
+}
+
+// Indent every non-empty line of a block of markup by the given number of spaces
+export function indent(html: string, spaces: number): string {
+  const padding = ' '.repeat(spaces);
+  return html
+    .split('\n')
+    .map(line => (line.trim() ? padding + line : line))
+    .join('\n');
+}
+
+// Removes the indentation every non-empty line shares, e.g. from markup cut out of a page
+export function outdent(html: string): string {
+  const lines = html.split('\n');
+  const widths = lines.filter(line => line.trim()).map(line => /^[ \t]*/.exec(line)?.[0].length ?? 0);
+  const shared = widths.length > 0 ? Math.min(...widths) : 0;
+  return lines.map(line => line.slice(Math.min(shared, /^[ \t]*/.exec(line)?.[0].length ?? 0))).join('\n');
+}
@@ -0,0 +1,96 @@
+import type { TextMark, TextNode } from '../types/content';
+import { escapeAttribute, escapeHtml } from './html';
+
+// Innermost first: a run marked bold + italic + superscript becomes
+// <strong><em><sup>text</sup></em></strong>, with any link wrapped around the lot.
+const MARK_TAGS: [TextMark, string][] = [
+  ['superscript', 'sup'],
+  ['subscript', 'sub'],
+  ['underline', 'u'],
+  ['italic', 'em'],
+  ['bold', 'strong']
+];
+
+interface FormattedRun {
+  text: string;
+  marks: TextMark[];
+  link?: string;
+}
+
+// Turns the text runs of a paragraph into inline HTML. Adjacent runs carrying the
+// same marks are merged first so editors' run splits don't leak into the markup.
+export function formatInlineText(runs: TextNode[]): string {
+  return mergeRuns(runs.map(normalizeRun))
+    .map(renderRun)
+    .join('');
+}
+
+export function getTextMarks(run: TextNode): TextMark[] {
+  return Array.isArray(run.type) ? run.type : [];
+}
+
+// Absolute http(s) and protocol-relative URLs leave the lesson, so they open in a new window
+export function isExternalLink(href: string): boolean {
+  return /^(https?:)?\/\//i.test(href.trim());
+}
+
+// Web and mail links, plus relative paths and anchors within the lesson. Anything else
+// (javascript:, data: and the like) is dropped. Browsers ignore whitespace and control
+// characters inside the scheme, so those go before the check.
+function isAllowedLink(href: string): boolean {
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec([...href].filter(char => char > ' ').join(''));
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme[1].toLowerCase());
+}
+
+function normalizeRun(run: TextNode): FormattedRun {
+  const marks = getTextMarks(run);
+  const href = marks.includes('link') && run.link ? run.link.trim() : undefined;
+  const link = href && isAllowedLink(href) ? href : undefined;
+
+  // Links come out of the conversion workflow as ["link", "underline"]; the
+  // underline is the link styling itself, so it is dropped rather than doubled up.
+  // A link that is not allowed keeps its text but loses the styling along with it.
+  const styleMarks = MARK_TAGS
+    .map(([mark]) => mark)
+    .filter(mark => marks.includes(mark) && !(href && mark === 'underline'));
+
+  return { text: run.text, marks: styleMarks, link };
+}
+
+function mergeRuns(runs: FormattedRun[]): FormattedRun[] {
+  return runs.reduce<FormattedRun[]>((merged, run) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.link === run.link && sameMarks(previous.marks, run.marks)) {
+      previous.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+    return merged;
+  }, []);
+}
+
+function sameMarks(a: TextMark[], b: TextMark[]): boolean {
+  return a.length === b.length && a.every(mark => b.includes(mark));
+}
+
+function renderRun(run: FormattedRun): string {
+  let html = escapeHtml(run.text).replace(/\r\n?|\n/g, '<br>');
+
+  // Whitespace keeps its place in the sentence but doesn't need any markup
+  if (!run.text.trim()) {
+    return html;
+  }
+
+  for (const [mark, tag] of MARK_TAGS) {
+    if (run.marks.includes(mark)) {
+      html = `<${tag}>${html}</${tag}>`;
+    }
+  }
+
+  if (run.link) {
+    const target = isExternalLink(run.link) ? ' target="_blank" rel="noopener noreferrer"' : '';
+    html = `<a href="${escapeAttribute(run.link)}"${target}>${html}</a>`;
+  }
+
+  return html;
+}
@@ -1,13 +1,19 @@
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import type { LessonConfig, LessonPage } from '../types/lesson';
+import type { AssetFile, LessonChapter, LessonConfig, LessonPage } from '../types/lesson';
+import { getPrintFileName } from './chapters';
+import { renderPageSections, renderTableOfContents, type RenderablePage } from './contentRenderer';
+import { escapeHtml, indent } from './html';
+import { flattenPages } from './pageTree';
 
 export class LatestCorePhpGenerator {
-  private config: LessonConfig;
-  private templatePath = '/src/utils/templates/latest_core_php';
+  protected config: LessonConfig;
+  protected assets: AssetFile[];
+  protected templatePath = '/src/utils/templates/latest_core_php';
 
-  constructor(config: LessonConfig) {
+  constructor(config: LessonConfig, assets: AssetFile[] = []) {
     this.config = config;
+    this.assets = assets;
   }
 
   async generateLesson(): Promise<void> {
@@ -16,9 +22,12 @@ export class LatestCorePhpGenerator {
       
       // Process template files and copy assets
       await this.processTemplateFiles(zip);
+
+      // Add uploaded assets at the paths the rendered content points to
+      this.addUploadedAssets(zip);
       
-      // Generate unit-specific print files
-      this.generateUnitPrintFiles(zip);
+      // Generate one print file per chapter
+      this.generateChapterPrintFiles(zip);
       
       // Generate and download the ZIP
       const blob = await zip.generateAsync({ type: 'blob' });
@@ -38,13 +47,19 @@ export class LatestCorePhpGenerator {
       'navmenu.php',
       'download.php',
       'media_gallery.php',
-      'print_sample.php',
       'pageTemplate.php',
       'navmenu.inc.php',
       'navmenu.inc_es.php',
       'navmenu.inc_fr.php'
     ];
 
+    // navmenu.inc.php treats every file with "print" in its name as a chapter, so
+    // print_sample.php stays out of the package. The chapter list only makes sense
+    // once there is more than one chapter to choose from.
+    if (this.config.chapters.length > 1) {
+      templateFiles.push('table_of_contents.php');
+    }
+
     // Process each template file
     for (const filename of templateFiles) {
       try {
@@ -80,7 +95,7 @@ export class LatestCorePhpGenerator {
     await this.copyAssetDirectories(zip);
   }
 
-  private async copyAssetDirectories(zip: JSZip): Promise<void> {
+  protected async copyAssetDirectories(zip: JSZip): Promise<void> {
     const assetDirectories = [
       'assets',
       'bootstrap',
@@ -114,6 +129,13 @@ export class LatestCorePhpGenerator {
       await this.copyFile(zip, 'jquery/jquery-plugins.min.js', `${sourceDir}/jquery-plugins.min.js`);
       await this.copyFile(zip, 'jquery/apps/apps.css', `${sourceDir}/apps/apps.css`);
       await this.copyFile(zip, 'jquery/apps/apps.js', `${sourceDir}/apps/apps.js`);
+      await this.copyFile(zip, 'jquery/apps/image-sweep/image-sweep.css', `${sourceDir}/apps/image-sweep/image-sweep.css`);
+      await this.copyFile(zip, 'jquery/apps/image-sweep/image-sweep.js', `${sourceDir}/apps/image-sweep/image-sweep.js`);
+      await this.copyFile(zip, 'jquery/apps/drag/drag.js', `${sourceDir}/apps/drag/drag.js`);
+      // excanvas.js backs the IE fallback block in the page head
+      for (const file of ['draw.js', 'responsive-canvas.js', 'excanvas.js', 'draw_pen.png', 'draw_eraser.png']) {
+        await this.copyFile(zip, `jquery/apps/draw/${file}`, `${sourceDir}/apps/draw/${file}`);
+      }
     } else if (targetDir === 'modernizr') {
       await this.copyFile(zip, 'modernizr/modernizr.min.js', `${sourceDir}/modernizr.min.js`);
     } else if (targetDir === 'ie-support') {
@@ -123,7 +145,7 @@ export class LatestCorePhpGenerator {
     }
   }
 
-  private async copyFile(zip: JSZip, targetPath: string, sourcePath: string): Promise<void> {
+  protected async copyFile(zip: JSZip, targetPath: string, sourcePath: string): Promise<void> {
     try {
       const response = await fetch(sourcePath);
       if (response.ok) {
@@ -140,25 +162,53 @@ export class LatestCorePhpGenerator {
     }
   }
 
-  private generateUnitPrintFiles(zip: JSZip): void {
-    const pages = this.config.pages || [];
-    
-    pages.forEach((page, index) => {
-      const unitNumber = index + 1;
-      const filename = `print_${unitNumber}.php`;
-      const content = this.generateUnitPrintContent(page, unitNumber);
-      zip.file(filename, content);
+  protected addUploadedAssets(zip: JSZip): void {
+    for (const asset of this.assets) {
+      zip.file(asset.path, asset.file);
+    }
+  }
+
+  private generateChapterPrintFiles(zip: JSZip): void {
+    this.config.chapters.forEach((chapter, index) => {
+      zip.file(getPrintFileName(index + 1), this.generateChapterPrintContent(chapter));
     });
   }
 
-  private generateUnitPrintContent(page: LessonPage, unitNumber: number): string {
-    const templateVariables = this.getTemplateVariables();
-    
+  private generateChapterPrintContent(chapter: LessonChapter): string {
     return `<?php
 require_once( 'cometAPI.inc.php' );
 $mm = new MediaItemManager();
 ?>
-<!doctype html>
+${this.renderChapterPrintPage(chapter, 'index.htm', false, ['jquery/defaults.js'])}`;
+  }
+
+  // navmenu.inc.php reads the chapter title and description by exact class name
+  // ([class=chapter_title]), so those elements carry no other classes. navmenu.php also
+  // builds the interactive lesson from print_N.php's sections, so those keep the
+  // interactive markup (printVersion false) with a print-only answer key after each
+  // question, and the page's runtime printVersion flag switches the apps to print.
+  // hostScripts are served by the MetEd host rather than the template, and resolveLinks
+  // rewrites author links in the sections for outputs without navmenu.php.
+  protected renderChapterPrintPage(
+    chapter: LessonChapter,
+    homeLink: string,
+    printVersion: boolean,
+    hostScripts: string[] = [],
+    resolveLinks: (sections: string) => string = sections => sections
+  ): string {
+    const templateVariables = this.getTemplateVariables();
+    const units = chapter.pages.map((page, index) => this.toRenderablePage(page, `${index + 1}-0-0`));
+    const tableOfContents = indent(renderTableOfContents(units), 20);
+    const sections = indent(resolveLinks(renderPageSections(units, {
+      printVersion,
+      answerKey: !printVersion,
+      resolveMedia: (id) => this.resolveMedia(id)
+    })), 16);
+    
+    const scriptTags = hostScripts.map(script => `\n    <script src="${script}"></script>`).join('');
+    const contributors = !this.hasContributorsPage();
+
+    return `<!doctype html>
 <html lang="${this.getLangCode()}">
 <head>
     <title>${templateVariables.lessonTitle}</title>
@@ -179,8 +229,7 @@ $mm = new MediaItemManager();
     <script src="jquery/jquery-plugins.min.js"></script>
     <script src="bootstrap/js/bootstrap.min.js"></script>
     <script src="modernizr/modernizr.min.js"></script>
-    <link rel="stylesheet" type="text/css" media="print" href="css/module-print.css">
-    <script src="jquery/defaults.js"></script>
+    <link rel="stylesheet" type="text/css" media="print" href="css/module-print.css">${scriptTags}
 <!-- =CORE TAGS END= -->
     <script>
     var printVersion = true;
@@ -193,7 +242,7 @@ $mm = new MediaItemManager();
     <main id="module-wrapper" class="container">
         <div class="row">
             <header id="module-topbanner">
-                <a id="module-title" class="module-title-text" href="index.htm">${page.title}</a>
+                <a id="module-title" class="module-title-text" href="${homeLink}">${templateVariables.lessonTitle}</a>
                 <h3 id="module-credit" class="hidden-sm hidden-xs">
                     ${this.getProducedByText()}
                 </h3>
@@ -204,31 +253,23 @@ $mm = new MediaItemManager();
             <!-- TABLE OF CONTENTS ==================================-->
             <nav id="tableofcontents" class="sidebar-toc">
                 <ul class="nav lc-docs-sidenav">
-                    <li><a href="#page_${unitNumber}-0-0">${page.title}</a></li>
-                    <li><a href="#page_contributors">Contributors</a></li>
+${tableOfContents}${contributors ? `
+                    <li><a href="#page_contributors">Contributors</a></li>` : ''}
                 </ul>
             </nav>
 
             <!-- MODULE CONTENT ==================================-->
             <div id="module-content" class="col-md-9">
-                <div class="row unit-header"></div>
-                <section id="page_${unitNumber}-0-0" class="page">
-                    <h3>${page.title}</h3>
-                    
-                    <!-- Unit content will be added here by the content management system -->
-                    <div class="unit-content-placeholder">
-                        <div class="alert alert-info">
-                            <h4>Content Placeholder</h4>
-                            <p>This unit is ready for content to be added through your content management system.</p>
-                            <p><strong>Unit:</strong> ${page.title}</p>
-                        </div>
-                    </div>
-                </section>
-                
+                <div class="row unit-header">
+                    <h2 class="chapter_title">${escapeHtml(chapter.title)}</h2>
+                    <p class="chapter_description">${escapeHtml(chapter.description)}</p>
+                </div>
+${sections}${contributors ? `
+
                 <section id="page_contributors" class="page">
                     <h3>Contributors</h3>
                     <p>Content contributors and acknowledgments will be listed here.</p>
-                </section>
+                </section>` : ''}
             </div>
             <!-- END MODULE CONTENT ==============================-->
         </div>
@@ -271,6 +312,31 @@ $mm = new MediaItemManager();
 </html>`;
   }
 
+  // Page identifiers fall back to the unit position for pages created before ids were assigned
+  protected toRenderablePage(page: LessonPage, fallbackId: string): RenderablePage {
+    const pageId = page.page || fallbackId;
+    const [unit, section] = pageId.split('-');
+
+    return {
+      page: pageId,
+      title: page.title,
+      innerNode: page.innerNode,
+      content: page.contentNodes ?? page.content,
+      children: (page.children || []).map((child, index) => this.toRenderablePage(
+        child,
+        page.level >= 2 ? `${unit}-${section}-${index + 1}` : `${unit}-${index + 1}-0`
+      ))
+    };
+  }
+
+  // Uploaded assets named after a MetEd media id (e.g. 87025.jpg) take precedence;
+  // anything else follows the template's media/graphics/ convention.
+  protected resolveMedia(id: string): string | undefined {
+    const asset = this.assets.find(candidate => candidate.name.replace(/\.[^.]+$/, '') === id);
+    if (asset) return asset.path;
+    return /^[\w-]+$/.test(id) ? `media/graphics/${id}.jpg` : undefined;
+  }
+
   private processTemplateVariables(content: string): string {
     const variables = this.getTemplateVariables();
     
@@ -282,64 +348,59 @@ $mm = new MediaItemManager();
       processedContent = processedContent.replace(regex, String(value));
     });
 
-    // Handle conditional blocks for language
-    processedContent = this.processLanguageConditionals(processedContent);
-    
-    // Handle conditional blocks for template type
-    processedContent = this.processTemplateTypeConditionals(processedContent);
-
-    return processedContent;
+    // Resolve <% if %> blocks for the lesson language, template type and features
+    return this.processConditionals(processedContent);
   }
 
-  private processLanguageConditionals(content: string): string {
-    const lang = this.config.language || 'EN';
-    
-    // Process Spanish conditionals
-    content = content.replace(
-      /<% if \(lessonLang === 'ES'\) \{ %>[\s\S]*?<% } else if \(lessonLang === 'FR'\) \{ %>[\s\S]*?<% } else \{ %>[\s\S]*?<% } %>/g,
-      (_, esContent, frContent, enContent) => {
-        switch (lang) {
-          case 'ES': return esContent.trim();
-          case 'FR': return frContent.trim();
-          default: return enContent.trim();
-        }
-      }
-    );
-
-    // Process simpler conditionals
-    content = content.replace(
-      /<% if \(lessonLang==='ES' \) \{ %>[\s\S]*?<% } else if \(lessonLang==='FR' \) \{ %>[\s\S]*?<% } else \{ %>[\s\S]*?<% } %>/g,
-      (_, esContent, frContent, enContent) => {
-        switch (lang) {
-          case 'ES': return esContent.trim();
-          case 'FR': return frContent.trim();
-          default: return enContent.trim();
-        }
-      }
-    );
+  // Resolves the innermost <% if (...) { %> ... <% } %> blocks first and repeats until
+  // none are left, so blocks nested inside another block's branches work too
+  private processConditionals(content: string): string {
+    const innermostBlock = /<% if \(([^)]*)\) \{ %>((?:(?!<% if )[\s\S])*?)<% } %>/g;
+
+    let previous: string;
+    do {
+      previous = content;
+      content = content.replace(innermostBlock, (_, condition: string, body: string) => this.selectBranch(condition, body));
+    } while (content !== previous);
 
     return content;
   }
 
-  private processTemplateTypeConditionals(content: string): string {
-    content = content.replace(
-      /<% if \(templateType==='multi-print' \|\| templateType==='articulate-shell' \) \{ %>([\s\S]*?)<% } %>/g,
-      (_, conditionalContent) => {
-        return conditionalContent.trim();
-      }
-    );
+  private selectBranch(condition: string, body: string): string {
+    // Splitting on the else markers leaves [content, condition, content, ...]; a plain
+    // `else` has an undefined condition
+    const parts = body.split(/<% } else (?:if \(([^)]*)\) )?\{ %>/);
+    const branches: { condition?: string; content: string }[] = [{ condition, content: parts[0] }];
+    for (let i = 1; i < parts.length; i += 2) {
+      branches.push({ condition: parts[i], content: parts[i + 1] });
+    }
+
+    const branch = branches.find(candidate => candidate.condition === undefined || this.evaluateCondition(candidate.condition));
+    return branch ? branch.content.trim() : '';
+  }
+
+  // Supports what the templates use: `name === 'value'` comparisons joined by ||,
+  // and bare flags such as `narratedSwitch`
+  private evaluateCondition(condition: string): boolean {
+    const variables = this.getTemplateVariables();
 
-    content = content.replace(
-      /<% if \(templateType==='articulate-shell' \) \{ %>([\s\S]*?)<% } else \{ %>([\s\S]*?)<% } %>/g,
-      (_, _articulateContent, regularContent) => {
-        return regularContent.trim();
+    return condition.split('||').some(term => {
+      const comparison = /^\s*(\w+)\s*===\s*['"]([^'"]*)['"]\s*$/.exec(term);
+      if (comparison) {
+        return String(variables[comparison[1]]) === comparison[2];
       }
-    );
+      return Boolean(variables[term.trim()]);
+    });
+  }
 
-    return content;
+  // Lessons converted from a manuscript usually end with their own Contributors page
+  // (6-0-0 in the sample lesson), which then replaces the placeholder section
+  private hasContributorsPage(): boolean {
+    return this.config.chapters.some(chapter => flattenPages(chapter.pages)
+      .some(page => /^(contributors|colaboradores|contributeurs)$/i.test(page.title.trim())));
   }
 
-  private getTemplateVariables(): Record<string, string | number> {
+  protected getTemplateVariables(): Record<string, string | number | boolean> {
     const currentYear = new Date().getFullYear();
     
     return {
@@ -348,55 +409,69 @@ $mm = new MediaItemManager();
       lessonKeys: this.config.keywords || 'meteorology, education, training',
       lessonID: this.config.lessonId || 0,
       lessonPath: '/', // Default path
-      copyrightYear: currentYear,
-      splashImageCredit: '',
-      lessonLang: this.config.language || 'EN',
-      templateType: 'multi-print'
+      copyrightYear: this.config.customCopyrightYear || currentYear,
+      splashImageCredit: this.config.customCoverImageCredit || '',
+      lessonLang: this.getLessonLang(),
+      templateType: 'multi-print',
+      narratedSwitch: this.config.includeNarratedTextSwitch,
+      // Multi-chapter lessons open on the chapter list instead of the first chapter
+      lessonLink: this.config.chapters.length > 1 ? 'table_of_contents.php' : 'navmenu.php'
     };
   }
 
-  private getLangCode(): string {
+  // The Basic Information step stores the language name; the templates compare codes
+  protected getLessonLang(): string {
     switch (this.config.language) {
+      case 'Spanish':
+      case 'ES': return 'ES';
+      case 'French':
+      case 'FR': return 'FR';
+      default: return 'EN';
+    }
+  }
+
+  protected getLangCode(): string {
+    switch (this.getLessonLang()) {
       case 'ES': return 'es';
       case 'FR': return 'fr';
       default: return 'en';
     }
   }
 
-  private getProducedByText(): string {
-    switch (this.config.language) {
+  protected getProducedByText(): string {
+    switch (this.getLessonLang()) {
       case 'ES': return 'Producido por The COMET® Program';
       case 'FR': return 'Produit par le programme COMET®';
       default: return 'Produced by The COMET&reg; Program';
     }
   }
 
-  private getAllRightsReservedText(): string {
-    switch (this.config.language) {
+  protected getAllRightsReservedText(): string {
+    switch (this.getLessonLang()) {
       case 'ES': return 'Reservados todos los derechos.';
       case 'FR': return 'Tous droits réservés.';
       default: return 'All Rights Reserved.';
     }
   }
 
-  private getLegalNoticesText(): string {
-    switch (this.config.language) {
+  protected getLegalNoticesText(): string {
+    switch (this.getLessonLang()) {
       case 'ES': return 'Avisos legales';
       case 'FR': return 'Mentions juridiques';
       default: return 'Legal notices';
     }
   }
 
-  private getLegalNoticesUrl(): string {
-    switch (this.config.language) {
+  protected getLegalNoticesUrl(): string {
+    switch (this.getLessonLang()) {
       case 'ES': return 'https://meted.ucar.edu/legal_es.htm';
       case 'FR': return 'https://meted.ucar.edu/legal.htm';
       default: return 'https://meted.ucar.edu/legal.htm';
     }
   }
 
-  private getBackToTopText(): string {
-    switch (this.config.language) {
+  protected getBackToTopText(): string {
+    switch (this.getLessonLang()) {
       case 'ES': return 'Arriba';
       case 'FR': return 'Haut de la page';
       default: return 'Back to Top';
@@ -1,6 +1,7 @@
 import JSZip from 'jszip'
 import { saveAs } from 'file-saver'
 import type { LessonConfig, AssetFile } from '../types/lesson'
+import { getLessonUnits } from './chapters'
 
 // Main function to generate a complete lesson package
 export async function generateLessonPackage(config: LessonConfig, assets: AssetFile[]): Promise<Blob> {
@@ -72,11 +73,12 @@ async function generateTemplateFiles(zip: JSZip, config: LessonConfig) {
 }
 
 function generateIndexHTML(config: LessonConfig): string {
-  const pageNavigation = config.pages.length > 0 ? `
+  const pages = getLessonUnits(config)
+  const pageNavigation = pages.length > 0 ? `
                 <div class="lesson-navigation">
                     <h3>Lesson Contents</h3>
                     <ul class="lesson-menu">
-                        ${config.pages.map((page, index) => `
+                        ${pages.map((page, index) => `
                         <li><a href="page${index + 1}.htm">${page.title}</a></li>
                         `).join('')}
                     </ul>
@@ -263,7 +265,8 @@ if (isset($_GET['file'])) {
 }
 
 function generatePrintPHP(config: LessonConfig): string {
-  const pageBreaks = config.pages.map((page) => `
+  const pages = getLessonUnits(config)
+  const pageBreaks = pages.map((page) => `
         <div class="page-break">
             <h2>${page.title}</h2>
             <div>
@@ -324,7 +327,8 @@ $version = "${config.version}";
 }
 
 function generateNavMenu(config: LessonConfig): string {
-  const pageLinks = config.pages.map((page, index) => `
+  const pages = getLessonUnits(config)
+  const pageLinks = pages.map((page, index) => `
         <li><a href="page${index + 1}.htm">${page.title}</a></li>
         `).join('')
 
@@ -478,12 +482,13 @@ ${customStyles}`
 }
 
 async function generateContentPages(zip: JSZip, config: LessonConfig) {
-  config.pages.forEach((page, index) => {
+  const pages = getLessonUnits(config)
+  pages.forEach((page, index) => {
     const pageNumber = index + 1
     const fileName = `page${pageNumber}.htm`
     
     const prevLink = pageNumber > 1 ? `<a href="page${pageNumber - 1}.htm" class="nav-prev">&laquo; Previous</a>` : '<span></span>'
-    const nextLink = pageNumber < config.pages.length ? `<a href="page${pageNumber + 1}.htm" class="nav-next">Next &raquo;</a>` : '<span></span>'
+    const nextLink = pageNumber < pages.length ? `<a href="page${pageNumber + 1}.htm" class="nav-next">Next &raquo;</a>` : '<span></span>'
     
     const bootstrapCSS = config.useBootstrap ? '<link href="css/bootstrap.min.css" rel="stylesheet">' : ''
     const bootstrapJS = config.useBootstrap ? '<script src="js/bootstrap.min.js"></script>' : ''
@@ -510,7 +515,7 @@ async function generateContentPages(zip: JSZip, config: LessonConfig) {
         
         <nav class="lesson-nav">
             ${prevLink}
-            <span class="nav-info">Page ${pageNumber} of ${config.pages.length}</span>
+            <span class="nav-info">Page ${pageNumber} of ${pages.length}</span>
             ${nextLink}
         </nav>
         
@@ -0,0 +1,97 @@
+import type { ListGlyph, ListItemNode, ListSetNode } from '../types/content';
+import { indent } from './html';
+import { formatInlineText } from './inlineFormatter';
+
+interface ListBlock {
+  tag: 'ul' | 'ol';
+  glyph: string;
+  level: number;
+  items: ListEntry[];
+}
+
+interface ListEntry {
+  html: string;
+  nested: ListBlock[];
+}
+
+// Glyph names follow the Google Docs GlyphType enum used by the conversion workflow
+const GLYPH_STYLES: Record<ListGlyph, { tag: 'ul' | 'ol'; listStyle?: string }> = {
+  BULLET: { tag: 'ul' },
+  HOLLOW_BULLET: { tag: 'ul', listStyle: 'circle' },
+  SQUARE_BULLET: { tag: 'ul', listStyle: 'square' },
+  NUMBER: { tag: 'ol' },
+  LATIN_UPPER: { tag: 'ol', listStyle: 'upper-alpha' },
+  LATIN_LOWER: { tag: 'ol', listStyle: 'lower-alpha' },
+  ROMAN_UPPER: { tag: 'ol', listStyle: 'upper-roman' },
+  ROMAN_LOWER: { tag: 'ol', listStyle: 'lower-roman' }
+};
+
+// Renders a run of consecutive listSet nodes. The content JSON stores each
+// indentation level as its own listSet, so a deeper level is folded into the last
+// item of the list above it and a same-level, same-glyph set continues that list.
+export function renderListSets(lists: ListSetNode[]): string {
+  const roots: ListBlock[] = [];
+  const open: ListBlock[] = [];
+
+  for (const list of lists) {
+    const level = list.level ?? 0;
+    const items = list.content.map(renderListItem);
+
+    while (open.length > 0 && open[open.length - 1].level > level) {
+      open.pop();
+    }
+
+    const current = open[open.length - 1];
+    if (current && current.level === level) {
+      if (current.glyph === list.glyph) {
+        current.items.push(...items);
+        continue;
+      }
+      open.pop();
+    }
+
+    const block: ListBlock = { tag: getGlyphStyle(list.glyph).tag, glyph: list.glyph, level, items };
+    const parent = open[open.length - 1];
+    const parentItem = parent?.items[parent.items.length - 1];
+
+    if (parentItem) {
+      parentItem.nested.push(block);
+    } else {
+      roots.push(block);
+    }
+    open.push(block);
+  }
+
+  return roots.map(renderListBlock).join('\n');
+}
+
+// Unknown glyphs fall back to a plain bulleted list
+export function getGlyphStyle(glyph: string): { tag: 'ul' | 'ol'; listStyle?: string } {
+  return GLYPH_STYLES[glyph as ListGlyph] ?? GLYPH_STYLES.BULLET;
+}
+
+function renderListItem(item: ListItemNode): ListEntry {
+  return { html: formatInlineText(item.content.content), nested: [] };
+}
+
+function renderListBlock(block: ListBlock): string {
+  const { listStyle } = getGlyphStyle(block.glyph);
+  const style = listStyle ? ` style="list-style-type: ${listStyle};"` : '';
+
+  const items = block.items.map(item => {
+    if (item.nested.length === 0) {
+      return `<li>${item.html}</li>`;
+    }
+    return [
+      `<li>${item.html}`,
+      indent(item.nested.map(renderListBlock).join('\n'), 4),
+      '</li>'
+    ].join('\n');
+  });
+
+  return [
+    `<${block.tag}${style}>`,
+    indent(items.join('\n'), 4),
+    `</${block.tag}>`
+  ].join('\n');
+}
@@ -0,0 +1,254 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { ContentNode, ListGlyph, ListSetNode, SelectQuestionNode, TableNode, TextMark, TextNode } from '../types/content';
+import type { LessonChapter, LessonConfig, LessonPage } from '../types/lesson';
+import { getTextMarks } from './inlineFormatter';
+import { INNER_NODE_ATTRIBUTE } from './markdownImporter';
+import { BLANK_PATTERN } from './questionRenderer';
+
+// Inline HTML for the marks Markdown has no syntax for
+const HTML_MARKS: [TextMark, string][] = [
+  ['underline', 'u'],
+  ['superscript', 'sup'],
+  ['subscript', 'sub']
+];
+
+const LIST_INDENT = '    ';
+
+// Writes a chapter's page tree as Markdown in the dialect markdownImporter reads, so
+// exported files import back into the same content nodes
+export function exportMarkdown(config: LessonConfig, chapter: LessonChapter): string {
+  const blocks: string[] = [];
+  const title = config.lessonTitle.trim();
+  if (title) {
+    blocks.push(`---\ntitle: ${title}\n---`);
+  }
+
+  const visit = (page: LessonPage, level: number) => {
+    const inner = page.innerNode ? ` ${INNER_NODE_ATTRIBUTE}` : '';
+    blocks.push(`${'#'.repeat(level)} ${escapeText(page.title)}${inner}`);
+    // Pages that still hold the HTML scaffold have no structured content to write
+    blocks.push(...renderBlocks(page.contentNodes ?? []));
+    page.children.forEach(child => visit(child, level + 1));
+  };
+  chapter.pages.forEach(page => visit(page, 1));
+
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// One file per chapter, zipped together when there are several, like the content JSON
+export async function downloadMarkdown(config: LessonConfig): Promise<void> {
+  const baseName = `${config.lessonId || 'lesson'}-content`;
+
+  if (config.chapters.length === 1) {
+    const markdown = exportMarkdown(config, config.chapters[0]);
+    saveAs(new Blob([markdown], { type: 'text/markdown' }), `${baseName}.md`);
+    return;
+  }
+
+  const zip = new JSZip();
+  config.chapters.forEach((chapter, index) => {
+    zip.file(`${baseName}_${index + 1}.md`, exportMarkdown(config, chapter));
+  });
+  saveAs(await zip.generateAsync({ type: 'blob' }), `${baseName}-markdown.zip`);
+}
+
+function renderBlocks(nodes: ContentNode[]): string[] {
+  const blocks: string[] = [];
+  let previousList: ListSetNode | undefined;
+
+  for (const node of nodes) {
+    // Lists written on consecutive lines fold into each other on import, so only
+    // deeper levels and changes of list type may continue the previous block
+    if (node.type === 'listSet' && previousList && (node.level !== previousList.level || node.glyph !== previousList.glyph)) {
+      blocks[blocks.length - 1] += `\n${renderListSet(node)}`;
+    } else {
+      blocks.push(renderBlock(node));
+    }
+    previousList = node.type === 'listSet' ? node : undefined;
+  }
+
+  return blocks;
+}
+
+function renderBlock(node: ContentNode): string {
+  switch (node.type) {
+    case 'paragraph':
+      return renderLines(node.content).join('\n');
+    case 'mediaItem':
+      return `![${escapeText(node.caption)}](${encodeUri(node.id)})`;
+    case 'listSet':
+      return renderListSet(node);
+    case 'tab':
+      return renderDirective('tabs', '', node.tabs.map(tab => renderDirective('tab', escapeText(tab.title), renderBlocks(tab.content))));
+    case 'panel':
+      return renderDirective('panel', escapeText(node.title), renderBlocks(node.content));
+    case 'radioQuestion':
+      return renderDirective('question', '', [
+        ...renderBlocks(node.question),
+        node.answers.map((answer, index) => `- [${index + 1 === node.correct ? 'x' : ' '}] ${escapeText(answer)}`).join('\n'),
+        ...renderFeedback(node.feedback)
+      ]);
+    case 'selectQuestion':
+      return renderDirective('dropdowns', '', [
+        ...renderBlocks(node.questionContent),
+        node.questions.map(renderDropdownLine).join('\n'),
+        ...renderFeedback(node.feedback)
+      ]);
+    case 'table':
+      return isPipeTable(node) ? renderPipeTable(node) : renderNodeBlock(node);
+    default:
+      return renderNodeBlock(node);
+  }
+}
+
+function renderInline(runs: TextNode[]): string {
+  const groups: { link?: string; runs: TextNode[] }[] = [];
+  for (const run of runs) {
+    const link = getTextMarks(run).includes('link') ? run.link : undefined;
+    const previous = groups[groups.length - 1];
+    // Neighbouring runs with the same target share one [text](href)
+    if (previous && previous.link === link) {
+      previous.runs.push(run);
+    } else {
+      groups.push({ link, runs: [run] });
+    }
+  }
+
+  return groups.map(group => {
+    const text = group.runs.map(renderRun).join('');
+    return group.link ? `[${text}](${encodeUri(group.link)})` : text;
+  }).join('').replace(/\r\n?|\n/g, '\\\n');
+}
+
+function renderRun(run: TextNode): string {
+  const marks = getTextMarks(run);
+  // Whitespace-only runs and the edges of a run stay outside the markers
+  const [, leading, text, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(run.text) ?? ['', '', run.text, ''];
+  if (!text) return escapeText(run.text);
+
+  let markdown = escapeText(text);
+  for (const [mark, tag] of HTML_MARKS) {
+    // A link's underline is the link styling itself
+    if (marks.includes(mark) && !(mark === 'underline' && marks.includes('link'))) {
+      markdown = `<${tag}>${markdown}</${tag}>`;
+    }
+  }
+  if (marks.includes('italic')) markdown = `*${markdown}*`;
+  if (marks.includes('bold')) markdown = `**${markdown}**`;
+
+  return `${leading}${markdown}${trailing}`;
+}
+
+// Item lines indent four spaces per level below the list they continue
+function renderListSet(list: ListSetNode): string {
+  const indent = LIST_INDENT.repeat(list.level);
+  return list.content.map((item, index) => {
+    // The marker already starts the first line, so only the lines after it need escaping
+    const [first, ...rest] = renderInline(item.content.content).split('\n').map(line => line.trim());
+    const lines = rest.map(line => `${indent}${LIST_INDENT}${escapeLineStart(line)}`);
+    return [`${indent}${getListMarker(list.glyph, index)} ${first}`, ...lines].join('\n');
+  }).join('\n');
+}
+
+function getListMarker(glyph: ListGlyph, index: number): string {
+  switch (glyph) {
+    case 'BULLET': return '-';
+    case 'HOLLOW_BULLET': return '+';
+    case 'SQUARE_BULLET': return '*';
+    case 'NUMBER': return `${index + 1}.`;
+    case 'LATIN_UPPER': return `${toLetters(index)}.`;
+    case 'LATIN_LOWER': return `${toLetters(index).toLowerCase()}.`;
+    case 'ROMAN_UPPER': return `${toRoman(index + 1)}.`;
+    case 'ROMAN_LOWER': return `${toRoman(index + 1).toLowerCase()}.`;
+  }
+}
+
+function toLetters(index: number): string {
+  const letter = String.fromCharCode(65 + (index % 26));
+  return index < 26 ? letter : toLetters(Math.floor(index / 26) - 1) + letter;
+}
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+  ];
+  let remaining = value;
+  return numerals.reduce((roman, [amount, numeral]) => {
+    const count = Math.floor(remaining / amount);
+    remaining -= count * amount;
+    return roman + numeral.repeat(count);
+  }, '');
+}
+
+function renderFeedback(feedback: ContentNode[]): string[] {
+  return feedback.length > 0 ? [renderDirective('feedback', '', renderBlocks(feedback))] : [];
+}
+
+// "?? The sky is [[*blue|green]] today." with the correct answer starred. Dropdowns
+// fill the blanks in order, and any left over go at the end, as questionRenderer places them.
+function renderDropdownLine(question: SelectQuestionNode['questions'][number]): string {
+  const parts = question.question.split(BLANK_PATTERN);
+  const dropdowns = question.dropdowns.map(dropdown => {
+    const answers = dropdown.answers.map((answer, index) => `${index === dropdown.correct ? '*' : ''}${answer.replace(/[\\|\]*]/g, '\\$&')}`);
+    return `[[${answers.join('|')}]]`;
+  });
+
+  const line = parts.map((part, index) => index === 0 ? part : `${dropdowns[index - 1] ?? '_____'}${part}`).join('');
+  const unplaced = dropdowns.slice(parts.length - 1);
+  return `?? ${[line, ...unplaced].join(' ')}`;
+}
+
+// Nested directives get shorter fences, so each block's closing line is unambiguous
+function renderDirective(name: string, title: string, blocks: string[]): string {
+  const body = blocks.join('\n\n');
+  const innerFence = Math.max(2, ...Array.from(body.matchAll(/^(:{3,})/gm), match => match[1].length));
+  const fence = ':'.repeat(innerFence + 1);
+  return [`${fence}${name}${title ? ` ${title}` : ''}`, body, fence].filter(Boolean).join('\n');
+}
+
+// Anything without a Markdown form is kept verbatim as a JSON block
+function renderNodeBlock(node: ContentNode): string {
+  const json = JSON.stringify(node, null, 2);
+  const fence = '`'.repeat(Math.max(3, ...Array.from(json.matchAll(/`+/g), match => match[0].length + 1)));
+  return `${fence}json node\n${json}\n${fence}`;
+}
+
+// Pipe tables need a header row and cells of one line of text at most
+function isPipeTable(table: TableNode): boolean {
+  return table.header && table.rows.every(row => row.every(cell =>
+    cell.content.length === 0 ||
+    (cell.content.length === 1 && cell.content[0].type === 'paragraph' && !cell.content[0].content.some(run => run.text.includes('\n')))
+  ));
+}
+
+function renderPipeTable(table: TableNode): string {
+  const rows = table.rows.map(row => `| ${row.map(cell => {
+    const [paragraph] = cell.content;
+    return paragraph?.type === 'paragraph' ? renderInline(paragraph.content).replace(/\|/g, '\\|') : '';
+  }).join(' | ')} |`);
+  const separator = `| ${table.rows[0].map(() => '---').join(' | ')} |`;
+  return [rows[0], separator, ...rows.slice(1)].join('\n');
+}
+
+// Paragraph text split at its line breaks, each line safe to start a Markdown line
+function renderLines(runs: TextNode[]): string[] {
+  return renderInline(runs).split('\n').map(line => escapeLineStart(line.trim()));
+}
+
+// Spaces, brackets and "%" would end or garble a Markdown link target
+function encodeUri(uri: string): string {
+  return uri.replace(/[%()\s]/g, encodeURIComponent);
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]<]/g, '\\$&');
+}
+
+// Text that would otherwise start a heading, list, fence, table or question line
+function escapeLineStart(markdown: string): string {
+  return markdown
+    .replace(/^(#|>|\||:|~|\?\?|[-+] )/, '\\$1')
+    .replace(/^(\d+|[A-Za-z]+)([.)]) /, '$1\\$2 ');
+}
@@ -0,0 +1,600 @@
+import type {
+  ContentMenuItem,
+  ContentNode,
+  LessonContent,
+  ListGlyph,
+  ListSetNode,
+  RadioQuestionNode,
+  SelectQuestionNode,
+  TableCell,
+  TextMark,
+  TextNode
+} from '../types/content';
+import { numberMenu } from './contentImporter';
+
+// Trailing heading attribute for pages shown inside their parent ("## Title {.inner}")
+export const INNER_NODE_ATTRIBUTE = '{.inner}';
+
+const MARK_ORDER: TextMark[] = ['bold', 'italic', 'underline', 'superscript', 'subscript'];
+
+// Inline HTML tags accepted for the marks Markdown has no syntax for
+const TAG_MARKS: Record<string, TextMark> = {
+  u: 'underline',
+  sup: 'superscript',
+  sub: 'subscript',
+  strong: 'bold',
+  b: 'bold',
+  em: 'italic',
+  i: 'italic'
+};
+
+const BULLET_GLYPHS: Record<string, ListGlyph> = {
+  '-': 'BULLET',
+  '+': 'HOLLOW_BULLET',
+  '*': 'SQUARE_BULLET'
+};
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const DIRECTIVE_OPEN_PATTERN = /^\s*:{3,}\s*([A-Za-z]+)\s*(.*?)\s*$/;
+const DIRECTIVE_CLOSE_PATTERN = /^\s*:{3,}\s*$/;
+const CODE_FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*(.*?)\s*$/;
+const IMAGE_PATTERN = /^\s*!\[((?:\\.|[^\]\\])*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-+*]|\d+[.)]|[A-Za-z]+[.)])\s+(.*)$/;
+const TASK_ITEM_PATTERN = /^\s*[-+*]\s+\[([ xX])\]\s+(.*)$/;
+const DROPDOWN_LINE_PATTERN = /^\s*\?\?\s+(.*)$/;
+const TABLE_ROW_PATTERN = /^\s*\|/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const IMAGE_EXTENSION_PATTERN = /\.(?:jpe?g|png|gif|svg|webp)$/i;
+
+interface ParserState {
+  lines: string[];
+  index: number;
+}
+
+interface ListLine {
+  indent: number;
+  marker: string;
+  text: string;
+}
+
+interface ListLevel {
+  indent: number;
+  glyph?: ListGlyph;
+  value?: string; // Marker of the last item at this level, without its "." or ")"
+}
+
+// Reads the Markdown dialect markdownExporter writes into the content JSON model:
+// "#", "##" and "###" headings are level 1-3 pages, and the structured blocks the
+// MetEd templates use are written as ":::" directives:
+//
+//   :::tabs                  :::question               :::dropdowns
+//   ::::tab First tab        Which one?                ?? The sky is [[*blue|green]].
+//   Text                     - [x] Right answer        ::::feedback
+//   ::::                     - [ ] Wrong answer        Blue, mostly.
+//   :::                      :::                       ::::
+//                                                      :::
+//
+// Anything else the model holds comes through as a ```json node block. Errors name
+// the line they were found on.
+export function importMarkdown(markdown: string): LessonContent {
+  const state: ParserState = { lines: markdown.replace(/\r\n?/g, '\n').split('\n'), index: 0 };
+  const title = readFrontMatter(state);
+
+  const menu: ContentMenuItem[] = [];
+  const open: ContentMenuItem[] = [];
+
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    const heading = HEADING_PATTERN.exec(line);
+
+    if (heading && heading[1].length <= 3) {
+      const level = heading[1].length;
+      if (level > open.length + 1) {
+        throw lineError(state, `"${heading[1]}" heading has no "${'#'.repeat(level - 1)}" heading above it`);
+      }
+
+      let pageTitle = heading[2];
+      const innerNode = pageTitle.endsWith(INNER_NODE_ATTRIBUTE);
+      if (innerNode) pageTitle = pageTitle.slice(0, -INNER_NODE_ATTRIBUTE.length).trimEnd();
+
+      const page: ContentMenuItem = { page: '', title: getPlainText(pageTitle), children: [], innerNode, content: [] };
+      open.length = level - 1;
+      (open[level - 2]?.children ?? menu).push(page);
+      open.push(page);
+      state.index++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      state.index++;
+      continue;
+    }
+
+    const page = open[open.length - 1];
+    if (!page) {
+      throw lineError(state, 'content must come after a "#" heading');
+    }
+    page.content.push(...parseBlock(state));
+  }
+
+  return { title, menu: numberMenu(menu) };
+}
+
+// "---\ntitle: Lesson title\n---" at the very top of the file
+function readFrontMatter(state: ParserState): string | undefined {
+  if (state.lines[0]?.trim() !== '---') return undefined;
+
+  const end = state.lines.indexOf('---', 1);
+  if (end === -1) {
+    throw lineError(state, 'front matter is missing its closing "---"');
+  }
+
+  let title: string | undefined;
+  for (const line of state.lines.slice(1, end)) {
+    const match = /^title:\s*(.*?)\s*$/.exec(line);
+    if (match) title = match[1].replace(/^(["'])(.*)\1$/, '$2');
+  }
+  state.index = end + 1;
+  return title;
+}
+
+// Blocks up to the closing ":::" of the directive being read
+function parseDirectiveBody(state: ParserState, name: string, readLine?: (line: string) => boolean): ContentNode[] {
+  const start = state.index - 1;
+  const nodes: ContentNode[] = [];
+
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+
+    if (DIRECTIVE_CLOSE_PATTERN.test(line)) {
+      state.index++;
+      return nodes;
+    }
+    if (!line.trim()) {
+      state.index++;
+      continue;
+    }
+    if (readLine?.(line)) continue;
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading && heading[1].length <= 3) {
+      throw lineError(state, `page headings can't be used inside a ":::${name}" block`);
+    }
+    nodes.push(...parseBlock(state));
+  }
+
+  throw new Error(`Line ${start + 1}: ":::${name}" block is never closed`);
+}
+
+function parseBlock(state: ParserState): ContentNode[] {
+  const line = state.lines[state.index];
+
+  if (DIRECTIVE_CLOSE_PATTERN.test(line)) {
+    throw lineError(state, '":::" closes a block that was never opened');
+  }
+
+  const directive = DIRECTIVE_OPEN_PATTERN.exec(line);
+  if (directive) {
+    state.index++;
+    return [parseDirective(state, directive[1], directive[2])];
+  }
+
+  const fence = CODE_FENCE_PATTERN.exec(line);
+  if (fence) {
+    return [parseFencedBlock(state, fence[1], fence[2])];
+  }
+
+  const image = IMAGE_PATTERN.exec(line);
+  if (image) {
+    state.index++;
+    return [{ type: 'mediaItem', id: getMediaId(image[2]), caption: getPlainText(image[1]) }];
+  }
+
+  const heading = HEADING_PATTERN.exec(line);
+  if (heading) {
+    // Below the three page levels, headings are kept as bold text
+    state.index++;
+    return [{ type: 'paragraph', content: parseInline(heading[2], ['bold']) }];
+  }
+
+  if (TABLE_ROW_PATTERN.test(line)) {
+    return [parseTable(state)];
+  }
+
+  const listItem = LIST_ITEM_PATTERN.exec(line);
+  if (listItem && isListStart(listItem[2])) {
+    return parseList(state);
+  }
+
+  return [{ type: 'paragraph', content: parseInline(readParagraphLines(state)) }];
+}
+
+function parseDirective(state: ParserState, name: string, title: string): ContentNode {
+  switch (name) {
+    case 'tabs': {
+      const tabs: { title: string; content: ContentNode[] }[] = [];
+      parseDirectiveBody(state, name, line => {
+        const tab = DIRECTIVE_OPEN_PATTERN.exec(line);
+        if (tab?.[1] !== 'tab') {
+          throw lineError(state, '":::tabs" blocks can only hold ":::tab" blocks');
+        }
+        state.index++;
+        tabs.push({ title: getPlainText(tab[2]), content: parseDirectiveBody(state, 'tab') });
+        return true;
+      });
+      return { type: 'tab', tabs };
+    }
+    case 'panel':
+      return { type: 'panel', title: getPlainText(title), content: parseDirectiveBody(state, name) };
+    case 'question':
+      return parseRadioQuestion(state);
+    case 'dropdowns':
+      return parseSelectQuestion(state);
+    default:
+      throw lineError(state, `unknown block ":::${name}"`, -1);
+  }
+}
+
+// Answers are task items with the correct one checked
+function parseRadioQuestion(state: ParserState): RadioQuestionNode {
+  const answers: string[] = [];
+  let correct = 0;
+  let feedback: ContentNode[] = [];
+
+  const question = parseDirectiveBody(state, 'question', line => {
+    const answer = TASK_ITEM_PATTERN.exec(line);
+    if (answer) {
+      if (answer[1] !== ' ') {
+        if (correct) throw lineError(state, 'a question can only have one correct answer');
+        correct = answers.length + 1;
+      }
+      answers.push(getPlainText(answer[2]));
+      state.index++;
+      return true;
+    }
+    return readFeedback(state, line, content => { feedback = content; });
+  });
+
+  if (!correct) {
+    throw lineError(state, 'question has no correct answer checked ("- [x] Answer")', -1);
+  }
+  return { type: 'radioQuestion', question, answers, correct, feedback };
+}
+
+// Each "??" line is one question, with its dropdowns written inline as [[*right|wrong]]
+function parseSelectQuestion(state: ParserState): SelectQuestionNode {
+  const questions: SelectQuestionNode['questions'] = [];
+  let feedback: ContentNode[] = [];
+
+  const questionContent = parseDirectiveBody(state, 'dropdowns', line => {
+    const dropdownLine = DROPDOWN_LINE_PATTERN.exec(line);
+    if (dropdownLine) {
+      questions.push(parseDropdownLine(state, dropdownLine[1]));
+      state.index++;
+      return true;
+    }
+    return readFeedback(state, line, content => { feedback = content; });
+  });
+
+  return { type: 'selectQuestion', questionContent, questions, feedback };
+}
+
+function parseDropdownLine(state: ParserState, line: string): SelectQuestionNode['questions'][number] {
+  const dropdowns: SelectQuestionNode['questions'][number]['dropdowns'] = [];
+
+  const question = line.replace(/\[\[((?:\\.|[^\]\\])*)\]\]/g, (_, options: string) => {
+    const answers = options.split(/(?<!\\)\|/).map(option => option.trim());
+    const correct = answers.findIndex(answer => answer.startsWith('*'));
+    if (correct === -1) {
+      throw lineError(state, `dropdown [[${options}]] has no correct answer marked with "*"`);
+    }
+    dropdowns.push({
+      answers: answers.map(answer => unescapeText(answer.replace(/^\*/, ''))),
+      correct
+    });
+    return '_____';
+  });
+
+  return { question, dropdowns };
+}
+
+function readFeedback(state: ParserState, line: string, setFeedback: (content: ContentNode[]) => void): boolean {
+  if (DIRECTIVE_OPEN_PATTERN.exec(line)?.[1] !== 'feedback') return false;
+  state.index++;
+  setFeedback(parseDirectiveBody(state, 'feedback'));
+  return true;
+}
+
+// ```json node blocks hold a content node verbatim; other code blocks keep their text
+function parseFencedBlock(state: ParserState, fence: string, info: string): ContentNode {
+  const start = state.index;
+  const end = state.lines.findIndex((line, index) => index > start && line.trim().startsWith(fence) && !line.trim().slice(fence.length).trim());
+  if (end === -1) {
+    throw lineError(state, 'code block is never closed');
+  }
+
+  const body = state.lines.slice(start + 1, end).join('\n');
+  state.index = end + 1;
+
+  if (info !== 'json node') {
+    return { type: 'paragraph', content: [{ type: 'text', text: body }] };
+  }
+  try {
+    return JSON.parse(body) as ContentNode;
+  } catch (error) {
+    throw new Error(`Line ${start + 1}: JSON block could not be read (${error instanceof Error ? error.message : String(error)})`);
+  }
+}
+
+function parseTable(state: ParserState): ContentNode {
+  const lines: string[] = [];
+  while (state.index < state.lines.length && TABLE_ROW_PATTERN.test(state.lines[state.index])) {
+    lines.push(state.lines[state.index]);
+    state.index++;
+  }
+
+  const header = lines.length > 1 && TABLE_SEPARATOR_PATTERN.test(lines[1]);
+  const rows = (header ? [lines[0], ...lines.slice(2)] : lines).map(line => line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell): TableCell => {
+      const text = cell.trim().replace(/\\\|/g, '|');
+      return { content: text ? [{ type: 'paragraph', content: parseInline(text) }] : [] };
+    }));
+
+  return { type: 'table', header, rows };
+}
+
+// Each indentation level is its own listSet, as in the content JSON, so a nested
+// list splits its parent into the sets before and after it
+function parseList(state: ParserState): ListSetNode[] {
+  const items: ListLine[] = [];
+
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    const item = LIST_ITEM_PATTERN.exec(line);
+    const previous = items[items.length - 1];
+
+    // Checked answers belong to the question around the list
+    if (item && (items.length === 0 || !TASK_ITEM_PATTERN.test(line))) {
+      items.push({ indent: getIndent(item[1]), marker: item[2], text: item[3] });
+    } else if (previous && line.trim() && getIndent(line) > previous.indent) {
+      // Indented lines without a marker continue the item above
+      previous.text += `${endsWithBreak(previous.text) ? '\n' : ' '}${line.trim()}`;
+    } else {
+      break;
+    }
+    state.index++;
+  }
+
+  const sets: ListSetNode[] = [];
+  const levels: ListLevel[] = [];
+
+  for (const item of items) {
+    // A list opening on an indented item continues a list above it, four spaces a level
+    if (levels.length === 0) {
+      levels.push(...Array.from({ length: Math.floor(item.indent / 4) }, (_, level) => ({ indent: level * 4 })));
+    }
+    while (levels.length > 0 && levels[levels.length - 1].indent > item.indent) {
+      levels.pop();
+    }
+    if (levels.length === 0 || levels[levels.length - 1].indent < item.indent) {
+      levels.push({ indent: item.indent });
+    }
+    const level = levels.length - 1;
+    const value = item.marker.replace(/[.)]$/, '');
+    const glyph = getListGlyph(value, levels[level]);
+    levels[level] = { ...levels[level], glyph, value };
+
+    const current = sets[sets.length - 1];
+    const listItem = { type: 'listItem' as const, content: { type: 'paragraph' as const, content: parseInline(item.text) } };
+    if (current && current.level === level && current.glyph === glyph) {
+      current.content.push(listItem);
+    } else {
+      sets.push({ type: 'listSet', glyph, level, content: [listItem] });
+    }
+  }
+
+  return sets;
+}
+
+// Leading whitespace width, with tabs as four spaces
+function getIndent(line: string): number {
+  return (/^\s*/.exec(line)?.[0] ?? '').replace(/\t/g, '    ').length;
+}
+
+// Lists start with a bullet, a number, a letter or a Roman numeral, so prose like
+// "Mr. Smith" stays a paragraph. Later items may carry any marker ("AA.").
+function isListStart(marker: string): boolean {
+  return /^([-+*]|\d+[.)]|[A-Za-z][.)]|[ivxlcdm]+[.)]|[IVXLCDM]+[.)])$/.test(marker);
+}
+
+// Ordered lists are numbered "1.", "A.", "a.", "I." or "i." from their first item.
+// Letters that are also Roman numerals ("C.", "i.") continue the lettering of the
+// item before them, and are Roman numerals otherwise.
+function getListGlyph(value: string, previous: ListLevel): ListGlyph {
+  if (BULLET_GLYPHS[value]) return BULLET_GLYPHS[value];
+  if (/^\d+$/.test(value)) return 'NUMBER';
+
+  const upper = value === value.toUpperCase();
+  const latin: ListGlyph = upper ? 'LATIN_UPPER' : 'LATIN_LOWER';
+  const roman: ListGlyph = upper ? 'ROMAN_UPPER' : 'ROMAN_LOWER';
+  if (!/^[ivxlcdm]+$/i.test(value)) return latin;
+  if (previous.glyph === roman) return roman;
+
+  const followsLetter = previous.glyph === latin && previous.value?.length === 1 && value.length === 1 &&
+    value.charCodeAt(0) === previous.value.charCodeAt(0) + 1;
+  if (followsLetter) return latin;
+  return value.length === 1 && value.toLowerCase() !== 'i' ? latin : roman;
+}
+
+// Consecutive lines up to a blank line or the start of another block. A trailing
+// backslash keeps the line break; other line breaks are spaces.
+function readParagraphLines(state: ParserState): string {
+  let text = state.lines[state.index].trim();
+  state.index++;
+
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    if (!line.trim() || startsBlock(line)) break;
+    text += `${endsWithBreak(text) ? '\n' : ' '}${line.trim()}`;
+    state.index++;
+  }
+
+  return text;
+}
+
+function startsBlock(line: string): boolean {
+  return [HEADING_PATTERN, DIRECTIVE_OPEN_PATTERN, DIRECTIVE_CLOSE_PATTERN, CODE_FENCE_PATTERN, IMAGE_PATTERN, TABLE_ROW_PATTERN, DROPDOWN_LINE_PATTERN]
+    .some(pattern => pattern.test(line)) || isListStart(LIST_ITEM_PATTERN.exec(line)?.[2] ?? '');
+}
+
+// An odd number of trailing backslashes; an even number is an escaped backslash
+function endsWithBreak(text: string): boolean {
+  return /(^|[^\\])(\\\\)*\\$/.test(text);
+}
+
+function parseInline(text: string, baseMarks: TextMark[] = [], link?: string): TextNode[] {
+  const runs: TextNode[] = [];
+  const marks = new Set<TextMark>(baseMarks);
+  let buffer = '';
+
+  const flush = () => {
+    if (!buffer) return;
+    const ordered = MARK_ORDER.filter(mark => marks.has(mark) && !(link && mark === 'underline'));
+    // Links come out as ["link", "underline"], the way the conversion workflow writes them
+    const type = link ? ['link', 'underline', ...ordered] as TextMark[] : ordered;
+    runs.push(type.length > 0 ? { type, text: buffer, ...(link ? { link } : {}) } : { type: 'text', text: buffer });
+    buffer = '';
+  };
+  const toggle = (mark: TextMark) => {
+    flush();
+    if (marks.has(mark)) marks.delete(mark); else marks.add(mark);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const rest = text.slice(index);
+    const char = text[index];
+
+    if (char === '\\') {
+      if (rest === '\\' || rest.startsWith('\\\n')) {
+        buffer += '\n';
+        index += rest === '\\' ? 1 : 2;
+      } else if (/^\\[!-/:-@[-`{-~]/.test(rest)) {
+        buffer += rest[1];
+        index += 2;
+      } else {
+        buffer += char;
+        index++;
+      }
+      continue;
+    }
+
+    const delimiter = /^(\*\*|__|\*|_)/.exec(rest)?.[1];
+    if (delimiter && canToggle(text, index, delimiter, marks.has(delimiter.length === 2 ? 'bold' : 'italic'))) {
+      toggle(delimiter.length === 2 ? 'bold' : 'italic');
+      index += delimiter.length;
+      continue;
+    }
+
+    const tag = /^<(\/?)([a-z]+)\s*\/?>/i.exec(rest);
+    if (tag && tag[2].toLowerCase() === 'br') {
+      buffer += '\n';
+      index += tag[0].length;
+      continue;
+    }
+    const tagMark = tag ? TAG_MARKS[tag[2].toLowerCase()] : undefined;
+    if (tag && tagMark) {
+      flush();
+      if (tag[1]) marks.delete(tagMark); else marks.add(tagMark);
+      index += tag[0].length;
+      continue;
+    }
+
+    const autolink = /^<((?:https?:|mailto:)[^\s>]+)>/i.exec(rest);
+    if (autolink) {
+      flush();
+      runs.push(...parseInline(autolink[1].replace(/[\\*_<]/g, '\\$&'), [...marks], autolink[1]));
+      index += autolink[0].length;
+      continue;
+    }
+
+    const anchor = char === '[' ? readLink(rest) : undefined;
+    if (anchor) {
+      flush();
+      runs.push(...parseInline(anchor.text, [...marks], anchor.href));
+      index += anchor.length;
+      continue;
+    }
+
+    buffer += char;
+    index++;
+  }
+  flush();
+
+  return runs;
+}
+
+// Opening markers need a closing one later on, and underscores inside words
+// ("file_name") are text
+function canToggle(text: string, index: number, delimiter: string, closing: boolean): boolean {
+  const before = text[index - 1] ?? ' ';
+  const after = text[index + delimiter.length] ?? ' ';
+
+  if (delimiter[0] === '_' && (closing ? /\w/.test(after) : /\w/.test(before))) return false;
+  if (closing) return !/\s/.test(before);
+  return !/\s/.test(after) && findUnescaped(text, delimiter, index + delimiter.length) !== -1;
+}
+
+function findUnescaped(text: string, search: string, from: number): number {
+  for (let index = from; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text.startsWith(search, index)) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+// "[text](href)", with brackets in the text escaped
+function readLink(text: string): { text: string; href: string; length: number } | undefined {
+  const close = findUnescaped(text, '](', 1);
+  if (close === -1) return undefined;
+
+  const end = text.indexOf(')', close + 2);
+  if (end === -1) return undefined;
+
+  const href = text.slice(close + 2, end).trim().replace(/^<(.*)>$/, '$1');
+  return { text: text.slice(1, close), href: decodeUri(href), length: end + 1 };
+}
+
+// "assets/images/satellite_view.jpg" and "satellite_view" both name the asset satellite_view
+function getMediaId(source: string): string {
+  const fileName = decodeUri(source.slice(source.lastIndexOf('/') + 1));
+  return fileName.replace(IMAGE_EXTENSION_PATTERN, '');
+}
+
+// The exporter percent-encodes spaces and brackets; a stray "%" is kept as written
+function decodeUri(uri: string): string {
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    return uri;
+  }
+}
+
+function getPlainText(text: string): string {
+  return parseInline(text).map(run => run.text).join('');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
+function lineError(state: ParserState, message: string, offset = 0): Error {
+  return new Error(`Line ${state.index + offset + 1}: ${message}`);
+}
@@ -0,0 +1,279 @@
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import type { AssetFile, LessonChapter, LessonConfig, LessonPage } from '../types/lesson';
+import { IMAGE_TYPES } from './docxImporter';
+import { outdent } from './html';
+import { MAX_PAGE_LEVEL } from './pageTree';
+import { renumberPages } from './pageRenumbering';
+
+// Something in the package that was changed or left out on the way in
+export interface PackageImportIssue {
+  location: string; // File, or chapter and page title, it was found in
+  message: string;
+}
+
+// Lesson settings recovered from index.htm, plus the chapters of the print files
+export type ImportedLessonConfig = Pick<
+  LessonConfig,
+  'lessonTitle' | 'lessonId' | 'language' | 'description' | 'keywords' | 'customCopyrightYear' | 'customCoverImageCredit' | 'chapters'
+>;
+
+export interface PackageImportResult {
+  config: ImportedLessonConfig;
+  assets: AssetFile[];
+  issues: PackageImportIssue[];
+}
+
+// Folders and files the generator copies from the template itself; images there aren't
+// lesson media. assets/ also holds every image the builder adds, under assets/<type>s/.
+const TEMPLATE_DIRECTORIES = ['bootstrap', 'css', 'ie-support', 'jquery', 'modernizr'];
+const TEMPLATE_FILES = ['assets/module-cover.jpg', 'assets/modulename-thumb.jpg'];
+
+// <html lang> -> the Language choices of the Basic Information step
+const LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French'
+};
+
+const PHP_BLOCK_PATTERN = /<\?php[\s\S]*?(\?>|$)/g;
+
+interface PackageContext {
+  zip: JSZip;
+  root: string; // Folder of index.htm inside the zip, with a trailing slash
+  issues: PackageImportIssue[];
+}
+
+// Reads a latest_core_php lesson zip back into the builder: settings from index.htm,
+// one chapter per print file in the order navmenu.inc.php finds them, and pages from
+// each print file's nav#tableofcontents and section[id^=page_] blocks. Page content
+// is kept as the HTML it was published with, and images become assets at the paths
+// that HTML already points to.
+export async function importLatestCorePackage(file: File): Promise<PackageImportResult> {
+  const zip = await JSZip.loadAsync(file);
+
+  const indexPath = Object.keys(zip.files)
+    .filter(path => /(^|\/)index\.htm$/.test(path) && !path.includes('__MACOSX'))
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  if (!indexPath) {
+    throw new Error(`${file.name} is not a latest core lesson package (index.htm is missing)`);
+  }
+
+  const context: PackageContext = { zip, root: indexPath.slice(0, -'index.htm'.length), issues: [] };
+  const printFiles = findPrintFiles(context);
+  if (printFiles.length === 0) {
+    throw new Error(`${file.name} has no print.php file to read pages from`);
+  }
+
+  const index = parseHtml(await readText(context, 'index.htm'));
+  const chapters: LessonChapter[] = [];
+  for (const [position, printFile] of printFiles.entries()) {
+    chapters.push(await readChapter(context, printFile, position + 1));
+  }
+
+  return {
+    config: { ...readSettings(index, context), chapters },
+    assets: await loadImages(context),
+    issues: context.issues
+  };
+}
+
+// navmenu.inc.php treats every print*.php or print*.htm file as a chapter, sorted
+// naturally (print.php, print_2.php, ..., print_10.php)
+function findPrintFiles(context: PackageContext): string[] {
+  const names = Object.keys(context.zip.files)
+    .filter(path => path.startsWith(context.root) && !context.zip.files[path].dir)
+    .map(path => path.slice(context.root.length))
+    .filter(name => !name.includes('/') && name.includes('print') && /\.(php|htm)/.test(name) && !name.includes('._'));
+
+  // The template's own example page isn't part of any lesson
+  if (names.includes('print_sample.php')) {
+    context.issues.push({ location: 'print_sample.php', message: 'The template sample print file was skipped' });
+  }
+
+  return names
+    .filter(name => name !== 'print_sample.php')
+    .sort(compareNatural);
+}
+
+// PHP's SORT_NATURAL: runs of digits compare as numbers, everything else by character code
+function compareNatural(a: string, b: string): number {
+  const chunksA = a.match(/\d+|\D+/g) ?? [];
+  const chunksB = b.match(/\d+|\D+/g) ?? [];
+
+  for (let i = 0; i < Math.min(chunksA.length, chunksB.length); i++) {
+    const [chunkA, chunkB] = [chunksA[i], chunksB[i]];
+    const difference = /^\d/.test(chunkA) && /^\d/.test(chunkB)
+      ? Number(chunkA) - Number(chunkB)
+      : (chunkA < chunkB ? -1 : chunkA > chunkB ? 1 : 0);
+    if (difference !== 0) return difference;
+  }
+  return chunksA.length - chunksB.length;
+}
+
+function readSettings(index: Document, context: PackageContext): Omit<ImportedLessonConfig, 'chapters'> {
+  const getMeta = (name: string) => Array.from(index.querySelectorAll('meta[name]'))
+    .find(meta => meta.getAttribute('name')?.toLowerCase() === name)
+    ?.getAttribute('content')?.trim() ?? '';
+
+  const scripts = Array.from(index.querySelectorAll('script')).map(script => script.textContent ?? '').join('\n');
+  const lessonId = /var\s+lessonID\s*=\s*["']?(\w+)/.exec(scripts)?.[1];
+  if (!lessonId) {
+    context.issues.push({ location: 'index.htm', message: 'No lessonID variable was found; enter the lesson ID by hand' });
+  }
+
+  const lang = index.documentElement.getAttribute('lang')?.trim().toLowerCase().slice(0, 2) ?? '';
+  const copyright = getText(index.querySelector('#lesson-copyright'));
+  const coverCredit = getText(index.querySelector('#lesson-image-credit'));
+
+  return {
+    lessonTitle: getText(index.querySelector('title')) || getText(index.querySelector('#lesson-title')),
+    // 0 is how the template says "no preassessment", not a real lesson
+    lessonId: lessonId && lessonId !== '0' ? lessonId : '',
+    language: LANGUAGES[lang] ?? (lang ? 'Other' : 'English'),
+    description: getMeta('description'),
+    keywords: getMeta('keywords'),
+    customCopyrightYear: /\d{4}(?:\s*[-–]\s*\d{4})?/.exec(copyright)?.[0].replace(/\s+/g, ''),
+    customCoverImageCredit: coverCredit || undefined
+  };
+}
+
+async function readChapter(context: PackageContext, printFile: string, chapterNumber: number): Promise<LessonChapter> {
+  const source = await readText(context, printFile);
+
+  // PHP in the lesson body ran on the server and can't be brought back as content
+  const bodyStart = source.search(/<body[\s>]/i);
+  if (bodyStart !== -1 && source.indexOf('<?php', bodyStart) !== -1) {
+    context.issues.push({ location: printFile, message: 'PHP code in the page content was left out' });
+  }
+  const document = parseHtml(source);
+
+  const title = getText(document.querySelector('[class="chapter_title"]')) ||
+    getText(document.querySelector('.unit-header h2')) ||
+    `Chapter ${chapterNumber}`;
+  const description = getText(document.querySelector('[class="chapter_description"]'));
+
+  const toc = document.querySelector('nav#tableofcontents') ?? document.querySelector('#tableofcontents');
+  const list = toc?.querySelector('ul');
+  if (!list) {
+    context.issues.push({ location: printFile, message: 'No table of contents (nav#tableofcontents) was found, so the file has no pages' });
+    return { id: uuidv4(), title, description, pages: [] };
+  }
+
+  const listed = new Set<string>();
+  const pages = readTocList(list, 1, { document, printFile, chapterTitle: title, listed, context });
+
+  for (const section of Array.from(document.querySelectorAll('[id^="page_"]'))) {
+    const pageId = section.id.slice('page_'.length);
+    if (pageId !== 'contributors' && !listed.has(pageId)) {
+      context.issues.push({ location: `${title}: ${section.id}`, message: 'Section is not in the table of contents and was left out' });
+    }
+  }
+
+  return { id: uuidv4(), title, description, pages: renumberPages(pages, chapterNumber).pages };
+}
+
+interface TocContext {
+  document: Document;
+  printFile: string;
+  chapterTitle: string;
+  listed: Set<string>;
+  context: PackageContext;
+}
+
+// Pages nested deeper than the builder supports are moved up to the third level,
+// after the page they were listed under
+function readTocList(list: Element, level: number, toc: TocContext): LessonPage[] {
+  const pages: LessonPage[] = [];
+
+  for (const item of Array.from(list.children).filter(child => child.tagName === 'LI')) {
+    const link = Array.from(item.children).find(child => child.tagName === 'A' && /#page_/.test(child.getAttribute('href') ?? ''));
+    const childList = Array.from(item.children).find(child => child.tagName === 'UL');
+
+    const pageId = link ? (link.getAttribute('href') ?? '').replace(/^.*#page_/, '') : undefined;
+    if (!link || !pageId || pageId === 'contributors') {
+      // Links to other files (quizzes, glossaries) aren't lesson pages
+      if (childList) pages.push(...readTocList(childList, level, toc));
+      continue;
+    }
+
+    const page = readPage(pageId, getText(link), link.classList.contains('innerNode'), toc);
+    pages.push(page);
+
+    if (childList) {
+      if (level < MAX_PAGE_LEVEL) {
+        page.children = readTocList(childList, level + 1, toc);
+      } else {
+        toc.context.issues.push({
+          location: `${toc.chapterTitle}: ${page.title}`,
+          message: `Pages below it were nested more than ${MAX_PAGE_LEVEL} levels deep and were moved up a level`
+        });
+        pages.push(...readTocList(childList, level, toc));
+      }
+    }
+  }
+
+  return pages;
+}
+
+function readPage(pageId: string, title: string, innerNode: boolean, toc: TocContext): LessonPage {
+  toc.listed.add(pageId);
+  const section = toc.document.getElementById(`page_${pageId}`);
+  if (!section) {
+    toc.context.issues.push({ location: `${toc.chapterTitle}: ${title}`, message: `${toc.printFile} has no page_${pageId} section; the page was imported empty` });
+  }
+
+  // The generator writes the page title heading itself, so it's left out of the content
+  const heading = section && Array.from(section.children).find(child => child.tagName === 'H3' || child.tagName === 'H2');
+  heading?.remove();
+
+  return {
+    id: uuidv4(),
+    title: title || getText(heading) || `Page ${pageId}`,
+    content: section ? outdent(section.innerHTML).trim() : '',
+    order: 1,
+    type: 'content',
+    level: 1,
+    children: [],
+    page: pageId,
+    innerNode
+  };
+}
+
+// Every image outside the template's own folders and files, so media used only by the jQuery
+// apps (sweepers, drag and draw backgrounds) comes along as well
+async function loadImages(context: PackageContext): Promise<AssetFile[]> {
+  const assets: AssetFile[] = [];
+
+  for (const [zipPath, entry] of Object.entries(context.zip.files)) {
+    const path = zipPath.slice(context.root.length);
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    const mimeType = IMAGE_TYPES[name.slice(name.lastIndexOf('.') + 1).toLowerCase()];
+    if (entry.dir || !zipPath.startsWith(context.root) || !mimeType || TEMPLATE_DIRECTORIES.includes(path.split('/')[0]) || TEMPLATE_FILES.includes(path)) {
+      continue;
+    }
+
+    assets.push({
+      id: uuidv4(),
+      name,
+      type: 'image',
+      file: new File([await entry.async('blob')], name, { type: mimeType }),
+      path
+    });
+  }
+
+  return assets;
+}
+
+async function readText(context: PackageContext, name: string): Promise<string> {
+  const entry = context.zip.file(`${context.root}${name}`);
+  return entry ? entry.async('string') : '';
+}
+
+function parseHtml(source: string): Document {
+  return new DOMParser().parseFromString(source.replace(PHP_BLOCK_PATTERN, ''), 'text/html');
+}
+
+function getText(element: Element | null | undefined): string {
+  return element?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+}
@@ -0,0 +1,201 @@
+import type { ContentNode } from '../types/content';
+import type { LessonChapter, LessonPage } from '../types/lesson';
+import { getPrintFileName } from './chapters';
+
+// One page whose identifier changed, e.g. "2-1-0" -> "1-3-0"
+export interface PageIdChange {
+  pageId: string;
+  title: string;
+  from: string;
+  to: string;
+}
+
+export interface RenumberResult {
+  pages: LessonPage[];
+  changes: PageIdChange[];
+  linksUpdated: number;
+}
+
+export interface ChapterLinkResult {
+  chapters: LessonChapter[];
+  linksUpdated: number;
+  linksBroken: number; // Links into a chapter that is gone, left as they were
+}
+
+const PAGE_ID = '\\d+-\\d+-\\d+';
+// print_N.php#page_X or a bare #page_X anchor, as written by the TOC and by authors
+const PAGE_ANCHOR_PATTERN = new RegExp(`(print(?:_(\\d+))?\\.php)?#page_(${PAGE_ID})`, 'g');
+// navmenu.php?tab=N&page=X&type=dyn, with & possibly escaped as &amp;
+const NAVMENU_URL_PATTERN = /navmenu\.php\?[^"'\s<>#]*/g;
+const PAGE_PARAM_PATTERN = /(^|[?&]|&amp;)page=([^&]*)/;
+const TAB_PARAM_PATTERN = /(?:^|[?&]|&amp;)tab=([^&]*)/;
+// print.php or print_N.php, with or without an anchor
+const PRINT_FILE_PATTERN = /\bprint(?:_(\d+))?\.php\b/g;
+
+// Recomputes every page id, level, parentId and order from the page's position in
+// the chapter's tree, then rewrites links in page content that point at ids which
+// moved. Page ids repeat across chapters, so only links into `chapter` are touched.
+export function renumberPages(pages: LessonPage[], chapter = 1): RenumberResult {
+  const changes: PageIdChange[] = [];
+  const numbered = assignPageIds(pages, [], undefined, changes);
+
+  const mapping = new Map(changes.map(change => [change.from, change.to]));
+  if (mapping.size === 0) {
+    return { pages: numbered, changes, linksUpdated: 0 };
+  }
+
+  let linksUpdated = 0;
+  const rewrite = (text: string) => {
+    const result = rewritePageLinks(text, mapping, chapter);
+    linksUpdated += result.count;
+    return result.text;
+  };
+  const rewritten = mapAllPages(numbered, page => ({
+    ...page,
+    content: rewrite(page.content),
+    contentNodes: page.contentNodes ? rewriteNodeLinks(page.contentNodes, rewrite) : undefined
+  }));
+
+  return { pages: rewritten, changes, linksUpdated };
+}
+
+// Rewrites #page_ anchors, print_N.php#page_ links and navmenu.php?page= URLs in
+// `text` that lead into `chapter`. A bare anchor stays within the print file it is
+// written in. All replacements are looked up against the original ids in one pass
+// so swapped pages ("1-0-0" <-> "2-0-0") don't overwrite each other.
+export function rewritePageLinks(text: string, mapping: Map<string, string>, chapter = 1): { text: string; count: number } {
+  let count = 0;
+
+  let updated = text.replace(PAGE_ANCHOR_PATTERN, (match, file: string | undefined, fileChapter: string | undefined, id: string) => {
+    const target = file ? Number(fileChapter ?? 1) : chapter;
+    const next = target === chapter ? mapping.get(id) : undefined;
+    if (!next) return match;
+    count += 1;
+    return `${file ?? ''}#page_${next}`;
+  });
+
+  updated = updated.replace(NAVMENU_URL_PATTERN, url => {
+    const query = url.slice(url.indexOf('?'));
+    const tab = TAB_PARAM_PATTERN.exec(query)?.[1] ?? '1';
+    const pageParam = PAGE_PARAM_PATTERN.exec(query);
+    const next = pageParam && Number(tab) === chapter ? mapping.get(pageParam[2]) : undefined;
+    if (!next) return url;
+    count += 1;
+    return url.replace(PAGE_PARAM_PATTERN, (_, prefix: string) => `${prefix}page=${next}`);
+  });
+
+  return { text: updated, count };
+}
+
+// After chapters are removed or moved: points print_N.php links and navmenu.php tab
+// parameters in every chapter at the new chapter numbers. `numbers` maps each old
+// chapter number to its new one, or to undefined for a chapter that is gone.
+export function renumberChapterLinks(chapters: LessonChapter[], numbers: Map<number, number | undefined>): ChapterLinkResult {
+  let linksUpdated = 0;
+  let linksBroken = 0;
+
+  const renumber = (from: number, match: string, write: (to: number) => string) => {
+    if (!numbers.has(from)) return match;
+    const to = numbers.get(from);
+    if (to === undefined) {
+      linksBroken += 1;
+      return match;
+    }
+    if (to === from) return match;
+    linksUpdated += 1;
+    return write(to);
+  };
+
+  const rewrite = (text: string) => text
+    .replace(PRINT_FILE_PATTERN, (match, fileChapter: string | undefined) => renumber(Number(fileChapter ?? 1), match, getPrintFileName))
+    .replace(NAVMENU_URL_PATTERN, url => {
+      const query = url.slice(url.indexOf('?'));
+      const tab = TAB_PARAM_PATTERN.exec(query)?.[1] ?? '1';
+      if (!/^\d+$/.test(tab)) return url;
+      return renumber(Number(tab), url, to => setTabParameter(url, to));
+    });
+
+  const updated = chapters.map(chapter => ({
+    ...chapter,
+    pages: mapAllPages(chapter.pages, page => ({
+      ...page,
+      content: rewrite(page.content),
+      contentNodes: page.contentNodes ? rewriteNodeLinks(page.contentNodes, rewrite) : undefined
+    }))
+  }));
+
+  return { chapters: updated, linksUpdated, linksBroken };
+}
+
+// Resolves a link that is just a #page_ anchor, a print_N.php#page_ link or a navmenu.php
+// URL to the file `resolve` names for its chapter and page, for outputs that have no
+// navmenu.php. A navmenu.php URL without a page asks for the chapter's first page (no
+// pageId). Any other link, or one `resolve` finds no file for, is returned as it is.
+export function resolvePageLink(link: string, chapter: number, resolve: (chapter: number, pageId?: string) => string | undefined): string {
+  const anchor = new RegExp(`^${PAGE_ANCHOR_PATTERN.source}$`).exec(link);
+  if (anchor) {
+    const [, file, fileChapter, id] = anchor;
+    return resolve(file ? Number(fileChapter ?? 1) : chapter, id) ?? link;
+  }
+
+  if (new RegExp(`^${NAVMENU_URL_PATTERN.source}$`).test(link)) {
+    const query = link.slice(link.indexOf('?'));
+    const tab = Number(TAB_PARAM_PATTERN.exec(query)?.[1] ?? '1');
+    return resolve(tab, PAGE_PARAM_PATTERN.exec(query)?.[2]) ?? link;
+  }
+
+  return link;
+}
+
+// navmenu.php without a tab opens tab 1, so other tabs have to be added
+function setTabParameter(url: string, tab: number): string {
+  if (TAB_PARAM_PATTERN.test(url.slice(url.indexOf('?')))) {
+    return url.replace(/([?&]|&amp;)tab=[^&]*/, `$1tab=${tab}`);
+  }
+  const separator = url.includes('&amp;') ? '&amp;' : '&';
+  return url.endsWith('?') ? `${url}tab=${tab}` : url.replace('?', `?tab=${tab}${separator}`);
+}
+
+function assignPageIds(pages: LessonPage[], parentSegments: number[], parentId: string | undefined, changes: PageIdChange[]): LessonPage[] {
+  const level = parentSegments.length + 1;
+
+  return pages.map((page, index) => {
+    const segments = [...parentSegments, index + 1];
+    const pageId = [...segments, 0, 0].slice(0, 3).join('-');
+
+    if (page.page && page.page !== pageId) {
+      changes.push({ pageId: page.id, title: page.title, from: page.page, to: pageId });
+    }
+
+    return {
+      ...page,
+      page: pageId,
+      level,
+      parentId,
+      order: index + 1,
+      children: assignPageIds(page.children, segments, page.id, changes)
+    };
+  });
+}
+
+function mapAllPages(pages: LessonPage[], update: (page: LessonPage) => LessonPage): LessonPage[] {
+  return pages.map(page => update({ ...page, children: mapAllPages(page.children, update) }));
+}
+
+// Walks every node (tabs, panels and question feedback included) and rewrites the
+// `link` of each text run
+function rewriteNodeLinks(nodes: ContentNode[], rewrite: (text: string) => string): ContentNode[] {
+  const visit = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(visit);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+      key,
+      key === 'link' && typeof entry === 'string' ? rewrite(entry) : visit(entry)
+    ]));
+  };
+  return visit(nodes) as ContentNode[];
+}
@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { LessonPage } from '../types/lesson';
+
+// MetEd lessons nest pages unit > section > subsection
+export const MAX_PAGE_LEVEL = 3;
+
+// Where a dragged page lands relative to the page it is dropped on
+export type DropPosition = 'before' | 'after' | 'inside';
+
+export function createPage(title: string): LessonPage {
+  return {
+    id: uuidv4(),
+    title,
+    content: '',
+    contentNodes: [],
+    order: 1,
+    type: 'content',
+    level: 1,
+    children: [],
+    innerNode: false
+  };
+}
+
+export function findPage(pages: LessonPage[], pageId: string): LessonPage | undefined {
+  for (const page of pages) {
+    if (page.id === pageId) return page;
+    const child = findPage(page.children, pageId);
+    if (child) return child;
+  }
+  return undefined;
+}
+
+export function flattenPages(pages: LessonPage[]): LessonPage[] {
+  return pages.flatMap(page => [page, ...flattenPages(page.children)]);
+}
+
+// Number of levels below and including this page: 1 for a leaf
+export function getSubtreeDepth(page: LessonPage): number {
+  return 1 + Math.max(0, ...page.children.map(getSubtreeDepth));
+}
+
+// The structural edits below leave page ids, levels and order alone; run the
+// result through renumberPages to bring them back in line with the tree.
+
+// Appends a page to the end of `parentId`'s children, or to the top level
+export function addPage(pages: LessonPage[], page: LessonPage, parentId?: string): LessonPage[] {
+  if (!parentId) {
+    return [...pages, page];
+  }
+  return mapPages(pages, parentId, target => ({ ...target, children: [...target.children, page] }));
+}
+
+export function updatePage(pages: LessonPage[], pageId: string, updates: Partial<LessonPage>): LessonPage[] {
+  return mapPages(pages, pageId, page => ({ ...page, ...updates }));
+}
+
+// Removes a page together with everything below it
+export function removePage(pages: LessonPage[], pageId: string): LessonPage[] {
+  return detachPage(pages, pageId);
+}
+
+// Whether `pageId` can be dropped at `position` relative to `targetId` without
+// landing inside itself or pushing its subtree past MAX_PAGE_LEVEL
+export function canMovePage(pages: LessonPage[], pageId: string, targetId: string, position: DropPosition): boolean {
+  const page = findPage(pages, pageId);
+  const target = findPage(pages, targetId);
+  if (!page || !target || page.id === target.id || findPage(page.children, targetId)) {
+    return false;
+  }
+  const level = position === 'inside' ? target.level + 1 : target.level;
+  return level - 1 + getSubtreeDepth(page) <= MAX_PAGE_LEVEL;
+}
+
+// Moves a page (and its children) next to or into the target page. Returns the
+// pages unchanged when the move isn't allowed.
+export function movePage(pages: LessonPage[], pageId: string, targetId: string, position: DropPosition): LessonPage[] {
+  const page = findPage(pages, pageId);
+  if (!page || !canMovePage(pages, pageId, targetId, position)) {
+    return pages;
+  }
+
+  const remaining = detachPage(pages, pageId);
+  return insertPage(remaining, page, targetId, position);
+}
+
+function mapPages(pages: LessonPage[], pageId: string, update: (page: LessonPage) => LessonPage): LessonPage[] {
+  return pages.map(page => {
+    if (page.id === pageId) return update(page);
+    return page.children.length > 0
+      ? { ...page, children: mapPages(page.children, pageId, update) }
+      : page;
+  });
+}
+
+function detachPage(pages: LessonPage[], pageId: string): LessonPage[] {
+  return pages
+    .filter(page => page.id !== pageId)
+    .map(page => page.children.length > 0
+      ? { ...page, children: detachPage(page.children, pageId) }
+      : page);
+}
+
+function insertPage(pages: LessonPage[], page: LessonPage, targetId: string, position: DropPosition): LessonPage[] {
+  const index = pages.findIndex(candidate => candidate.id === targetId);
+
+  if (index !== -1) {
+    if (position === 'inside') {
+      const target = pages[index];
+      return pages.map((candidate, i) => i === index ? { ...target, children: [...target.children, page] } : candidate);
+    }
+    const insertAt = position === 'before' ? index : index + 1;
+    return [...pages.slice(0, insertAt), page, ...pages.slice(insertAt)];
+  }
+
+  return pages.map(candidate => candidate.children.length > 0
+    ? { ...candidate, children: insertPage(candidate.children, page, targetId, position) }
+    : candidate);
+}
@@ -0,0 +1,563 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ContentNode, ListGlyph, ListSetNode, MediaItemNode, ParagraphNode, TableNode, TextMark, TextNode } from '../types/content';
+import type { AssetFile } from '../types/lesson';
+import { mapContentNodes } from './contentNodes';
+import { IMAGE_TYPES, MARK_ORDER, mergeRuns } from './docxImporter';
+
+// An image in pasted content, waiting to become an asset named after its media id
+export interface PastedImage {
+  id: string; // Media id of the mediaItem that shows it
+  source: string; // src it was pasted with; empty for image files on the clipboard
+  file?: File; // The image itself, when the clipboard carried it
+}
+
+export interface PastedContent {
+  nodes: ContentNode[];
+  images: PastedImage[];
+}
+
+export interface PastedImageResult {
+  assets: AssetFile[];
+  unresolved: PastedImage[]; // Images the browser couldn't read; the author has to supply them
+}
+
+interface RunState {
+  marks: TextMark[];
+  link?: string;
+  preformatted?: boolean;
+}
+
+interface PasteContext {
+  images: PastedImage[];
+  sources: Map<string, string>; // src -> media id, so an image pasted twice is one asset
+  getMediaId?: (source: string) => string | undefined;
+  keepBookmarks: boolean; // Whether #anchor links survive; see cleanLink
+}
+
+// Dropped along with everything inside them
+const IGNORED_ELEMENTS = new Set([
+  'head', 'script', 'style', 'meta', 'link', 'title', 'noscript', 'template', 'iframe', 'object', 'embed',
+  'svg', 'canvas', 'video', 'audio', 'button', 'input', 'select', 'textarea', 'xml', 'o:p', 'hr'
+]);
+
+// Everything else is inline: its text joins the paragraph around it
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'blockquote', 'center',
+  'address', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'li', 'form', 'fieldset', 'details', 'summary', 'caption',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6'
+]);
+
+const TAG_MARKS: Record<string, TextMark> = {
+  b: 'bold',
+  strong: 'bold',
+  i: 'italic',
+  em: 'italic',
+  cite: 'italic',
+  u: 'underline',
+  ins: 'underline',
+  sup: 'superscript',
+  sub: 'subscript'
+};
+
+// list-style-type values and the type attribute of <ol>/<ul>
+const LIST_STYLE_GLYPHS: Record<string, ListGlyph> = {
+  disc: 'BULLET',
+  circle: 'HOLLOW_BULLET',
+  square: 'SQUARE_BULLET',
+  decimal: 'NUMBER',
+  'decimal-leading-zero': 'NUMBER',
+  'lower-alpha': 'LATIN_LOWER',
+  'lower-latin': 'LATIN_LOWER',
+  'upper-alpha': 'LATIN_UPPER',
+  'upper-latin': 'LATIN_UPPER',
+  'lower-roman': 'ROMAN_LOWER',
+  'upper-roman': 'ROMAN_UPPER',
+  '1': 'NUMBER',
+  a: 'LATIN_LOWER',
+  A: 'LATIN_UPPER',
+  i: 'ROMAN_LOWER',
+  I: 'ROMAN_UPPER'
+};
+
+// Browsers' own bullets for nested lists without a list-style-type
+const NESTED_BULLETS: ListGlyph[] = ['BULLET', 'HOLLOW_BULLET', 'SQUARE_BULLET'];
+
+const TRACKING_PARAMETERS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|mkt_tok)$/i;
+
+// Zero-width characters and soft hyphens editors leave in copied text
+const INVISIBLE_CHARACTERS = /[\u00ad\u200b-\u200d\u2060\ufeff]/g;
+
+// Reads a paste event's clipboard: HTML when there is any, then image files (screenshots),
+// then plain text
+export function convertClipboardData(data: DataTransfer): PastedContent {
+  const files = Array.from(data.files).filter(file => Object.values(IMAGE_TYPES).includes(file.type));
+  const html = data.getData('text/html');
+
+  if (html.trim()) {
+    const pasted = convertPastedHtml(html);
+    // A single copied image often comes with the image file too, which saves fetching it
+    if (pasted.nodes.length === 1 && pasted.images.length === 1 && files.length === 1) {
+      pasted.images[0].file = files[0];
+    }
+    if (pasted.nodes.length > 0) return pasted;
+  }
+
+  if (files.length > 0) {
+    const images = files.map(file => ({ id: createMediaId(), source: '', file }));
+    return {
+      nodes: images.map(image => ({ type: 'mediaItem', id: image.id, caption: '' })),
+      images
+    };
+  }
+
+  return { nodes: convertPastedText(data.getData('text/plain')), images: [] };
+}
+
+// Keeps what the lesson content model can hold (paragraphs, bold/italic/underline/
+// superscript/subscript, links, lists, tables and images) and drops everything else:
+// inline styles, spans, classes, comments, Word's mso- markup and tracking parameters.
+// Headings become bold paragraphs, since pasting never changes the page tree.
+// `getMediaId` claims images that are already assets, which then aren't listed for loading.
+export function convertPastedHtml(html: string, getMediaId?: (source: string) => string | undefined, keepBookmarks = false): PastedContent {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const context: PasteContext = { images: [], sources: new Map(), getMediaId, keepBookmarks };
+  const nodes = convertBlocks(Array.from(document.body.childNodes), context, { marks: [] });
+  return { nodes, images: context.images };
+}
+
+// A page's own HTML, from a lesson package or the new-page scaffold, as content nodes.
+// Images keep the media id their file name already carries, so they still resolve, and
+// #page_ links stay since they point into the same lesson.
+export function convertPageHtml(html: string): ContentNode[] {
+  return convertPastedHtml(html, source => source.slice(source.lastIndexOf('/') + 1).replace(/\.[^.]+$/, '') || undefined, true).nodes;
+}
+
+// The runs of inline markup, for text that can't hold blocks (a paragraph, a list item).
+// Block boundaries become line breaks and anything that isn't text is dropped. The
+// editor's own markup keeps its #page_ links (keepBookmarks); clipboard content doesn't.
+export function convertInlineHtml(html: string, keepBookmarks = false): TextNode[] {
+  const paragraphs = convertPastedHtml(html, undefined, keepBookmarks).nodes.flatMap(node => {
+    if (node.type === 'paragraph') return [node];
+    return node.type === 'listSet' ? node.content.map(item => item.content) : [];
+  });
+  return mergeRuns(paragraphs.flatMap((paragraph, index) => index === 0
+    ? paragraph.content
+    : [{ type: 'text' as const, text: '\n' }, ...paragraph.content]));
+}
+
+// Blank lines separate paragraphs; single line breaks stay inside them
+export function convertPastedText(text: string): ContentNode[] {
+  return text
+    .replace(INVISIBLE_CHARACTERS, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(block => block.split('\n').map(line => line.trim()).join('\n').trim())
+    .filter(Boolean)
+    .map(block => ({ type: 'paragraph', content: [{ type: 'text', text: block }] }));
+}
+
+// Fetches every image the clipboard didn't carry itself. data: URIs always load; images on
+// other sites load when the site allows it; file:, blob: and cid: sources (Word, Outlook)
+// only exist on the author's computer and come back unresolved.
+export async function loadPastedImages(images: PastedImage[]): Promise<PastedImageResult> {
+  const assets: AssetFile[] = [];
+  const unresolved: PastedImage[] = [];
+
+  for (const image of images) {
+    const file = image.file ?? await fetchImage(image.source);
+    const asset = file && createPastedAsset(image, file, image.file?.name ?? image.source);
+    if (asset) {
+      assets.push(asset);
+    } else {
+      unresolved.push(image);
+    }
+  }
+
+  return { assets, unresolved };
+}
+
+// The asset is named after the media id so the generator resolves the mediaItem to it.
+// Returns undefined when the file isn't an image type browsers display.
+export function createPastedAsset(image: PastedImage, file: Blob, fileName: string): AssetFile | undefined {
+  const extension = Object.keys(IMAGE_TYPES).find(candidate => IMAGE_TYPES[candidate] === file.type) ??
+    /\.(\w+)(?:[?#].*)?$/.exec(fileName)?.[1].toLowerCase();
+  if (!extension || !IMAGE_TYPES[extension]) return undefined;
+
+  const name = `${image.id}.${extension}`;
+  return {
+    id: uuidv4(),
+    name,
+    type: 'image',
+    file: new File([file], name, { type: IMAGE_TYPES[extension] }),
+    path: `assets/images/${name}`
+  };
+}
+
+// Takes out the mediaItems of images the author chose not to supply
+export function removePastedImages(nodes: ContentNode[], ids: string[]): ContentNode[] {
+  const keep = (node: ContentNode) => node.type !== 'mediaItem' || !ids.includes(node.id);
+  return mapContentNodes(nodes.filter(keep), node => node.type === 'table'
+    ? { ...node, rows: node.rows.map(row => row.map(cell => ({ ...cell, content: cell.content.filter(keep) }))) }
+    : node);
+}
+
+async function fetchImage(source: string): Promise<Blob | undefined> {
+  if (!/^(data:image\/|https?:)/i.test(source)) return undefined;
+  try {
+    const response = await fetch(source);
+    return response.ok ? await response.blob() : undefined;
+  } catch {
+    // Sites that don't allow cross-origin requests
+    return undefined;
+  }
+}
+
+function convertBlocks(children: Node[], context: PasteContext, state: RunState): ContentNode[] {
+  const nodes: ContentNode[] = [];
+  let runs: TextNode[] = [];
+  const flushRuns = () => {
+    const paragraph = toParagraph(runs);
+    runs = [];
+    if (paragraph) nodes.push(paragraph);
+  };
+
+  const visit = (node: Node, state: RunState) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      pushText(runs, node.textContent ?? '', state);
+      return;
+    }
+    // Comments, including Word's <!--[if ...]> blocks
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const name = element.localName.toLowerCase();
+    if (IGNORED_ELEMENTS.has(name) || isHidden(element)) return;
+
+    switch (name) {
+      case 'br':
+        pushText(runs, '\n', { ...state, preformatted: true });
+        return;
+      case 'img': {
+        const media = convertImage(element, context);
+        if (media) {
+          flushRuns();
+          nodes.push(media);
+        }
+        return;
+      }
+      case 'ul':
+      case 'ol':
+        flushRuns();
+        convertList(element, 0, context, nodes);
+        return;
+      case 'table': {
+        flushRuns();
+        const table = convertTable(element, context);
+        if (table) nodes.push(table);
+        return;
+      }
+      case 'figure': {
+        const image = element.querySelector('img');
+        const media = image && convertImage(image, context, getText(element.querySelector('figcaption')));
+        if (media) {
+          flushRuns();
+          nodes.push(media);
+          return;
+        }
+        break;
+      }
+    }
+
+    const childState = getElementState(element, name, state, context);
+    if (!BLOCK_ELEMENTS.has(name) && name !== 'pre') {
+      element.childNodes.forEach(child => visit(child, childState));
+      return;
+    }
+
+    flushRuns();
+    const wordList = getWordListItem(element);
+    if (wordList) {
+      // Word writes list items as paragraphs that carry their level and bullet
+      for (const item of convertBlocks(Array.from(element.childNodes), context, childState)) {
+        if (item.type === 'paragraph') {
+          appendListItem(nodes, item, wordList.glyph, wordList.level);
+        } else {
+          nodes.push(item);
+        }
+      }
+      return;
+    }
+    element.childNodes.forEach(child => visit(child, childState));
+    flushRuns();
+  };
+
+  children.forEach(child => visit(child, state));
+  flushRuns();
+  return nodes;
+}
+
+// Each level of a list becomes its own listSet, in the order the items appear. Google Docs
+// nests lists as siblings and gives the real level in aria-level instead.
+function convertList(list: Element, level: number, context: PasteContext, nodes: ContentNode[]): void {
+  for (const child of Array.from(list.children)) {
+    const name = child.localName.toLowerCase();
+    if (name === 'ul' || name === 'ol') {
+      convertList(child, level + 1, context, nodes);
+      continue;
+    }
+    if (name !== 'li' || isHidden(child)) continue;
+
+    const ariaLevel = Number(child.getAttribute('aria-level'));
+    const itemLevel = ariaLevel > 0 ? ariaLevel - 1 : level;
+    const glyph = getListGlyph(list, child, itemLevel);
+
+    // Text before a nested list is the item; text after it starts another item
+    let segment: Node[] = [];
+    const flushSegment = () => {
+      const blocks = convertBlocks(segment, context, { marks: [] });
+      segment = [];
+      const paragraphs = blocks.filter((block): block is ParagraphNode => block.type === 'paragraph');
+      if (paragraphs.length > 0) {
+        // Paragraphs inside one item are one item, a line apart
+        const content = paragraphs.flatMap((paragraph, index) => index === 0
+          ? paragraph.content
+          : [{ type: 'text' as const, text: '\n' }, ...paragraph.content]);
+        appendListItem(nodes, { type: 'paragraph', content: mergeRuns(content) }, glyph, itemLevel);
+      }
+      nodes.push(...blocks.filter(block => block.type !== 'paragraph'));
+    };
+
+    for (const node of Array.from(child.childNodes)) {
+      const nodeName = node.nodeType === Node.ELEMENT_NODE ? (node as Element).localName.toLowerCase() : '';
+      if (nodeName === 'ul' || nodeName === 'ol') {
+        flushSegment();
+        convertList(node as Element, itemLevel + 1, context, nodes);
+      } else {
+        segment.push(node);
+      }
+    }
+    flushSegment();
+  }
+}
+
+function getListGlyph(list: Element, item: Element, level: number): ListGlyph {
+  const styleType = getStyles(item)['list-style-type'] ?? getStyles(list)['list-style-type'];
+  const glyph = (styleType && LIST_STYLE_GLYPHS[styleType]) ?? LIST_STYLE_GLYPHS[list.getAttribute('type') ?? ''];
+  if (glyph) return glyph;
+  return list.localName.toLowerCase() === 'ol' ? 'NUMBER' : NESTED_BULLETS[Math.min(level, NESTED_BULLETS.length - 1)];
+}
+
+// Word's list paragraphs: style="mso-list:l0 level2 lfo1" with the bullet or number
+// written out in a <span style="mso-list:Ignore">
+function getWordListItem(element: Element): { level: number; glyph: ListGlyph } | undefined {
+  const levelMatch = /level(\d+)/.exec(getStyles(element)['mso-list'] ?? '');
+  if (!levelMatch) return undefined;
+
+  const marker = Array.from(element.querySelectorAll('span'))
+    .find(span => getStyles(span)['mso-list'] === 'ignore');
+  const text = (marker?.textContent ?? '').replace(/\s+/g, '').replace(/[.)]$/, '');
+  marker?.remove();
+
+  return { level: Number(levelMatch[1]) - 1, glyph: getMarkerGlyph(text) };
+}
+
+// Same bullet characters as the .docx importer; "i" and "v" are read as roman numerals
+function getMarkerGlyph(marker: string): ListGlyph {
+  if (/^\d+$/.test(marker)) return 'NUMBER';
+  if (/^[ivxlcdm]+$/.test(marker)) return 'ROMAN_LOWER';
+  if (/^[IVXLCDM]+$/.test(marker)) return 'ROMAN_UPPER';
+  if (/^[a-z]+$/.test(marker) && marker !== 'o') return 'LATIN_LOWER';
+  if (/^[A-Z]+$/.test(marker)) return 'LATIN_UPPER';
+  if (marker === 'o' || marker === '◦') return 'HOLLOW_BULLET';
+  if (['§', '▪', '■', '\uF0A7', '\uF06E'].includes(marker)) return 'SQUARE_BULLET';
+  return 'BULLET';
+}
+
+function appendListItem(nodes: ContentNode[], paragraph: ParagraphNode, glyph: ListGlyph, level: number): void {
+  const previous = nodes[nodes.length - 1];
+  const item = { type: 'listItem' as const, content: paragraph };
+
+  if (previous?.type === 'listSet' && previous.level === level && previous.glyph === glyph) {
+    previous.content.push(item);
+    return;
+  }
+  const listSet: ListSetNode = { type: 'listSet', glyph, level, content: [item] };
+  nodes.push(listSet);
+}
+
+function convertTable(table: Element, context: PasteContext): TableNode | undefined {
+  const sections = Array.from(table.children).filter(child => /^(thead|tbody|tfoot)$/i.test(child.localName));
+  const rows = Array.from(table.children)
+    .flatMap(child => sections.includes(child) ? Array.from(child.children) : [child])
+    .filter(child => child.localName.toLowerCase() === 'tr');
+  const cells = rows
+    .map(row => Array.from(row.children).filter(cell => /^t[hd]$/i.test(cell.localName)))
+    .filter(row => row.length > 0);
+  if (cells.length === 0) return undefined;
+
+  const hasHead = sections.some(section => section.localName.toLowerCase() === 'thead');
+  return {
+    type: 'table',
+    header: hasHead || cells[0].every(cell => cell.localName.toLowerCase() === 'th'),
+    rows: cells.map(row => row.map(cell => ({
+      content: convertBlocks(Array.from(cell.childNodes), context, { marks: [] })
+    })))
+  };
+}
+
+// Images are numbered by src, so one that is pasted twice shares its media id
+function convertImage(image: Element, context: PasteContext, caption?: string): MediaItemNode | undefined {
+  const src = (image.getAttribute('src') ?? '').trim();
+  if (!src || isTrackingPixel(image)) return undefined;
+
+  const source = src.startsWith('//') ? `https:${src}` : src;
+  let id = context.sources.get(source) ?? context.getMediaId?.(source);
+  if (!id) {
+    id = createMediaId();
+    context.sources.set(source, id);
+    context.images.push({ id, source });
+  }
+
+  // Alt text is the best caption a web page has; a <figcaption> replaces it
+  return { type: 'mediaItem', id, caption: caption || (image.getAttribute('alt') ?? '').trim() };
+}
+
+function createMediaId(): string {
+  return `pasted_${uuidv4().slice(0, 8)}`;
+}
+
+// Web beacons: images one pixel (or less) wide or high
+function isTrackingPixel(image: Element): boolean {
+  const styles = getStyles(image);
+  return [image.getAttribute('width'), image.getAttribute('height'), styles.width, styles.height]
+    .some(size => size !== null && size !== undefined && /^\d/.test(size) && parseFloat(size) <= 1);
+}
+
+function isHidden(element: Element): boolean {
+  const styles = getStyles(element);
+  return element.hasAttribute('hidden') ||
+    styles.display === 'none' ||
+    styles.visibility === 'hidden' ||
+    styles['mso-hide'] === 'all';
+}
+
+// Marks from the element and its inline style. Styles can switch marks off as well:
+// Google Docs wraps whole pastes in <b style="font-weight:normal">.
+function getElementState(element: Element, name: string, state: RunState, context: PasteContext): RunState {
+  const marks = new Set(state.marks);
+  const styles = getStyles(element);
+
+  if (TAG_MARKS[name]) marks.add(TAG_MARKS[name]);
+  if (/^h[1-6]$/.test(name)) marks.add('bold');
+
+  const weight = styles['font-weight'];
+  if (weight) {
+    if (weight === 'bold' || weight === 'bolder' || Number(weight) >= 600) marks.add('bold');
+    else marks.delete('bold');
+  }
+
+  const fontStyle = styles['font-style'];
+  if (fontStyle) {
+    if (fontStyle === 'italic' || fontStyle === 'oblique') marks.add('italic');
+    else marks.delete('italic');
+  }
+
+  const decoration = styles['text-decoration-line'] ?? styles['text-decoration'];
+  if (decoration?.includes('underline')) marks.add('underline');
+  else if (decoration === 'none') marks.delete('underline');
+
+  const verticalAlign = styles['vertical-align'];
+  if (verticalAlign === 'super' || verticalAlign === 'sub' || verticalAlign === 'baseline') {
+    marks.delete('superscript');
+    marks.delete('subscript');
+    if (verticalAlign !== 'baseline') marks.add(verticalAlign === 'super' ? 'superscript' : 'subscript');
+  }
+
+  let link = state.link;
+  if (name === 'a') {
+    link = cleanLink(element.getAttribute('href') ?? '', context.keepBookmarks);
+    // Links come out of the conversion workflow as ["link", "underline"]
+    if (link) {
+      marks.add('link');
+      marks.add('underline');
+    } else {
+      marks.delete('link');
+    }
+  }
+
+  return {
+    marks: MARK_ORDER.filter(mark => marks.has(mark)),
+    link,
+    preformatted: state.preformatted || name === 'pre'
+  };
+}
+
+// Unwraps Google and Outlook redirects and strips analytics parameters. Script links are
+// dropped, and so are links within the copied document (footnotes, bookmarks) unless
+// keepBookmarks is set for the lesson's own #page_ links.
+function cleanLink(href: string, keepBookmarks: boolean): string | undefined {
+  const target = href.trim();
+  if (!target || /^(javascript:|file:|data:|about:|blob:)/i.test(target)) return undefined;
+  if (target.startsWith('#')) return keepBookmarks ? target : undefined;
+
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    // Relative links are kept as written
+    return target;
+  }
+
+  const redirect = (/(^|\.)google\.[a-z.]+$/.test(url.hostname) && url.pathname === '/url' && url.searchParams.get('q')) ||
+    (url.hostname.endsWith('safelinks.protection.outlook.com') && url.searchParams.get('url'));
+  if (redirect) return cleanLink(redirect, keepBookmarks);
+
+  const tracking = Array.from(url.searchParams.keys()).filter(name => TRACKING_PARAMETERS.test(name));
+  if (tracking.length === 0) return target;
+  tracking.forEach(name => url.searchParams.delete(name));
+  return url.toString();
+}
+
+// HTML whitespace collapses to one space, which doesn't carry across runs or start a line
+function pushText(runs: TextNode[], text: string, state: RunState): void {
+  let value = text.replace(INVISIBLE_CHARACTERS, '');
+  if (!state.preformatted) {
+    value = value.replace(/[ \t\n\r\f]+/g, ' ');
+    const previous = runs[runs.length - 1]?.text ?? '';
+    if (previous === '' || /[ \n]$/.test(previous)) value = value.replace(/^ /, '');
+  }
+  value = value.replace(/\u00a0/g, ' ');
+  if (!value) return;
+
+  const type = state.marks.length > 0 ? state.marks : 'text';
+  runs.push(state.link && state.marks.includes('link') ? { type, text: value, link: state.link } : { type, text: value });
+}
+
+// Runs of a paragraph without the whitespace at either end, or nothing if there's no text
+function toParagraph(runs: TextNode[]): ParagraphNode | undefined {
+  const content = mergeRuns(runs);
+  while (content.length > 0 && !content[0].text.trim()) content.shift();
+  while (content.length > 0 && !content[content.length - 1].text.trim()) content.pop();
+  if (content.length === 0) return undefined;
+
+  content[0].text = content[0].text.trimStart();
+  content[content.length - 1].text = content[content.length - 1].text.trimEnd();
+  content.forEach(run => {
+    run.text = run.text.replace(/ +\n/g, '\n');
+  });
+  return { type: 'paragraph', content };
+}
+
+function getStyles(element: Element): Record<string, string | undefined> {
+  const styles: Record<string, string | undefined> = {};
+  for (const declaration of (element.getAttribute('style') ?? '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    styles[declaration.slice(0, colon).trim().toLowerCase()] = declaration.slice(colon + 1).replace(/!important/i, '').trim().toLowerCase();
+  }
+  return styles;
+}
+
+function getText(element: Element | null): string {
+  return element?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+}
@@ -0,0 +1,271 @@
+import type { ContentNode, DragQuestionNode, DrawQuestionNode, RadioQuestionNode, SelectDropdown, SelectQuestionNode } from '../types/content';
+import { escapeAttribute, escapeHtml, indent } from './html';
+import { nextElementId, type RenderContext } from './renderContext';
+
+// Dropdown positions inside a selectQuestion line
+export const BLANK_PATTERN = /_{3,}/;
+
+// Multiple choice with a single correct answer, in the latest core "question-wrap radio"
+// markup. Answer-key pages (printVersion) get the same question with the correct answer
+// checked and the feedback left visible.
+export function renderRadioQuestion(node: RadioQuestionNode, context: RenderContext): string {
+  const questionId = nextElementId(context, 'q');
+  const correctIndex = node.correct - 1;
+
+  const options = node.answers.map((answer, index) => {
+    const optionId = `${questionId}-${index}`;
+    const isCorrect = index === correctIndex;
+    const classes = ['response-group-item'];
+    if (isCorrect) classes.push('correct');
+    if (isCorrect && context.printVersion) classes.push('correct-answer');
+
+    const state = context.printVersion ? `${isCorrect ? ' checked' : ''} disabled` : '';
+    return `<div class="${classes.join(' ')}"><input id="${optionId}" name="${questionId}" value="${optionLetter(index)}" type="radio"${state}><label for="${optionId}"> <strong>${optionLetter(index)}) </strong>${escapeHtml(answer)}</label></div>`;
+  });
+
+  const response = correctIndex >= 0 && correctIndex < node.answers.length
+    ? `<p class="response">The correct answer is ${optionLetter(correctIndex)}.</p>`
+    : '';
+  const explanation = renderExplanation(node, context);
+
+  return wrapQuestion(questionId, 'question-wrap radio', [
+    '<h4>Question</h4>',
+    context.renderNodes(node.question),
+    renderForm(options, context),
+    renderAnswer([response, explanation]),
+    context.printVersion ? '' : '<div class="message">Please make a selection.</div>'
+  ]) + renderAnswerKey([response, explanation], context);
+}
+
+// Sentences with inline dropdowns ("question-wrap inlinedropdowns"). Each line is
+// followed by the dropdown_correct answer the question script reveals on Done.
+export function renderSelectQuestion(node: SelectQuestionNode, context: RenderContext): string {
+  const questionId = nextElementId(context, 'q');
+
+  const lines = node.questions.flatMap((line, lineIndex) => {
+    const text = renderDropdownLine(line.question, line.dropdowns, `${questionId}-${lineIndex}`, context);
+    const item = `<div class="response-group-item"><strong>${optionLetter(lineIndex)}) </strong>${text}</div>`;
+
+    if (line.dropdowns.length === 0) {
+      return [item];
+    }
+    const correctAnswers = line.dropdowns.map(dropdown => escapeHtml(dropdown.answers[dropdown.correct] ?? ''));
+    return [item, `<div class="correct response-group-item dropdown_correct answer">${correctAnswers.join(', ')}</div>`];
+  });
+  const explanation = renderExplanation(node, context);
+  const keyLines = node.questions.map((line, lineIndex) =>
+    `<p><strong>${optionLetter(lineIndex)}) </strong>${renderDropdownLine(line.question, line.dropdowns, `${questionId}-${lineIndex}`, context, true)}</p>`);
+
+  return wrapQuestion(questionId, 'question-wrap inlinedropdowns', [
+    '<h4>Question</h4>',
+    context.renderNodes(node.questionContent),
+    renderForm(lines, context),
+    renderAnswer([explanation]),
+    context.printVersion ? '' : '<div class="message">Please make a selection.</div>'
+  ]) + renderAnswerKey([...keyLines, explanation], context);
+}
+
+// drag.js reads the background path from the container title and swaps in
+// <name>_feedback.<ext> on Done (draw.js does the same), so the feedback image
+// must sit next to it.
+// Draggables marked "replenish" leave a copy behind each time they are dropped.
+export function renderDragQuestion(node: DragQuestionNode, context: RenderContext): string {
+  const questionId = nextElementId(context, 'q');
+  const background = context.resolveMedia(node.background);
+  const feedback = context.renderNodes(node.feedback);
+
+  if (!background) {
+    return `<!-- Drag and drop background ${escapeHtml(node.background)} could not be resolved -->`;
+  }
+
+  const header = [
+    '<h4>Exercise</h4>',
+    node.question ? `<p>${escapeHtml(node.question)}</p>` : ''
+  ];
+
+  if (context.printVersion) {
+    return wrapQuestion(questionId, 'question-wrap-drag', [
+      ...header,
+      node.directions ? `<p class="drag_directions">${escapeHtml(node.directions)}</p>` : '',
+      `<img class="img-responsive center-block" src="${escapeAttribute(background)}" alt="Drag and drop exercise">`,
+      renderAnswer([feedback, `<img class="img-responsive center-block" src="${escapeAttribute(getFeedbackImagePath(background))}" alt="Drag and drop answer">`])
+    ]);
+  }
+
+  const reusable = node.reusable ?? /multiple times|more than once/i.test(node.directions);
+  const draggables = node.draggables.map((label, index) => {
+    const title = node.labels?.[index]?.trim();
+    return [
+      `<div class="draggable ui-widget-content drag_item${reusable ? ' replenish' : ''}"${title ? ` title="${escapeAttribute(title)}"` : ''}>`,
+      `    <span class="glyphicon glyphicon-th"></span>${escapeHtml(label)}`,
+      '</div>'
+    ].join('\n');
+  });
+
+  return wrapQuestion(questionId, 'question-wrap-drag', [
+    ...header,
+    `<div class="drag-container" title="${escapeAttribute(background)}">`,
+    '    <div class="image_holder"></div>',
+    `    <p class="drag_directions">${escapeHtml(node.directions)}</p>`,
+    '    <div class="drag_controls_holder">',
+    '        <div class="drag_controls">',
+    indent(draggables.join('\n'), 12),
+    '        </div>',
+    '        <input class="done_drag btn btn-primary" value="Done" type="button">',
+    '        <input class="reset_drag btn btn-default" value="Reset" type="button">',
+    '    </div>',
+    '</div>',
+    renderAnswer([feedback])
+  ]) + renderAnswerKey([feedback, `<img class="img-responsive center-block" src="${escapeAttribute(getFeedbackImagePath(background))}" alt="Drag and drop answer">`], context);
+}
+
+// draw.js builds the canvas, pen/eraser toolset and Done/Reset buttons inside
+// div.drawing-question from its data attributes, and Done swaps the background for
+// the _feedback image. It never shows the written feedback, so that sits in a
+// Bootstrap collapse with its own reveal button below the drawing.
+export function renderDrawQuestion(node: DrawQuestionNode, context: RenderContext): string {
+  const questionId = nextElementId(context, 'q');
+  const background = context.resolveMedia(node.background);
+  const feedback = context.renderNodes(node.feedback);
+
+  if (!background) {
+    return `<!-- Drawing background ${escapeHtml(node.background)} could not be resolved -->`;
+  }
+
+  const prompt = [
+    '<h4>Exercise</h4>',
+    node.question ? `<p>${escapeHtml(node.question)}</p>` : '',
+    node.directions ? `<p class="drawing-directions">${escapeHtml(node.directions)}</p>` : ''
+  ];
+
+  if (context.printVersion) {
+    return wrapQuestion(questionId, 'question-wrap-draw', [
+      ...prompt,
+      `<img class="img-responsive center-block" src="${escapeAttribute(background)}" alt="Drawing exercise">`,
+      renderAnswer([feedback, `<img class="img-responsive center-block" src="${escapeAttribute(getFeedbackImagePath(background))}" alt="Drawing answer">`])
+    ]);
+  }
+
+  // draw.js joins data-path and data-image and splits its lists on ", "
+  const slash = background.lastIndexOf('/') + 1;
+  const attributes = [
+    `data-image="${escapeAttribute(background.slice(slash))}"`,
+    `data-path="${escapeAttribute(background.slice(0, slash))}"`
+  ];
+  if (node.colors.length > 0) {
+    attributes.push(`data-colors="${escapeAttribute(node.colors.map(color => color.trim()).join(', '))}"`);
+  }
+  if (node.colors.length > 0 && node.labels?.length) {
+    attributes.push(`data-labels="${escapeAttribute(node.labels.map(label => label.trim()).join(', '))}"`);
+  }
+  if (node.sizes?.length) {
+    attributes.push(`data-sizes="${escapeAttribute(node.sizes.join(', '))}"`);
+  }
+
+  const feedbackId = `${questionId}-feedback`;
+  const reveal = feedback
+    ? [
+      '<div class="drawing-feedback">',
+      `    <button type="button" class="btn btn-default" data-toggle="collapse" data-target="#${feedbackId}">Reveal Feedback</button>`,
+      `    <div id="${feedbackId}" class="collapse">`,
+      indent(feedback, 8),
+      '    </div>',
+      '</div>'
+    ].join('\n')
+    : '';
+
+  return [
+    `<div id="${questionId}" class="interaction-question">`,
+    `    <div class="drawing-question" ${attributes.join(' ')}>`,
+    indent(prompt.filter(Boolean).join('\n'), 8),
+    '    </div>',
+    reveal ? indent(reveal, 4) : '',
+    '</div>'
+  ].filter(Boolean).join('\n') + renderAnswerKey([feedback, `<img class="img-responsive center-block" src="${escapeAttribute(getFeedbackImagePath(background))}" alt="Drawing answer">`], context);
+}
+
+// Same split as drag.js and draw.js, which take the last four characters as the
+// extension, so photo.jpeg gives photo._feedbackjpeg there and here alike
+function getFeedbackImagePath(path: string): string {
+  return `${path.slice(0, -4)}_feedback${path.slice(-4)}`;
+}
+
+function optionLetter(index: number): string {
+  return String.fromCharCode(97 + index);
+}
+
+// Blanks are filled with dropdowns in order; dropdowns without a blank go at the end.
+// Answer keys (`asKey`) list the options in parentheses with the correct one in bold instead.
+function renderDropdownLine(question: string, dropdowns: SelectDropdown[], name: string, context: RenderContext, asKey = context.printVersion): string {
+  const parts = question.split(BLANK_PATTERN);
+  const controls = dropdowns.map((dropdown, index) => asKey
+    ? renderDropdownKey(dropdown)
+    : renderDropdown(dropdown, `${name}-${index}`));
+
+  let html = '';
+  parts.forEach((part, index) => {
+    html += escapeHtml(part);
+    if (index < parts.length - 1) {
+      html += controls[index] ?? '_____';
+    }
+  });
+
+  const unplaced = controls.slice(parts.length - 1);
+  return unplaced.length > 0 ? `${html} ${unplaced.join(' ')}` : html;
+}
+
+// data-correct is the option index of the right answer after the "--" prompt, which the
+// LMS packages' tracking script grades against
+function renderDropdown(dropdown: SelectDropdown, name: string): string {
+  const options = ['--', ...dropdown.answers].map(answer => `<option>${escapeHtml(answer)}</option>`);
+  return `<select name="${name}" data-correct="${dropdown.correct + 1}">${options.join('')}</select>`;
+}
+
+function renderDropdownKey(dropdown: SelectDropdown): string {
+  const options = dropdown.answers.map((answer, index) => index === dropdown.correct
+    ? `<strong>${escapeHtml(answer)}</strong>`
+    : escapeHtml(answer));
+  return `_____ (${options.join(' / ')})`;
+}
+
+function renderForm(items: string[], context: RenderContext): string {
+  const submit = context.printVersion
+    ? []
+    : ['<input class="submit-button btn btn-primary" name="submit-button" value="Done" type="button">'];
+
+  return [
+    '<form action="#">',
+    '    <fieldset>',
+    indent([...items, ...submit].join('\n'), 8),
+    '    </fieldset>',
+    '</form>'
+  ].join('\n');
+}
+
+function renderExplanation(node: { feedback: ContentNode[] }, context: RenderContext): string {
+  const feedback = context.renderNodes(node.feedback);
+  return feedback ? `<div class="explanation">\n${indent(feedback, 4)}\n</div>` : '';
+}
+
+function renderAnswer(parts: string[]): string {
+  return ['<div class="answer">', indent(parts.filter(Boolean).join('\n'), 4), '</div>'].join('\n');
+}
+
+// .absolute-print is the template's print-only class: hidden on screen, so navmenu.php's
+// interactive lesson built from the same sections never shows the key
+function renderAnswerKey(parts: string[], context: RenderContext): string {
+  if (!context.answerKey || context.printVersion) return '';
+  return ['\n<div class="absolute-print answer-key">', '    <h4>Answer</h4>', indent(parts.filter(Boolean).join('\n'), 4), '</div>'].join('\n');
+}
+
+function wrapQuestion(questionId: string, wrapClass: string, parts: string[]): string {
+  return [
+    `<div id="${questionId}" class="panel panel-default interaction-question">`,
+    '    <div class="panel-body">',
+    `        <div class="${wrapClass}">`,
+    indent(parts.filter(Boolean).join('\n'), 12),
+    '        </div>',
+    '    </div>',
+    '</div>'
+  ].join('\n');
+}
@@ -0,0 +1,17 @@
+import type { ContentNode } from '../types/content';
+
+// State shared by the content renderers while a single page is rendered
+export interface RenderContext {
+  pageId: string;
+  printVersion: boolean;
+  answerKey: boolean; // Follow interactive questions with a print-only answer key
+  resolveMedia: (id: string) => string | undefined;
+  renderNodes: (nodes: ContentNode[]) => string; // Renders nested rich content (feedback, tab panes, ...)
+  sequence: number; // Counter for element ids that must be unique within the page
+}
+
+// Ids are prefixed with the page id so they stay unique across a whole print file
+export function nextElementId(context: RenderContext, prefix: string): string {
+  context.sequence += 1;
+  return `${prefix}-${context.pageId}-${context.sequence}`;
+}
@@ -0,0 +1,251 @@
+import type { LessonConfig } from '../types/lesson';
+import { escapeAttribute, escapeHtml, indent } from './html';
+
+// What the SCORM packages tell the LMS about a lesson, taken from its LessonConfig
+export interface ScormManifest {
+  identifier: string;
+  title: string;
+  description: string;
+  keywords: string[];
+  language: string; // Two-letter code, e.g. "en"
+  version: string;
+  publicationDate?: string;
+  copyright: string;
+  launch: string; // Page the LMS opens
+  files: string[]; // Every file in the package, imsmanifest.xml aside
+}
+
+// SCORM 2004 splits the lesson into SCOs, each with its own launch page and files; the
+// manifest's files are the ones every SCO shares (styles, scripts, media)
+export interface Scorm2004Manifest extends Omit<ScormManifest, 'launch'> {
+  sequencing: LessonConfig['scormSequencing'];
+  objectives: ScormObjective[];
+  items: ScormItem[];
+}
+
+export interface ScormObjective {
+  id: string;
+  description: string;
+}
+
+// A SCO, or (without a launch page) a group of the items under it such as a chapter
+export interface ScormItem {
+  identifier: string;
+  title: string;
+  launch?: string;
+  files?: string[]; // The SCO's own pages
+  graded?: boolean; // Whether the SCO has questions to pass or fail
+  children?: ScormItem[];
+}
+
+const SHARED_RESOURCE = 'RES-SHARED';
+
+// imsmanifest.xml for SCORM 1.2: the lesson is a single SCO whose pages bookmark
+// and score through the one runtime session. The schema files the xsi:schemaLocation
+// names are not bundled; SCORM 1.2 players don't validate against them.
+export function renderScorm12Manifest(manifest: ScormManifest): string {
+  const files = manifest.files.map(file => `<file href="${escapeAttribute(file)}"/>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${manifest.identifier}" version="${escapeAttribute(manifest.version)}"
+    xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+    xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+    xmlns:imsmd="http://www.imsglobal.org/xsd/imsmd_rootv1p2p1"
+    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+    xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+    <metadata>
+        <schema>ADL SCORM</schema>
+        <schemaversion>1.2</schemaversion>
+${indent(renderLom(manifest), 8)}
+    </metadata>
+    <organizations default="ORG-1">
+        <organization identifier="ORG-1">
+            <title>${escapeHtml(manifest.title)}</title>
+            <item identifier="ITEM-1" identifierref="RES-1" isvisible="true">
+                <title>${escapeHtml(manifest.title)}</title>
+            </item>
+        </organization>
+    </organizations>
+    <resources>
+        <resource identifier="RES-1" type="webcontent" adlcp:scormtype="sco" href="${escapeAttribute(manifest.launch)}">
+${indent(files.join('\n'), 12)}
+        </resource>
+    </resources>
+</manifest>
+`;
+}
+
+// imsmanifest.xml for SCORM 2004 4th Edition: one SCO per unit, grouped by chapter when the
+// lesson has more than one. "flow" sequencing takes the units in order with the LMS's
+// Continue/Previous; "choice" also lets learners pick any unit from the LMS's menu. The
+// content sets completion and success itself, and every SCO carries the lesson objectives.
+// The schema files are left out here too.
+export function renderScorm2004Manifest(manifest: Scorm2004Manifest): string {
+  const scos = flattenItems(manifest.items).filter(item => item.launch);
+  const resources = scos.map(item => [
+    `<resource identifier="${getResourceIdentifier(item)}" type="webcontent" adlcp:scormType="sco" href="${escapeAttribute(item.launch!)}">`,
+    indent([item.launch!, ...(item.files || [])].map(file => `<file href="${escapeAttribute(file)}"/>`).join('\n'), 4),
+    `    <dependency identifierref="${SHARED_RESOURCE}"/>`,
+    '</resource>'
+  ].join('\n'));
+  const shared = manifest.files.map(file => `<file href="${escapeAttribute(file)}"/>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${manifest.identifier}" version="${escapeAttribute(manifest.version)}"
+    xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+    xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+    xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+    xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+    xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+    xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+    <metadata>
+        <schema>ADL SCORM</schema>
+        <schemaversion>2004 4th Edition</schemaversion>
+${indent(renderIeeeLom(manifest), 8)}
+    </metadata>
+    <organizations default="ORG-1">
+        <organization identifier="ORG-1" adlseq:objectivesGlobalToSystem="false">
+            <title>${escapeHtml(manifest.title)}</title>
+${indent(manifest.items.map(item => renderItem(item, manifest)).join('\n'), 12)}
+${indent(renderControlMode(manifest), 12)}
+        </organization>
+    </organizations>
+    <resources>
+${indent(resources.join('\n'), 8)}
+        <resource identifier="${SHARED_RESOURCE}" type="webcontent" adlcp:scormType="asset">
+${indent(shared.join('\n'), 12)}
+        </resource>
+    </resources>
+</manifest>
+`;
+}
+
+// Manifest identifiers are xs:IDs, which must start with a letter or underscore
+export function toManifestIdentifier(value: string): string {
+  const identifier = value.replace(/[^A-Za-z0-9_.-]/g, '_');
+  return /^[A-Za-z_]/.test(identifier) ? identifier : `_${identifier}`;
+}
+
+// IMS Metadata 1.2.1 record of the lesson's catalog information
+function renderLom(manifest: ScormManifest): string {
+  const langString = (value: string) => `<imsmd:langstring xml:lang="${manifest.language}">${escapeHtml(value)}</imsmd:langstring>`;
+  const keywords = manifest.keywords.map(keyword => `<imsmd:keyword>${langString(keyword)}</imsmd:keyword>`);
+  const publication = manifest.publicationDate
+    ? [
+      '<imsmd:contribute>',
+      '    <imsmd:role><imsmd:source><imsmd:langstring xml:lang="x-none">LOMv1.0</imsmd:langstring></imsmd:source><imsmd:value><imsmd:langstring xml:lang="x-none">Publisher</imsmd:langstring></imsmd:value></imsmd:role>',
+      '    <imsmd:centity><imsmd:vcard>BEGIN:vCard FN:UCAR/COMET END:vCard</imsmd:vcard></imsmd:centity>',
+      `    <imsmd:date><imsmd:datetime>${escapeHtml(manifest.publicationDate)}</imsmd:datetime></imsmd:date>`,
+      '</imsmd:contribute>'
+    ]
+    : [];
+
+  return [
+    '<imsmd:lom>',
+    '    <imsmd:general>',
+    `        <imsmd:title>${langString(manifest.title)}</imsmd:title>`,
+    `        <imsmd:language>${manifest.language}</imsmd:language>`,
+    manifest.description ? `        <imsmd:description>${langString(manifest.description)}</imsmd:description>` : '',
+    indent(keywords.join('\n'), 8),
+    '    </imsmd:general>',
+    '    <imsmd:lifecycle>',
+    `        <imsmd:version>${langString(manifest.version)}</imsmd:version>`,
+    indent(publication.join('\n'), 8),
+    '    </imsmd:lifecycle>',
+    '    <imsmd:rights>',
+    '        <imsmd:copyrightandotherrestrictions><imsmd:source><imsmd:langstring xml:lang="x-none">LOMv1.0</imsmd:langstring></imsmd:source><imsmd:value><imsmd:langstring xml:lang="x-none">yes</imsmd:langstring></imsmd:value></imsmd:copyrightandotherrestrictions>',
+    `        <imsmd:description>${langString(manifest.copyright)}</imsmd:description>`,
+    '    </imsmd:rights>',
+    '</imsmd:lom>'
+  ].filter(line => line.trim()).join('\n');
+}
+
+function flattenItems(items: ScormItem[]): ScormItem[] {
+  return items.flatMap(item => [item, ...flattenItems(item.children || [])]);
+}
+
+function getResourceIdentifier(item: ScormItem): string {
+  return item.identifier.replace(/^ITEM-/, 'RES-');
+}
+
+function renderControlMode(manifest: Scorm2004Manifest): string {
+  return [
+    '<imsss:sequencing>',
+    `    <imsss:controlMode choice="${manifest.sequencing === 'choice'}" flow="true"/>`,
+    '</imsss:sequencing>'
+  ].join('\n');
+}
+
+// Element order follows the SCORM 2004 CAM: title, child items, then sequencing
+function renderItem(item: ScormItem, manifest: Scorm2004Manifest): string {
+  const title = `    <title>${escapeHtml(item.title)}</title>`;
+
+  if (!item.launch) {
+    return [
+      `<item identifier="${item.identifier}">`,
+      title,
+      indent((item.children || []).map(child => renderItem(child, manifest)).join('\n'), 4),
+      indent(renderControlMode(manifest), 4),
+      '</item>'
+    ].join('\n');
+  }
+
+  // Units without questions are left out of the lesson's pass/fail rollup
+  const objectives = manifest.objectives.length > 0
+    ? [
+      '<imsss:objectives>',
+      '    <imsss:primaryObjective objectiveID="PRIMARYOBJ"/>',
+      ...manifest.objectives.map(objective => `    <imsss:objective objectiveID="${escapeAttribute(objective.id)}"/>`),
+      '</imsss:objectives>'
+    ]
+    : [];
+  const sequencing = [
+    '<imsss:sequencing>',
+    item.graded ? '' : '    <imsss:rollupRules rollupObjectiveSatisfied="false"/>',
+    indent(objectives.join('\n'), 4),
+    '    <imsss:deliveryControls completionSetByContent="true" objectiveSetByContent="true"/>',
+    '</imsss:sequencing>'
+  ].filter(line => line.trim());
+
+  return [
+    `<item identifier="${item.identifier}" identifierref="${getResourceIdentifier(item)}" isvisible="true">`,
+    title,
+    indent(sequencing.join('\n'), 4),
+    '</item>'
+  ].join('\n');
+}
+
+// IEEE LOM record of the lesson's catalog information, the metadata format of SCORM 2004
+function renderIeeeLom(manifest: Omit<ScormManifest, 'launch'>): string {
+  const langString = (value: string) => `<string language="${manifest.language}">${escapeHtml(value)}</string>`;
+  const keywords = manifest.keywords.map(keyword => `<keyword>${langString(keyword)}</keyword>`);
+  const publication = manifest.publicationDate
+    ? [
+      '<contribute>',
+      '    <role><source>LOMv1.0</source><value>publisher</value></role>',
+      '    <entity>BEGIN:vCard FN:UCAR/COMET END:vCard</entity>',
+      `    <date><dateTime>${escapeHtml(manifest.publicationDate)}</dateTime></date>`,
+      '</contribute>'
+    ]
+    : [];
+
+  return [
+    '<lom xmlns="http://ltsc.ieee.org/xsd/LOM">',
+    '    <general>',
+    `        <title>${langString(manifest.title)}</title>`,
+    `        <language>${manifest.language}</language>`,
+    manifest.description ? `        <description>${langString(manifest.description)}</description>` : '',
+    indent(keywords.join('\n'), 8),
+    '    </general>',
+    '    <lifeCycle>',
+    `        <version>${langString(manifest.version)}</version>`,
+    indent(publication.join('\n'), 8),
+    '    </lifeCycle>',
+    '    <rights>',
+    '        <copyrightAndOtherRestrictions><source>LOMv1.0</source><value>yes</value></copyrightAndOtherRestrictions>',
+    `        <description>${langString(manifest.copyright)}</description>`,
+    '    </rights>',
+    '</lom>'
+  ].filter(line => line.trim()).join('\n');
+}
@@ -0,0 +1,243 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { escapeHtml } from './html';
+import {
+  renderScorm12Manifest,
+  renderScorm2004Manifest,
+  toManifestIdentifier,
+  type ScormItem,
+  type ScormManifest,
+  type ScormObjective
+} from './scormManifest';
+import { groupByUnit, StaticLessonGenerator, type StaticPage } from './staticLessonGenerator';
+
+// Page that holds the LMS session and shows the lesson pages in a frame below it
+export const LAUNCH_PAGE = 'launch.html';
+
+// What the launch page hands LessonTracker (see templates/tracking/lesson-tracker.js)
+export interface TrackingSettings {
+  title: string;
+  pages: { file: string; title: string }[];
+  questions: string[]; // "<page file>#<question element id>" of every graded question
+  masteryScore?: number; // 0-1; an LMS-supplied mastery score takes precedence
+  navigation?: { file: string; request: string }[]; // Pages of the package's other launches
+  objectives?: ScormObjective[];
+}
+
+// The pages of one level-1 unit, packaged as a SCO of its own
+interface ScormUnit {
+  item: ScormItem;
+  chapterNumber: number;
+  pages: StaticPage[];
+}
+
+// The static lesson packaged as a single SCORM 1.2 SCO. Every page loads the page side of
+// the tracking layer, which reports to LessonTracker in the launch page; the SCORM 1.2
+// adapter turns that into lesson_status, lesson_location and score.
+export class Scorm12PackageGenerator extends StaticLessonGenerator {
+  protected trackingPath = '/src/utils/templates/tracking';
+
+  async generateLesson(): Promise<void> {
+    try {
+      const zip = new JSZip();
+      const pages = await this.addStaticLesson(zip);
+
+      await this.addTrackingScripts(zip, ['lesson-tracking.js', 'lesson-tracker.js', 'scorm12-api.js']);
+      zip.file(LAUNCH_PAGE, this.renderLaunchPage(['tracking/scorm12-api.js'], 'Scorm12Adapter', this.getTrackingSettings(pages)));
+
+      // Written last so the resource lists every file in the package
+      zip.file('imsmanifest.xml', renderScorm12Manifest(this.getManifest(zip)));
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const filename = `${this.config.lessonTitle?.replace(/[^a-z0-9]/gi, '_') || 'lesson'}_scorm12.zip`;
+      saveAs(blob, filename);
+
+    } catch (error) {
+      console.error('Error generating SCORM 1.2 package:', error);
+      throw error;
+    }
+  }
+
+  protected getPageHeadTags(): string[] {
+    return ['<script src="tracking/lesson-tracking.js"></script>'];
+  }
+
+  protected async addTrackingScripts(zip: JSZip, files: string[]): Promise<void> {
+    for (const file of files) {
+      await this.copyFile(zip, `tracking/${file}`, `${this.trackingPath}/${file}`);
+    }
+  }
+
+  protected getTrackingSettings(pages: StaticPage[]): TrackingSettings {
+    return {
+      title: String(this.getTemplateVariables().lessonTitle),
+      pages: pages.map(page => ({ file: page.fileName, title: page.page.title })),
+      questions: pages.flatMap(page => findGradedQuestions(page.content).map(id => `${page.fileName}#${id}`)),
+      masteryScore: this.config.masteryScore / 100
+    };
+  }
+
+  // scripts are the adapter's own files; the tracker is loaded after them
+  protected renderLaunchPage(scripts: string[], adapter: string, settings: TrackingSettings): string {
+    // "</" would end the inline script early
+    const settingsJson = JSON.stringify(settings, null, 2).replace(/<\//g, '<\\/');
+
+    return `<!doctype html>
+<html lang="${this.getLangCode()}">
+<head>
+    <meta charset="UTF-8">
+    <title>${escapeHtml(settings.title)}</title>
+    <style>
+    html, body { height: 100%; margin: 0; overflow: hidden; }
+    #lesson-frame { display: block; width: 100%; height: 100%; border: 0; }
+    </style>
+${scripts.map(script => `    <script src="${script}"></script>`).join('\n')}
+    <script src="tracking/lesson-tracker.js"></script>
+</head>
+<body>
+    <iframe id="lesson-frame" title="${escapeHtml(settings.title)}"></iframe>
+    <script>
+    LessonTracker.start(${settingsJson.replace(/\n/g, '\n    ')}, ${adapter});
+    </script>
+</body>
+</html>`;
+  }
+
+  // One objective per line of the lesson's objectives, list markers dropped
+  protected getObjectives(): ScormObjective[] {
+    return (this.config.objectives || '')
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean)
+      .map((description, index) => ({ id: `objective-${index + 1}`, description }));
+  }
+
+  protected getManifest(zip: JSZip): ScormManifest {
+    const templateVariables = this.getTemplateVariables();
+
+    return {
+      identifier: toManifestIdentifier(`MetEd_${this.config.lessonId || templateVariables.lessonTitle}`),
+      title: String(templateVariables.lessonTitle),
+      description: this.config.description || '',
+      keywords: (this.config.keywords || '').split(',').map(keyword => keyword.trim()).filter(Boolean),
+      language: this.getLangCode(),
+      version: this.config.version || '1.0',
+      publicationDate: this.config.publicationDate || undefined,
+      copyright: `© ${templateVariables.copyrightYear}, The University Corporation for Atmospheric Research. ${this.getAllRightsReservedText()}`,
+      launch: LAUNCH_PAGE,
+      files: Object.keys(zip.files).filter(path => !zip.files[path].dir && path !== 'imsmanifest.xml')
+    };
+  }
+}
+
+// The static lesson as a SCORM 2004 4th Edition package with one SCO per level-1 unit, each
+// started from its own launch page. A link to a page of another unit hands the LMS a
+// navigation request for that unit's SCO, so back/next and the table of contents keep working.
+export class Scorm2004PackageGenerator extends Scorm12PackageGenerator {
+  async generateLesson(): Promise<void> {
+    try {
+      const zip = new JSZip();
+      const pages = await this.addStaticLesson(zip);
+      await this.addTrackingScripts(zip, ['lesson-tracking.js', 'lesson-tracker.js', 'scorm2004-api.js']);
+
+      const units = this.getUnits(pages);
+      if (this.config.scormSequencing === 'flow') {
+        this.checkFlowLinks(units);
+      }
+      units.forEach(unit => {
+        zip.file(unit.item.launch!, this.renderLaunchPage(['tracking/scorm2004-api.js'], 'Scorm2004Adapter', this.getUnitTrackingSettings(units, unit)));
+      });
+
+      // Everything the units don't list for themselves goes in the shared resource
+      const unitFiles = units.flatMap(unit => [unit.item.launch!, ...unit.item.files!]);
+      const manifest = this.getManifest(zip);
+      zip.file('imsmanifest.xml', renderScorm2004Manifest({
+        ...manifest,
+        files: manifest.files.filter(file => !unitFiles.includes(file)),
+        sequencing: this.config.scormSequencing,
+        objectives: this.getObjectives(),
+        items: this.getOrganizationItems(units)
+      }));
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const filename = `${this.config.lessonTitle?.replace(/[^a-z0-9]/gi, '_') || 'lesson'}_scorm2004.zip`;
+      saveAs(blob, filename);
+
+    } catch (error) {
+      console.error('Error generating SCORM 2004 package:', error);
+      throw error;
+    }
+  }
+
+  private getUnits(pages: StaticPage[]): ScormUnit[] {
+    return groupByUnit(pages).map((unitPages, index) => ({
+      item: {
+        identifier: `ITEM-${index + 1}`,
+        title: unitPages[0].unit.title,
+        launch: `launch_${index + 1}.html`,
+        files: unitPages.map(page => page.fileName),
+        graded: unitPages.some(page => findGradedQuestions(page.content).length > 0)
+      },
+      chapterNumber: unitPages[0].chapterNumber,
+      pages: unitPages
+    }));
+  }
+
+  // Flow sequencing can only move one unit on or back, so a content link that skips a unit
+  // would open the neighbouring unit instead of the page it names. Those links stop the
+  // export, with the pages to fix.
+  private checkFlowLinks(units: ScormUnit[]): void {
+    const unitIndexes = new Map(units.flatMap((unit, index) => unit.pages.map(page => [page.fileName, index] as const)));
+    const skipping = new Set<string>();
+
+    units.forEach((unit, index) => unit.pages.forEach(page => {
+      for (const [, file] of page.content.matchAll(/href="([^"#]*)/g)) {
+        const target = unitIndexes.get(file);
+        if (target !== undefined && Math.abs(target - index) > 1) {
+          skipping.add(`"${page.page.title}" links to a page in "${units[target].item.title}"`);
+        }
+      }
+    }));
+
+    if (skipping.size > 0) {
+      throw new Error(`With Flow sequencing learners can only move to the next or previous unit, so these links can't be followed: ${[...skipping].join('; ')}. Link to a neighbouring unit instead, or choose Choice sequencing in Template Settings.`);
+    }
+  }
+
+  // Units sit in an item per chapter once there is more than one chapter
+  private getOrganizationItems(units: ScormUnit[]): ScormItem[] {
+    if (this.config.chapters.length === 1) {
+      return units.map(unit => unit.item);
+    }
+
+    return this.config.chapters.map((chapter, index) => ({
+      identifier: `CHAPTER-${index + 1}`,
+      title: chapter.title,
+      children: units.filter(unit => unit.chapterNumber === index + 1).map(unit => unit.item)
+    }));
+  }
+
+  // Under "flow" sequencing only Continue and Previous are allowed, so a page in a later
+  // unit moves on one unit and a page in an earlier one back one
+  private getUnitTrackingSettings(units: ScormUnit[], unit: ScormUnit): TrackingSettings {
+    const position = units.indexOf(unit);
+
+    return {
+      ...this.getTrackingSettings(unit.pages),
+      navigation: units.filter(other => other !== unit).flatMap(other => other.pages.map(page => ({
+        file: page.fileName,
+        request: this.config.scormSequencing === 'choice'
+          ? `{target=${other.item.identifier}}choice`
+          : units.indexOf(other) > position ? 'continue' : 'previous'
+      }))),
+      objectives: this.getObjectives()
+    };
+  }
+}
+
+// Multiple choice and dropdown questions are the ones the tracking layer grades; drag and
+// draw exercises have no right answer to check
+export function findGradedQuestions(html: string): string[] {
+  const pattern = /<div id="([^"]+)" class="panel panel-default interaction-question">\s*<div class="panel-body">\s*<div class="question-wrap (?:radio|inlinedropdowns)">/g;
+  return [...html.matchAll(pattern)].map(match => match[1]);
+}
@@ -0,0 +1,355 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { flattenMenu, renderPageSection, type RenderablePage } from './contentRenderer';
+import { escapeAttribute, escapeHtml, indent } from './html';
+import { LatestCorePhpGenerator } from './latestCorePhpGenerator';
+import { resolvePageLink } from './pageRenumbering';
+
+// One lesson page pre-rendered to its own HTML file
+export interface StaticPage {
+  fileName: string;
+  chapterNumber: number;
+  unit: RenderablePage; // Level-1 page the page sits under (or is)
+  page: RenderablePage;
+  content: string; // The page section as rendered for the screen version
+}
+
+// What navmenu.php would serve for each page, written out ahead of time: the same layout as
+// pageTemplate.php with the table of contents, unit menu, print link and back/next buttons
+// already in place, so the lesson needs no PHP or server and opens from any static host or
+// straight from disk (latest_core_lms_agnostic). The LMS packages build on this and add their
+// tracking scripts.
+export class StaticLessonGenerator extends LatestCorePhpGenerator {
+  protected staticPath = '/src/utils/templates/static';
+
+  async generateLesson(): Promise<void> {
+    try {
+      const zip = new JSZip();
+      const pages = await this.addStaticLesson(zip);
+      zip.file('index.html', this.renderIndexPage(pages[0].fileName));
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const filename = `${this.config.lessonTitle?.replace(/[^a-z0-9]/gi, '_') || 'lesson'}_static.zip`;
+      saveAs(blob, filename);
+
+    } catch (error) {
+      console.error('Error generating static lesson package:', error);
+      throw error;
+    }
+  }
+
+  // Template styles and scripts, uploaded assets, one HTML file per content page and the
+  // print version of every chapter, which no lesson is built from and so gets the answer key
+  protected async addStaticLesson(zip: JSZip): Promise<StaticPage[]> {
+    // index.html, the print pages' home link and the LMS launch pages all open the first page
+    const pages = this.getStaticPages();
+    if (pages.length === 0) {
+      throw new Error('The lesson has no pages to export. Inner nodes only appear in the table of contents, so add at least one content page.');
+    }
+
+    await this.copyAssetDirectories(zip);
+    // Stands in for the MetEd host's defaults.js on the question Done buttons
+    await this.copyFile(zip, 'jquery/questions.js', `${this.staticPath}/questions.js`);
+    this.addUploadedAssets(zip);
+
+    pages.forEach((page, index) => {
+      zip.file(page.fileName, this.renderStaticPage(pages, index));
+    });
+    this.config.chapters.forEach((chapter, index) => {
+      const firstPage = pages.find(page => page.chapterNumber === index + 1);
+      const homeLink = firstPage ? firstPage.fileName : pages[0].fileName;
+      zip.file(getStaticPrintFileName(index + 1), this.renderChapterPrintPage(chapter, homeLink, true, [], sections => this.resolveContentLinks(pages, sections, index + 1)));
+    });
+    return pages;
+  }
+
+  // Extra tags for the head of every page, such as the tracking scripts of the LMS packages
+  protected getPageHeadTags(): string[] {
+    return [];
+  }
+
+  // Content pages of every chapter in lesson order. Inner nodes only exist in the table of
+  // contents, where they link to the page that follows them (navmenu.inc.php's checkPage).
+  protected getStaticPages(): StaticPage[] {
+    const pages = this.config.chapters.flatMap((_, chapterIndex) => {
+      const chapterNumber = chapterIndex + 1;
+      return this.getChapterUnits(chapterIndex).flatMap(unit => flattenMenu([unit])
+        .filter(page => !page.innerNode)
+        .map(page => ({
+          fileName: getStaticPageFileName(chapterNumber, page.page),
+          chapterNumber,
+          unit,
+          page,
+          content: renderPageSection(page, {
+            printVersion: false,
+            resolveMedia: (id) => this.resolveMedia(id)
+          })
+        })));
+    });
+
+    return pages.map(page => ({ ...page, content: this.resolveContentLinks(pages, page.content, page.chapterNumber) }));
+  }
+
+  // Author links into the lesson (#page_X, print_N.php#page_X, navmenu.php?tab=N&page=X)
+  // go to the page's own file, which is also what the LMS trackers see as a page change.
+  // `chapterNumber` is the chapter the HTML sits in, for links without one.
+  private resolveContentLinks(pages: StaticPage[], html: string, chapterNumber: number): string {
+    return html.replace(/href="([^"]*)"/g, (_, href: string) => {
+      const target = resolvePageLink(href, chapterNumber, (targetChapter, pageId) => pageId
+        ? this.findLinkTarget(pages, targetChapter, pageId)
+        : pages.find(page => page.chapterNumber === targetChapter)?.fileName);
+      return `href="${target}"`;
+    });
+  }
+
+  protected getChapterUnits(chapterIndex: number): RenderablePage[] {
+    return this.config.chapters[chapterIndex].pages.map((page, index) => this.toRenderablePage(page, `${index + 1}-0-0`));
+  }
+
+  protected renderStaticPage(pages: StaticPage[], index: number): string {
+    const current = pages[index];
+    const templateVariables = this.getTemplateVariables();
+    const lessonTitle = escapeHtml(String(templateVariables.lessonTitle));
+    const menu = this.renderStaticMenu(this.getChapterUnits(current.chapterNumber - 1), pages, current);
+    const headTags = this.getPageHeadTags();
+
+    return `<!doctype html>
+<html lang="${this.getLangCode()}">
+<head>
+    <meta charset="UTF-8">
+    <title>${lessonTitle}</title>
+    <meta name="viewport" content="width=device-width">
+    <meta name="viewport" content="initial-scale=1.0">
+<!-- =CORE TAGS START= -->
+    <link rel="stylesheet" type="text/css" media="screen" href="bootstrap/css/bootstrap.min.css">
+    <link rel="stylesheet" type="text/css" media="screen" href="jquery/jquery-ui.min.css">
+    <link rel="stylesheet" type="text/css" media="screen" href="css/meted-base.min.css">
+    <script src="jquery/jquery.min.js"></script>
+    <script src="jquery/jquery-ui.min.js"></script>
+    <script src="jquery/jquery-plugins.min.js"></script>
+    <script src="bootstrap/js/bootstrap.min.js"></script>
+    <script src="modernizr/modernizr.min.js"></script>
+    <script src="jquery/apps/drag/drag.js"></script>
+    <script src="jquery/apps/draw/draw.js"></script>
+    <link rel="stylesheet" type="text/css" media="screen" href="jquery/apps/image-sweep/image-sweep.css">
+    <script src="jquery/apps/image-sweep/image-sweep.js"></script>
+    <link rel="stylesheet" type="text/css" media="screen" href="css/module-custom.css">
+    <link rel="stylesheet" type="text/css" media="print" href="css/module-print.css">
+    <script src="jquery/questions.js"></script>
+<!-- =CORE TAGS END= -->
+    <script type="text/javascript">
+    var printVersion = false;
+    </script>
+${headTags.length > 0 ? indent(headTags.join('\n'), 4) + '\n' : ''}
+<!-- IE SUPPORT ===================================-->
+<!--[if lte IE 9]>
+    <script type="text/javascript" src="jquery/apps/draw/excanvas.js"></script>
+    <script type="text/javascript" src="ie-support/respond.js"></script>
+    <link rel="stylesheet" type="text/css" media="screen" href="ie-support/ie-support.css" />
+<![endif]-->
+</head>
+<body>
+    <!--NAVBAR-->
+    <nav class="navbar navbar-inverse navbar-fixed-top">
+        <div class="container">
+            <div class="navbar-header">
+                <button type="button" class="navbar-toggle collapsed" data-toggle="collapse" data-target="#navbar"
+                    aria-expanded="false" aria-controls="navbar">
+                    <span class="sr-only">Toggle navigation</span>
+                    <span class="icon-bar"></span>
+                    <span class="icon-bar"></span>
+                    <span class="icon-bar"></span>
+                </button>
+            </div>
+            <div id="navbar" class="navbar-collapse collapse">
+                <ul class="nav navbar-nav navbar-right">
+                    <li class="active"><a href="${pages[0].fileName}">${this.getLessonText()}</a></li>
+                </ul>
+            </div>
+        </div>
+    </nav>
+
+    <main id="master-container" class="container">
+        <div class="row">
+            <div id="lesson-sidebar" class="col-sm-3">
+                <h2 id="lesson-sidebar-title">${lessonTitle}</h2>
+                <!--  Table of Contents -->
+                <nav id="menu" class="sidebar-toc">
+${indent(this.renderUnitMenu(pages, current), 20)}
+                    <hr>
+                    <ul class="nav lc-docs-sidenav" style="display:block;">
+${indent(menu, 24)}
+                    </ul>
+                </nav>
+            </div>
+
+            <section id="lesson-content" class="col-sm-9">
+                <div id="print-button">
+                    <a href="${getStaticPrintFileName(current.chapterNumber)}"><span class="glyphicon glyphicon-print"></span> ${this.getPrintText()}</a>
+                </div>
+${indent(current.content, 16)}
+${indent(this.renderBackNext(pages, index), 16)}
+            </section>
+        </div>
+
+        <!--FOOTER-->
+        <footer id="lesson-footer" class="row">
+            <div class="col-md-8">
+                <p id="lesson-copyright">&copy; ${templateVariables.copyrightYear}, <a href="https://www.ucar.edu/">The University Corporation for Atmospheric Research</a> - ${this.getAllRightsReservedText()}</p>
+            </div>
+            <div class="col-md-4">
+                <ul id="parent-links">
+                    <li><a href="${this.getLegalNoticesUrl()}">${this.getLegalNoticesText()}</a></li>
+                    <li><a href="https://www.comet.ucar.edu/">COMET</a></li>
+                    <li><a href="https://www.meted.ucar.edu/">MetEd</a></li>
+                </ul>
+            </div>
+        </footer>
+    </main>
+
+    <!-- Quiz/Survey Prompts -->
+    <div id="quiz-prompt"></div>
+</body>
+</html>`;
+  }
+
+  // Start page for static hosts, which serve index.html for the bare directory
+  private renderIndexPage(firstPage: string): string {
+    return `<!doctype html>
+<html lang="${this.getLangCode()}">
+<head>
+    <meta charset="UTF-8">
+    <title>${escapeHtml(String(this.getTemplateVariables().lessonTitle))}</title>
+    <meta http-equiv="refresh" content="0; url=${firstPage}">
+</head>
+<body>
+    <p><a href="${firstPage}">${this.getLessonText()}</a></p>
+</body>
+</html>`;
+  }
+
+  // The multi-print unit selector of pageTemplate.php with getTabMenu()'s list, each unit
+  // linking to its first page instead of navmenu.php?tab=N. Single-chapter lessons have none.
+  private renderUnitMenu(pages: StaticPage[], current: StaticPage): string {
+    const chapters = this.config.chapters;
+    if (chapters.length < 2) {
+      return '<div class="btn-group"></div>';
+    }
+
+    const items = chapters.map((chapter, index) => {
+      const firstPage = pages.find(page => page.chapterNumber === index + 1);
+      const active = index + 1 === current.chapterNumber ? ' class="active"' : '';
+      const link = firstPage ? firstPage.fileName : '#';
+      return `    <li${active}><a href="${link}">Unit ${index + 1} - ${escapeHtml(chapter.title)}</a></li>`;
+    });
+
+    return [
+      '<div class="btn-group">',
+      `    <a href="#" data-toggle="dropdown"><h4 id="lesson-sidebar-unit-title">${escapeHtml(chapters[current.chapterNumber - 1].title)} <span class="caret"></span></h4></a>`,
+      '    <ul class="nav dropdown-menu unit-dropdown-ul" role="menu" id="tab_nav">',
+      indent(items.join('\n'), 4),
+      '    </ul>',
+      '</div>'
+    ].join('\n');
+  }
+
+  // The chapter's table of contents as navmenu.inc.php's getMenu() leaves it: the current
+  // page marked menu_here and only the branches leading to it (and its own children) open
+  private renderStaticMenu(items: RenderablePage[], pages: StaticPage[], current: StaticPage): string {
+    return items.map(item => {
+      const target = this.findLinkTarget(pages, current.chapterNumber, item.page) ?? '#';
+      const classes = [item.innerNode ? 'innerNode' : '', item.page === current.page.page ? 'menu_here' : ''].filter(Boolean);
+      const link = `<a${classes.length > 0 ? ` class="${classes.join(' ')}"` : ''} href="${escapeAttribute(target)}">${escapeHtml(item.title)}</a>`;
+
+      if (item.children.length === 0) {
+        return `<li>${link}</li>`;
+      }
+
+      const open = flattenMenu([item]).some(page => page.page === current.page.page);
+      return [
+        `<li>${link}`,
+        `    <ul id="ul_${item.page}" style="display:${open ? 'block' : 'none'};">`,
+        indent(this.renderStaticMenu(item.children, pages, current), 8),
+        '    </ul>',
+        '</li>'
+      ].join('\n');
+    }).join('\n');
+  }
+
+  // Inner nodes send the reader on to the first content page after them
+  private findLinkTarget(pages: StaticPage[], chapterNumber: number, pageId: string): string | undefined {
+    if (!this.config.chapters[chapterNumber - 1]) return undefined;
+
+    const chapterPages = pages.filter(page => page.chapterNumber === chapterNumber);
+    const order = flattenMenu(this.getChapterUnits(chapterNumber - 1)).map(page => page.page);
+    const position = order.indexOf(pageId);
+    if (position < 0) return undefined;
+
+    return chapterPages.find(page => order.indexOf(page.page.page) >= position)?.fileName;
+  }
+
+  // Same markup as getBackNextCode(): the first and last page leave their button out, and
+  // crossing into another chapter reads "Previous Unit" / "Next Unit"
+  private renderBackNext(pages: StaticPage[], index: number): string {
+    const current = pages[index];
+    const previous = pages[index - 1];
+    const next = pages[index + 1];
+
+    let previousItem = '<li class="previous invisible"></li>';
+    if (previous) {
+      previousItem = previous.chapterNumber === current.chapterNumber
+        ? `<li class="previous"><a href="${previous.fileName}">&larr; Previous</a></li>`
+        : `<li class="previous unit"><a href="${previous.fileName}">&larr; Previous Unit</a></li>`;
+    }
+
+    let nextItem = '<li class="inactive-next"></li>';
+    if (next) {
+      nextItem = next.chapterNumber === current.chapterNumber
+        ? `<li class="next"><a href="${next.fileName}">Next &rarr;</a></li>`
+        : `<li class="next unit"><a href="${next.fileName}">Next Unit &rarr;</a></li>`;
+    }
+
+    return `<div class="stage_nav"><ul class="pager">${previousItem} ${nextItem}</ul></div>`;
+  }
+
+  private getPrintText(): string {
+    switch (this.getLessonLang()) {
+      case 'ES': return 'Imprimir';
+      case 'FR': return 'Imprimer';
+      default: return 'Print';
+    }
+  }
+
+  private getLessonText(): string {
+    switch (this.getLessonLang()) {
+      case 'ES': return 'Lección';
+      case 'FR': return 'Leçon';
+      default: return 'Lesson';
+    }
+  }
+}
+
+// Page ids restart in every chapter, so pages after the first chapter carry its number
+// the way print_N.php does
+export function getStaticPageFileName(chapterNumber: number, pageId: string): string {
+  return chapterNumber === 1 ? `page_${pageId}.html` : `page_${chapterNumber}_${pageId}.html`;
+}
+
+// Static counterpart of getPrintFileName()
+export function getStaticPrintFileName(chapterNumber: number): string {
+  return chapterNumber === 1 ? 'print.html' : `print_${chapterNumber}.html`;
+}
+
+// The pages of each level-1 unit, in lesson order
+export function groupByUnit(pages: StaticPage[]): StaticPage[][] {
+  const units: StaticPage[][] = [];
+  pages.forEach(page => {
+    const last = units[units.length - 1];
+    if (last && last[0].chapterNumber === page.chapterNumber && last[0].unit === page.unit) {
+      last.push(page);
+    } else {
+      units.push([page]);
+    }
+  });
+  return units;
+}
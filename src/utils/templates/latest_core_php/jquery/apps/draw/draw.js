@@ -11,6 +11,7 @@ $(document).ready(function () {
 	   var drw3Labels = '';
 	   
 	   // Check if parameters are present, else use default
+	   // (the lists go through String(): .data() reads a single number, e.g. data-sizes="6", as a number)
 	   // Path
 	   if ( $(this).data('path') ) {
 		   drw3Path = $(this).data('path');
@@ -25,7 +26,7 @@ $(document).ready(function () {
 	   var h;
 	   if ( $(this).data('colors') )
 	   {
-		   drw3Colors = $(this).data('colors');
+		   drw3Colors = String($(this).data('colors'));
 		   		var colorData = drw3Colors.split(', ');
 		   for (h = 0; h < colorData.length; h++){
 		   		allBrushColors += '<div class="drawtool-swatch" style="background-color:' + colorData[h] + ';"></div>';
@@ -43,7 +44,7 @@ $(document).ready(function () {
 	   var i;
 	   if ( $(this).data('sizes') )
 	   {
-		   drw3BrushSize = $(this).data('sizes');
+		   drw3BrushSize = String($(this).data('sizes'));
 		   var sizeData = drw3BrushSize.split(', ');
 		   for (i = 0; i < sizeData.length; i++){
 		   		allBrushSizes += '<option value="' + sizeData[i] + '">' + sizeData[i] + '</option>';
@@ -64,7 +65,7 @@ $(document).ready(function () {
 	   var j;
 	   if ( $(this).data('labels') )
 	   {
-		   drw3Labels = $(this).data('labels');
+		   drw3Labels = String($(this).data('labels'));
 		   		var labelsData = drw3Labels.split(', ');
 		   
 		   for (j = 0; j < labelsData.length; j++){
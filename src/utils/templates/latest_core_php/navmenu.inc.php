@@ -433,7 +433,7 @@ class Navmenu
 					}
 				}
 			}
-			sort($this->printFiles, SORT_STRING);
+			sort($this->printFiles, SORT_NATURAL);
 			return $this->printFiles;
 		}else
 		{
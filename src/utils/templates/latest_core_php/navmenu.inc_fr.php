@@ -434,7 +434,7 @@ class Navmenu
 					}
 				}
 			}
-			sort($this->printFiles, SORT_STRING);
+			sort($this->printFiles, SORT_NATURAL);
 			return $this->printFiles;
 		}else
 		{
@@ -0,0 +1,144 @@
+<?php
+require_once('navmenu.inc.php');
+
+// One entry per print file: the chapter title and description read from its
+// .chapter_title and .chapter_description elements
+$navmenu = new Navmenu(NULL, NULL, "1", "dyn");
+$templateTitle = $navmenu->getTitle();
+$chapters = $navmenu->getTabObjects();
+?>
+<!doctype html>
+<html lang="<% if (lessonLang === 'ES') { %>es<% } else if (lessonLang === 'FR') { %>fr<% } else { %>en<% } %>">
+<head>
+    <meta charset="UTF-8">
+    <title><?php echo $templateTitle; ?></title>
+    <meta name="viewport" content="width=device-width">
+    <meta name="viewport" content="initial-scale=1.0">
+<!-- =CORE TAGS START= -->
+    <link rel="stylesheet" type="text/css" media="screen" href="bootstrap/css/bootstrap.min.css">
+    <link rel="stylesheet" type="text/css" media="screen" href="css/meted-base.min.css">
+    <script src="jquery/jquery.min.js"></script>
+    <script src="bootstrap/js/bootstrap.min.js"></script>
+    <script src="modernizr/modernizr.min.js"></script>
+    <link rel="stylesheet" type="text/css" media="screen" href="css/module-custom.css">
+<!-- =CORE TAGS END= -->
+
+<!-- IE SUPPORT ===================================-->
+<!--[if lte IE 9]>
+    <script type="text/javascript" src="ie-support/respond.js"></script>
+    <link rel="stylesheet" type="text/css" media="screen" href="ie-support/ie-support.css" />
+<![endif]-->
+</head>
+<body>
+    <!--NAVBAR-->
+    <nav class="navbar navbar-inverse navbar-fixed-top">
+        <div class="container">
+            <div class="navbar-header">
+                <button type="button" class="navbar-toggle collapsed" data-toggle="collapse" data-target="#navbar"
+                    aria-expanded="false" aria-controls="navbar">
+                    <span class="sr-only">Toggle navigation</span>
+                    <span class="icon-bar"></span>
+                    <span class="icon-bar"></span>
+                    <span class="icon-bar"></span>
+                </button>
+            </div>
+            <div id="navbar" class="navbar-collapse collapse">
+            <% if (lessonLang === 'ES') { %>
+                <ul class="nav navbar-nav navbar-right">
+                    <li><a href="index.htm">Inicio</a></li>
+                    <li class="active"><a href="navmenu.php">Lección</a></li>
+                    <li><a href="download.php">Descargar</a></li>
+                    <li><a href="media_gallery.php">Galería multimedia</a></li>
+                    <li><a href="#userQuiz" data-toggle="modal">Prueba</a></li>
+                    <li><a href="#userSurvey" data-toggle="modal">Encuesta</a></li>
+                    <li><a href="" id="booster-link">Refuerzo</a></li>
+                <% if (templateType === 'multi-print' || templateType === 'articulate-shell') { %>
+                    <li><a href="contributors.htm">Colaboradores</a></li>
+            <% } %>
+                </ul>
+            <% } else if (lessonLang === 'FR') { %>
+                <ul class="nav navbar-nav navbar-right">
+                    <li><a href="index.htm">Accueil</a></li>
+                    <li class="active"><a href="navmenu.php">Leçon</a></li>
+                    <li><a href="download.php">Télécharger</a></li>
+                    <li><a href="media_gallery.php">Médiathèque</a></li>
+                    <li><a href="#userQuiz" data-toggle="modal">Questionnaire</a></li>
+                    <li><a href="#userSurvey" data-toggle="modal">Sondage</a></li>
+                    <li><a href="" id="booster-link">Questions de suivi</a></li>
+                <% if (templateType === 'multi-print' || templateType === 'articulate-shell') { %>
+                    <li><a href="contributors.htm">Contributeurs</a></li>
+            <% } %>
+                </ul>
+            <% } else { %>
+                <ul class="nav navbar-nav navbar-right">
+                    <li><a href="index.htm">Home</a></li>
+                    <li class="active"><a href="navmenu.php">Lesson</a></li>
+                    <li><a href="download.php">Download</a></li>
+                    <li><a href="media_gallery.php">Gallery</a></li>
+                    <li><a href="#userQuiz" data-toggle="modal">Quiz</a></li>
+                    <li><a href="#userSurvey" data-toggle="modal">Survey</a></li>
+                    <li><a href="" id="booster-link">Booster</a></li>
+                <% if (templateType === 'multi-print' || templateType === 'articulate-shell') { %>
+                    <li><a href="contributors.htm">Contributors</a></li>
+            <% } %>
+                </ul>
+            <% } %>
+            </div>
+        </div>
+    </nav>
+
+    <main id="master-container" class="container">
+        <div class="row">
+            <section id="lesson-content" class="col-sm-12">
+                <h2><?php echo $templateTitle; ?></h2>
+                <h3><% if (lessonLang === 'ES') { %>Contenido<% } else if (lessonLang === 'FR') { %>Table des matières<% } else { %>Table of Contents<% } %></h3>
+                <div class="list-group">
+                <?php foreach ($chapters as $index => $chapter) { ?>
+                    <a class="list-group-item" href="navmenu.php?tab=<?php echo $index + 1; ?>">
+                        <h4 class="list-group-item-heading">Unit <?php echo $index + 1; ?> - <?php echo $chapter->title; ?></h4>
+                        <p class="list-group-item-text"><?php echo $chapter->description; ?></p>
+                    </a>
+                <?php } ?>
+                </div>
+            </section>
+        </div>
+
+        <!--FOOTER-->
+        <footer id="lesson-footer" class="row">
+            <div class="col-md-8">
+            <% if (lessonLang === 'ES') { %>
+                <p id="lesson-copyright">&copy; <%= copyrightYear %>, <a href="https://www.ucar.edu/">The University Corporation for Atmospheric Research</a> - Reservados todos los derechos.</p>
+            <% } else if (lessonLang === 'FR') { %>
+                <p id="lesson-copyright">&copy; <%= copyrightYear %>, <a href="https://www.ucar.edu/">The University Corporation for Atmospheric Research</a> - Tous droits réservés.</p>
+            <% } else { %>
+                <p id="lesson-copyright">&copy; <%= copyrightYear %>, <a href="https://www.ucar.edu/">The University Corporation for Atmospheric Research</a> - All Rights Reserved.</p>
+            <% } %>
+            </div>
+            <div class="col-md-4">
+            <% if (lessonLang === 'ES') { %>
+                <ul id="parent-links">
+                    <li><a href="https://www.meted.ucar.edu/legal_es.htm">Avisos legales</a></li>
+                    <li><a href="https://www.comet.ucar.edu/">COMET</a></li>
+                    <li><a href="https://www.meted.ucar.edu/index_es.php">MetEd</a></li>
+                </ul>
+            <% } else if (lessonLang === 'FR') { %>
+                <ul id="parent-links">
+                    <li><a href="https://www.meted.ucar.edu/legal.htm">Mentions juridiques</a></li>
+                    <li><a href="https://www.comet.ucar.edu/">COMET</a></li>
+                    <li><a href="https://www.meted.ucar.edu/">MetEd</a></li>
+                </ul>
+            <% } else { %>
+                <ul id="parent-links">
+                    <li><a href="https://www.meted.ucar.edu/legal.htm">Legal Notices</a></li>
+                    <li><a href="https://www.comet.ucar.edu/">COMET</a></li>
+                    <li><a href="https://www.meted.ucar.edu/">MetEd</a></li>
+                </ul>
+            <% } %>
+            </div>
+        </footer>
+    </main>
+
+    <!-- Quiz/Survey Prompts -->
+    <div id="quiz-prompt"></div>
+</body>
+</html>
\ No newline at end of file
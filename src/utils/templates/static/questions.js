@@ -0,0 +1,30 @@
+// QUESTIONS - static pages
+// On MetEd the host's jquery/defaults.js answers the Done buttons; static pages have no
+// host, so every page loads this instead. Done on a multiple choice or dropdown question
+// reveals its answer and feedback, or the "Please make a selection" message while
+// something is still unanswered. Grading for the LMS packages stays in lesson-tracking.js.
+(function ($) {
+
+  function isAnswered(wrap) {
+    if (wrap.hasClass('radio')) {
+      return wrap.find('input[type=radio]:checked').length > 0;
+    }
+    var selects = wrap.find('select');
+    return selects.filter(function () { return this.selectedIndex > 0; }).length === selects.length;
+  }
+
+  $(document).on('click', '.question-wrap.radio .submit-button, .question-wrap.inlinedropdowns .submit-button', function () {
+    var wrap = $(this).closest('.question-wrap');
+    var message = wrap.find('.message');
+
+    if (!isAnswered(wrap)) {
+      message.fadeIn();
+      return;
+    }
+
+    message.hide();
+    wrap.find('.response-group-item.correct').not('.answer').addClass('correct-answer');
+    wrap.find('.answer').slideDown();
+  });
+
+})(jQuery);
@@ -0,0 +1,267 @@
+// cmi5 ADAPTER for LessonTracker
+// Runs the AU side of a cmi5 launch. The LMS opens the AU's launch page with endpoint,
+// fetch, actor, registration and activityId in the query string; the AU trades the fetch
+// URL for its auth token, reads the LMS.LaunchData state document (context template,
+// launch mode, mastery score, return URL) and then sends:
+//
+//   initialized   when the session starts
+//   completed     once every page of the unit has been seen          (Normal launches only)
+//   passed/failed once the unit's questions are scored against the mastery score  (ditto)
+//   terminated    when the window closes, or before returning to the LMS
+//
+// plus "experienced" and "answered" for pages and questions. Which of completed and passed
+// finish the AU is up to the LMS, from the moveOn in cmi5.xml. Both may only be sent once
+// per registration, so the "resume" state document keeps which were, next to the bookmark.
+(function (window) {
+
+  var CMI5_CATEGORY = { id: 'https://w3id.org/xapi/cmi5/context/categories/cmi5' };
+  var MOVEON_CATEGORY = { id: 'https://w3id.org/xapi/cmi5/context/categories/moveon' };
+  var MASTERY_SCORE_EXTENSION = 'https://w3id.org/xapi/cmi5/context/extensions/masteryscore';
+  var VERBS = {
+    initialized: 'http://adlnet.gov/expapi/verbs/initialized',
+    experienced: 'http://adlnet.gov/expapi/verbs/experienced',
+    answered: 'http://adlnet.gov/expapi/verbs/answered',
+    completed: 'http://adlnet.gov/expapi/verbs/completed',
+    passed: 'http://adlnet.gov/expapi/verbs/passed',
+    failed: 'http://adlnet.gov/expapi/verbs/failed',
+    terminated: 'http://adlnet.gov/expapi/verbs/terminated'
+  };
+
+  var launch = null;
+  var auth = null;
+  var launchData = null;
+  var courseId = null;
+  var language = 'en';
+  var startTime = null;
+  var bookmark = '';
+  var score = null;
+  var masteryScore = null;
+  var reported = { completed: false, success: 'unknown' };
+  var returning = false;
+
+  function getLaunchParameters() {
+    var parameters = {};
+    var pairs = window.location.search.replace(/^\?/, '').split('&');
+    for (var i = 0; i < pairs.length; i++) {
+      if (!pairs[i]) continue;
+      var pair = pairs[i].split('=');
+      parameters[decodeURIComponent(pair[0])] = decodeURIComponent(pair.slice(1).join('=').replace(/\+/g, ' '));
+    }
+    return parameters;
+  }
+
+  function request(method, url, body, synchronous) {
+    var xhr = new XMLHttpRequest();
+    xhr.open(method, url, !synchronous);
+    if (auth) {
+      xhr.setRequestHeader('Authorization', auth);
+      xhr.setRequestHeader('X-Experience-API-Version', '1.0.3');
+    }
+    if (body !== undefined) xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.send(body === undefined ? null : JSON.stringify(body));
+    return xhr;
+  }
+
+  // The fetch URL hands out the token only once, so a reload of the launch page reuses it
+  function fetchAuthToken() {
+    var key = 'cmi5-auth:' + launch.fetch;
+    try {
+      var saved = window.sessionStorage.getItem(key);
+      if (saved) return saved;
+    } catch (error) {
+      // No session storage under file:// in some browsers
+    }
+
+    var xhr = request('POST', launch.fetch, undefined, true);
+    var token = xhr.status === 200 ? JSON.parse(xhr.responseText)['auth-token'] : null;
+    if (!token) return null;
+    try {
+      window.sessionStorage.setItem(key, token);
+    } catch (error) {
+      // Same as above
+    }
+    return token;
+  }
+
+  function getStatePath(stateId) {
+    return launch.endpoint + 'activities/state?activityId=' + encodeURIComponent(launch.activityId) +
+      '&agent=' + encodeURIComponent(launch.actor) +
+      '&registration=' + encodeURIComponent(launch.registration) +
+      '&stateId=' + encodeURIComponent(stateId);
+  }
+
+  function readState(stateId) {
+    try {
+      var xhr = request('GET', getStatePath(stateId), undefined, true);
+      return xhr.status === 200 ? JSON.parse(xhr.responseText) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // keepalive lets the terminated statement out while the window is closing
+  function send(method, url, body) {
+    if (window.fetch) {
+      var headers = { 'Authorization': auth, 'X-Experience-API-Version': '1.0.3', 'Content-Type': 'application/json' };
+      window.fetch(url, { method: method, headers: headers, body: JSON.stringify(body), keepalive: true })
+        .catch(function (error) { console.warn('cmi5 request failed:', error); });
+      return;
+    }
+    request(method, url, body, false);
+  }
+
+  function langMap(value) {
+    var map = {};
+    map[language] = value;
+    return map;
+  }
+
+  function getDuration() {
+    return 'PT' + ((new Date() - startTime) / 1000).toFixed(2) + 'S';
+  }
+
+  // Every statement starts from the LMS's context template; the cmi5 defined ones
+  // (initialized, completed, passed, failed, terminated) carry the cmi5 category
+  function sendStatement(verb, object, options) {
+    var context = JSON.parse(JSON.stringify(launchData.contextTemplate || {}));
+    var activities = context.contextActivities = context.contextActivities || {};
+    context.registration = launch.registration;
+    context.language = language;
+
+    if (options.categories) activities.category = (activities.category || []).concat(options.categories);
+    if (options.parent) activities.parent = (activities.parent || []).concat([options.parent]);
+    if (options.extensions) {
+      context.extensions = context.extensions || {};
+      for (var name in options.extensions) context.extensions[name] = options.extensions[name];
+    }
+
+    var statement = {
+      actor: JSON.parse(launch.actor),
+      verb: { id: VERBS[verb], display: { 'en-US': verb } },
+      object: object,
+      context: context,
+      timestamp: new Date().toISOString()
+    };
+    if (options.result) statement.result = options.result;
+    send('POST', launch.endpoint + 'statements', statement);
+  }
+
+  function getAu() {
+    return { id: launch.activityId, objectType: 'Activity' };
+  }
+
+  function isNormal() {
+    return launchData.launchMode === 'Normal';
+  }
+
+  window.Cmi5Adapter = {
+    // settings.activityId (the lesson's IRI, for page and question activities), settings.language
+    initialize: function (settings) {
+      launch = getLaunchParameters();
+      if (!launch.endpoint || !launch.fetch || !launch.actor || !launch.activityId) return null;
+      if (launch.endpoint.charAt(launch.endpoint.length - 1) !== '/') launch.endpoint += '/';
+
+      var token = fetchAuthToken();
+      if (!token) return null;
+      auth = 'Basic ' + token;
+
+      launchData = readState('LMS.LaunchData');
+      if (!launchData) return null;
+
+      courseId = settings.activityId;
+      language = settings.language || language;
+      startTime = new Date();
+      masteryScore = typeof launchData.masteryScore === 'number' ? launchData.masteryScore : null;
+      sendStatement('initialized', getAu(), { categories: [CMI5_CATEGORY] });
+
+      var state = readState('resume') || {};
+      var sent = state.sent || {};
+      reported = { completed: sent.completed === true, success: sent.passed === true ? 'passed' : 'unknown' };
+      bookmark = state.location || '';
+      return { location: bookmark, data: state.data || '', masteryScore: masteryScore };
+    },
+
+    pageViewed: function (page) {
+      bookmark = page.file;
+      sendStatement('experienced', {
+        id: courseId + '/' + page.file,
+        definition: { type: 'http://activitystrea.ms/schema/1.0/page', name: langMap(page.title) }
+      }, { parent: getAu() });
+    },
+
+    saveState: function (data) {
+      send('PUT', getStatePath('resume'), {
+        location: bookmark,
+        data: data,
+        sent: { completed: reported.completed, passed: reported.success === 'passed' }
+      });
+    },
+
+    setScore: function (newScore) {
+      score = newScore;
+    },
+
+    // Completed, passed and failed may only be sent in Normal launches. Completed and passed
+    // go out once per registration, failed once per session; a failed unit can still be
+    // passed later
+    setStatus: function (status) {
+      if (!isNormal()) return;
+
+      if (status.completed && !reported.completed) {
+        reported.completed = true;
+        sendStatement('completed', getAu(), {
+          categories: [CMI5_CATEGORY, MOVEON_CATEGORY],
+          result: { completion: true, duration: getDuration() }
+        });
+      }
+      if (status.success !== 'unknown' && status.success !== reported.success && reported.success !== 'passed') {
+        reported.success = status.success;
+        var extensions = {};
+        if (masteryScore !== null) extensions[MASTERY_SCORE_EXTENSION] = masteryScore;
+        sendStatement(status.success, getAu(), {
+          categories: [CMI5_CATEGORY, MOVEON_CATEGORY],
+          extensions: extensions,
+          result: {
+            score: { scaled: score.scaled, raw: score.correct, min: 0, max: score.total },
+            success: status.success === 'passed',
+            duration: getDuration()
+          }
+        });
+      }
+    },
+
+    recordInteraction: function (result) {
+      sendStatement('answered', {
+        id: courseId + '/' + result.id,
+        definition: {
+          type: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+          interactionType: result.type,
+          description: langMap(result.description),
+          correctResponsesPattern: [result.correctResponse.join('[,]')]
+        }
+      }, {
+        parent: { id: courseId + '/' + result.page },
+        result: { response: result.response.join('[,]'), success: result.correct }
+      });
+    },
+
+    // Statements and state go out as they happen
+    commit: function () {},
+
+    // Pages of other units are launches of other AUs, which only the LMS can start
+    navigate: function () {
+      returning = true;
+    },
+
+    terminate: function () {
+      sendStatement('terminated', getAu(), {
+        categories: [CMI5_CATEGORY],
+        result: { duration: getDuration() }
+      });
+      if (returning && launchData.returnURL) {
+        window.location.href = launchData.returnURL;
+      }
+    }
+  };
+
+})(window);
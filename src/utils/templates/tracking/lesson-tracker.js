@@ -0,0 +1,174 @@
+// LESSON TRACKING - launch side
+// The launch page of an LMS package shows the lesson pages in #lesson-frame and starts
+// LessonTracker with the pages and graded questions of the lesson and an adapter for the
+// LMS's API. The tracker keeps what was seen and answered, works out completion, score and
+// pass/fail, and hands them to the adapter. Adapters implement:
+//
+//   initialize(settings)  -> null outside an LMS, or { location, data, masteryScore }
+//   pageViewed(page)      a page ({ file, title }) is showing; the bookmark
+//   saveState(data)       string to hand back as `data` on the next launch
+//   setScore(score)       { correct, total, scaled }
+//   setStatus(status)     { completed: true/false, success: 'passed' / 'failed' / 'unknown' }
+//   recordInteraction(result)
+//   commit()
+//   terminate(status)     the lesson window is closing
+//   navigate(request)     optional; a page that belongs to another launch of the package
+//                         was opened, and request (from settings.navigation) takes the LMS there
+(function (window) {
+
+  var settings = null;
+  var adapter = null;
+  var visited = [];
+  var answers = [];
+  var finished = false;
+
+  // Saved as one character per page ("1" seen) and per question ("1" right, "0" wrong,
+  // "-" not answered) to stay inside SCORM 1.2's 4096 character suspend_data
+  function restore(data) {
+    var parts = (data || '').split('|');
+    for (var i = 0; i < settings.pages.length; i++) {
+      visited[i] = parts[0] ? parts[0].charAt(i) === '1' : false;
+    }
+    for (var j = 0; j < settings.questions.length; j++) {
+      var answer = parts[1] ? parts[1].charAt(j) : '-';
+      answers[j] = answer === '1' ? true : answer === '0' ? false : null;
+    }
+  }
+
+  function serialize() {
+    var pages = '';
+    var results = '';
+    for (var i = 0; i < visited.length; i++) pages += visited[i] ? '1' : '0';
+    for (var j = 0; j < answers.length; j++) results += answers[j] === null ? '-' : answers[j] ? '1' : '0';
+    return pages + '|' + results;
+  }
+
+  function indexOfPage(file) {
+    for (var i = 0; i < settings.pages.length; i++) {
+      if (settings.pages[i].file === file) return i;
+    }
+    return -1;
+  }
+
+  function getScore() {
+    var correct = 0;
+    for (var i = 0; i < answers.length; i++) {
+      if (answers[i]) correct++;
+    }
+    var total = settings.questions.length;
+    return { correct: correct, total: total, scaled: total > 0 ? correct / total : null };
+  }
+
+  // Complete once every page has been seen; passed or failed once every question has been
+  // answered and there is a mastery score to hold the score against
+  function getStatus() {
+    var completed = true;
+    var answeredAll = true;
+    for (var i = 0; i < visited.length; i++) {
+      if (!visited[i]) completed = false;
+    }
+    for (var j = 0; j < answers.length; j++) {
+      if (answers[j] === null) answeredAll = false;
+    }
+
+    var score = getScore();
+    var success = 'unknown';
+    if (settings.masteryScore !== null && score.scaled !== null && answeredAll) {
+      success = score.scaled >= settings.masteryScore ? 'passed' : 'failed';
+    }
+    return { completed: completed, success: success };
+  }
+
+  // No score is reported before the first answer, so an LMS comparing it against the mastery
+  // score doesn't fail a learner who hasn't reached the questions yet
+  function update() {
+    for (var i = 0; i < answers.length; i++) {
+      if (answers[i] !== null) {
+        adapter.setScore(getScore());
+        break;
+      }
+    }
+    adapter.setStatus(getStatus());
+    adapter.saveState(serialize());
+    adapter.commit();
+  }
+
+  // The LMS takes over once it has the navigation request, so the session ends here
+  function leave(file) {
+    var navigation = settings.navigation || [];
+    for (var i = 0; i < navigation.length; i++) {
+      if (navigation[i].file === file && adapter.navigate) {
+        adapter.navigate(navigation[i].request);
+        finish();
+        return;
+      }
+    }
+  }
+
+  function finish() {
+    if (!adapter || finished) return;
+    finished = true;
+    adapter.terminate(getStatus());
+  }
+
+  window.LessonTracker = {
+    // settings: { title, pages: [{ file, title }], questions: ['page_1-0-0.html#q-1-0-0-1', ...], masteryScore,
+    //             navigation: [{ file, request }], plus whatever the adapter reads }
+    start: function (lessonSettings, lmsAdapter) {
+      settings = lessonSettings;
+      if (settings.masteryScore === undefined) settings.masteryScore = null;
+
+      var saved = lmsAdapter.initialize(settings);
+      var frame = document.getElementById('lesson-frame');
+      var first = settings.pages[0].file;
+
+      // Outside an LMS the pages still show; nothing is tracked
+      if (!saved) {
+        frame.src = first;
+        return;
+      }
+
+      adapter = lmsAdapter;
+      restore(saved.data);
+      if (typeof saved.masteryScore === 'number' && !isNaN(saved.masteryScore)) {
+        settings.masteryScore = saved.masteryScore;
+      }
+      frame.src = indexOfPage(saved.location) >= 0 ? saved.location : first;
+
+      window.addEventListener('pagehide', finish);
+      window.addEventListener('beforeunload', finish);
+    },
+
+    pageViewed: function (file) {
+      if (!adapter) return;
+
+      var index = indexOfPage(file);
+      if (index < 0) {
+        leave(file);
+        return;
+      }
+
+      visited[index] = true;
+      adapter.pageViewed(settings.pages[index]);
+      update();
+    },
+
+    // result: { id, page, type, description, response: [], correctResponse: [], correct }
+    // with one response per blank of a fill-in question
+    questionAnswered: function (result) {
+      var index = -1;
+      for (var i = 0; adapter && i < settings.questions.length; i++) {
+        if (settings.questions[i] === result.id) index = i;
+      }
+      if (index < 0) return;
+
+      answers[index] = result.correct;
+      adapter.recordInteraction(result);
+      update();
+    },
+
+    // Ends the session before the LMS closes the window, e.g. from an "Exit" link
+    finish: finish
+  };
+
+})(window);
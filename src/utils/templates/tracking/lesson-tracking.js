@@ -0,0 +1,75 @@
+// LESSON TRACKING - page side
+// Every page of an LMS package loads this. It tells the tracker in the launch page which
+// page is showing and grades the multiple choice and dropdown questions when Done is
+// pressed. Opened outside the launch page (no tracker above it) it does nothing.
+(function ($) {
+
+  function findTracker() {
+    try {
+      if (window.parent !== window && window.parent.LessonTracker) {
+        return window.parent.LessonTracker;
+      }
+    } catch (error) {
+      // A parent from another origin is not ours
+    }
+    return null;
+  }
+
+  var tracker = findTracker();
+  if (!tracker) return;
+
+  var page = window.location.pathname.split('/').pop();
+
+  // The option letter picked, graded against the answer marked "correct"
+  function gradeRadio(wrap) {
+    var checked = wrap.find('input[type=radio]:checked');
+    if (checked.length === 0) return null;
+
+    return {
+      type: 'choice',
+      response: [checked.val()],
+      correctResponse: [wrap.find('.response-group-item.correct input').val()],
+      correct: checked.closest('.response-group-item').hasClass('correct')
+    };
+  }
+
+  // Every dropdown must be answered; data-correct holds the right option's index
+  function gradeDropdowns(wrap) {
+    var selects = wrap.find('select');
+    var answered = selects.filter(function () { return this.selectedIndex > 0; });
+    if (selects.length === 0 || answered.length < selects.length) return null;
+
+    var responses = [];
+    var correctResponses = [];
+    var correct = true;
+    selects.each(function () {
+      var rightIndex = parseInt($(this).attr('data-correct'), 10);
+      responses.push($(this.options[this.selectedIndex]).text());
+      correctResponses.push(this.options[rightIndex] ? $(this.options[rightIndex]).text() : '');
+      if (this.selectedIndex !== rightIndex) correct = false;
+    });
+
+    return {
+      type: 'fill-in',
+      response: responses,
+      correctResponse: correctResponses,
+      correct: correct
+    };
+  }
+
+  $(function () {
+    tracker.pageViewed(page);
+
+    $(document).on('click', '.question-wrap.radio .submit-button, .question-wrap.inlinedropdowns .submit-button', function () {
+      var wrap = $(this).closest('.question-wrap');
+      var result = wrap.hasClass('radio') ? gradeRadio(wrap) : gradeDropdowns(wrap);
+      if (!result) return;
+
+      result.id = page + '#' + wrap.closest('.interaction-question').attr('id');
+      result.page = page;
+      result.description = $.trim(wrap.find('h4').first().nextUntil('form').text()).replace(/\s+/g, ' ');
+      tracker.questionAnswered(result);
+    });
+  });
+
+})(jQuery);
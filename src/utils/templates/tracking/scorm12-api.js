@@ -0,0 +1,116 @@
+// SCORM 1.2 ADAPTER for LessonTracker
+// Finds the LMS's API object in a parent or opener window and reports through the
+// cmi.core data model: lesson_status, lesson_location (the bookmark), score and
+// session_time, with suspend_data carrying the pages seen and questions answered.
+(function (window) {
+
+  function findAPI(win) {
+    var tries = 0;
+    while (win && !win.API && win.parent && win.parent !== win && tries < 10) {
+      tries++;
+      win = win.parent;
+    }
+    return win && win.API ? win.API : null;
+  }
+
+  var api = null;
+  var startTime = null;
+
+  function getValue(name) {
+    return String(api.LMSGetValue(name) || '');
+  }
+
+  function setValue(name, value) {
+    return api.LMSSetValue(name, String(value));
+  }
+
+  // CMITimespan: HHHH:MM:SS.SS
+  function formatTimespan(milliseconds) {
+    var seconds = milliseconds / 1000;
+    var hours = Math.floor(seconds / 3600);
+    var minutes = Math.floor((seconds % 3600) / 60);
+    var rest = (seconds % 60).toFixed(2);
+    function pad(value, length) {
+      value = String(value);
+      while (value.length < length) value = '0' + value;
+      return value;
+    }
+    return pad(hours, 4) + ':' + pad(minutes, 2) + ':' + pad(rest, 5);
+  }
+
+  // CMIIdentifier: no spaces or punctuation beyond - and _
+  function toIdentifier(value) {
+    return String(value).replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 255);
+  }
+
+  function toStatus(status) {
+    if (status.completed && status.success !== 'unknown') return status.success;
+    return status.completed ? 'completed' : 'incomplete';
+  }
+
+  window.Scorm12Adapter = {
+    initialize: function () {
+      api = findAPI(window) || (window.opener ? findAPI(window.opener) : null);
+      if (!api || String(api.LMSInitialize('')) !== 'true') {
+        api = null;
+        return null;
+      }
+
+      startTime = new Date();
+      var status = getValue('cmi.core.lesson_status');
+      if (status === '' || status === 'not attempted') {
+        setValue('cmi.core.lesson_status', 'incomplete');
+      }
+
+      var masteryScore = getValue('cmi.student_data.mastery_score');
+      return {
+        location: getValue('cmi.core.lesson_location'),
+        data: getValue('cmi.suspend_data'),
+        masteryScore: masteryScore === '' ? null : parseFloat(masteryScore) / 100
+      };
+    },
+
+    pageViewed: function (page) {
+      setValue('cmi.core.lesson_location', page.file);
+    },
+
+    saveState: function (data) {
+      setValue('cmi.suspend_data', data);
+    },
+
+    // The LMS compares raw against its mastery score, so the score is a percentage
+    setScore: function (score) {
+      setValue('cmi.core.score.min', 0);
+      setValue('cmi.core.score.max', 100);
+      setValue('cmi.core.score.raw', Math.round(score.scaled * 100));
+    },
+
+    setStatus: function (status) {
+      setValue('cmi.core.lesson_status', toStatus(status));
+    },
+
+    // Interactions are write-only in SCORM 1.2, so every answer is a new entry
+    recordInteraction: function (result) {
+      var prefix = 'cmi.interactions.' + getValue('cmi.interactions._count') + '.';
+      setValue(prefix + 'id', toIdentifier(result.id));
+      setValue(prefix + 'type', result.type);
+      setValue(prefix + 'student_response', result.response.join(','));
+      setValue(prefix + 'correct_responses.0.pattern', result.correctResponse.join(','));
+      setValue(prefix + 'result', result.correct ? 'correct' : 'wrong');
+    },
+
+    commit: function () {
+      api.LMSCommit('');
+    },
+
+    // A lesson left unfinished is suspended so the next launch resumes at the bookmark
+    terminate: function (status) {
+      setValue('cmi.core.lesson_status', toStatus(status));
+      setValue('cmi.core.exit', status.completed ? '' : 'suspend');
+      setValue('cmi.core.session_time', formatTimespan(new Date() - startTime));
+      api.LMSCommit('');
+      api.LMSFinish('');
+    }
+  };
+
+})(window);
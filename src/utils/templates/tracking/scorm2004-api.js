@@ -0,0 +1,141 @@
+// SCORM 2004 ADAPTER for LessonTracker
+// Finds the LMS's API_1484_11 object in a parent or opener window. Completion and success
+// are reported separately (cmi.completion_status, cmi.success_status) with the score as
+// cmi.score.scaled, and the lesson objectives listed in settings.objectives follow the
+// SCO's own status. Links to another unit become adl.nav.request navigation requests.
+(function (window) {
+
+  function findAPI(win) {
+    var tries = 0;
+    while (win && !win.API_1484_11 && win.parent && win.parent !== win && tries < 10) {
+      tries++;
+      win = win.parent;
+    }
+    return win && win.API_1484_11 ? win.API_1484_11 : null;
+  }
+
+  var api = null;
+  var startTime = null;
+  var objectives = [];
+
+  function getValue(name) {
+    return String(api.GetValue(name) || '');
+  }
+
+  function setValue(name, value) {
+    return api.SetValue(name, String(value));
+  }
+
+  // timeinterval (second,10,2): ISO 8601 duration, e.g. PT1H5M12.5S
+  function formatDuration(milliseconds) {
+    var seconds = milliseconds / 1000;
+    var hours = Math.floor(seconds / 3600);
+    var minutes = Math.floor((seconds % 3600) / 60);
+    return 'PT' + hours + 'H' + minutes + 'M' + (seconds % 60).toFixed(2) + 'S';
+  }
+
+  // long_identifier_type; the page#question ids are kept readable
+  function toIdentifier(value) {
+    return String(value).replace(/[^A-Za-z0-9_.-]/g, '_').slice(0, 4000);
+  }
+
+  // Objectives that are already there from an earlier session keep their place
+  function findObjectives(list) {
+    var count = parseInt(getValue('cmi.objectives._count'), 10) || 0;
+    var found = [];
+    for (var i = 0; i < list.length; i++) {
+      var index = -1;
+      for (var j = 0; j < count; j++) {
+        if (getValue('cmi.objectives.' + j + '.id') === list[i].id) index = j;
+      }
+      if (index < 0) {
+        index = count++;
+        setValue('cmi.objectives.' + index + '.id', list[i].id);
+        setValue('cmi.objectives.' + index + '.description', list[i].description);
+      }
+      found.push(index);
+    }
+    return found;
+  }
+
+  window.Scorm2004Adapter = {
+    initialize: function (settings) {
+      api = findAPI(window) || (window.opener ? findAPI(window.opener) : null);
+      if (!api || String(api.Initialize('')) !== 'true') {
+        api = null;
+        return null;
+      }
+
+      startTime = new Date();
+      var status = getValue('cmi.completion_status');
+      if (status === '' || status === 'unknown' || status === 'not attempted') {
+        setValue('cmi.completion_status', 'incomplete');
+      }
+      objectives = findObjectives(settings.objectives || []);
+
+      var masteryScore = getValue('cmi.scaled_passing_score');
+      return {
+        location: getValue('cmi.location'),
+        data: getValue('cmi.suspend_data'),
+        masteryScore: masteryScore === '' ? null : parseFloat(masteryScore)
+      };
+    },
+
+    pageViewed: function (page) {
+      setValue('cmi.location', page.file);
+    },
+
+    saveState: function (data) {
+      setValue('cmi.suspend_data', data);
+    },
+
+    setScore: function (score) {
+      setValue('cmi.score.min', 0);
+      setValue('cmi.score.max', score.total);
+      setValue('cmi.score.raw', score.correct);
+      setValue('cmi.score.scaled', score.scaled);
+    },
+
+    setStatus: function (status) {
+      var completion = status.completed ? 'completed' : 'incomplete';
+      setValue('cmi.completion_status', completion);
+      setValue('cmi.success_status', status.success);
+      for (var i = 0; i < objectives.length; i++) {
+        setValue('cmi.objectives.' + objectives[i] + '.completion_status', completion);
+        setValue('cmi.objectives.' + objectives[i] + '.success_status', status.success);
+      }
+    },
+
+    // Every answer is journaled as a new entry, the way SCORM 1.2 has to; responses of
+    // several blanks are separated with [,]
+    recordInteraction: function (result) {
+      var prefix = 'cmi.interactions.' + getValue('cmi.interactions._count') + '.';
+      setValue(prefix + 'id', toIdentifier(result.id));
+      setValue(prefix + 'type', result.type);
+      setValue(prefix + 'timestamp', new Date().toISOString().slice(0, 19) + 'Z');
+      setValue(prefix + 'description', result.description);
+      setValue(prefix + 'learner_response', result.response.join('[,]'));
+      setValue(prefix + 'correct_responses.0.pattern', result.correctResponse.join('[,]'));
+      setValue(prefix + 'result', result.correct ? 'correct' : 'incorrect');
+    },
+
+    commit: function () {
+      api.Commit('');
+    },
+
+    // "continue", "previous" or "{target=ITEM-n}choice"; the LMS acts on it at Terminate
+    navigate: function (request) {
+      setValue('adl.nav.request', request);
+    },
+
+    // A unit left unfinished is suspended so the next launch resumes at the bookmark
+    terminate: function (status) {
+      this.setStatus(status);
+      setValue('cmi.exit', status.completed ? 'normal' : 'suspend');
+      setValue('cmi.session_time', formatDuration(new Date() - startTime));
+      api.Commit('');
+      api.Terminate('');
+    }
+  };
+
+})(window);
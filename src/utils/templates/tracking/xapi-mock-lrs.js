@@ -0,0 +1,192 @@
+// xAPI MOCK LRS (not part of the package)
+// A stand-in Learning Record Store for checking an xAPI export without a real one. Run it
+// with Node from the repo, pointing it at an extracted package:
+//
+//   node src/utils/templates/tracking/xapi-mock-lrs.js path/to/extracted/package [port]
+//
+// It serves the package at http://localhost:8080/ and the LRS at http://localhost:8080/xapi/
+// (set that as the LRS Endpoint in Template Settings, or open launch.html?endpoint=...).
+// Statements are printed as they arrive and kept in memory with the State API documents,
+// so a reload of launch.html resumes the way a second launch would.
+//
+// For a cmi5 export, open http://localhost:8080/cmi5/ instead: it plays the LMS, writing the
+// LMS.LaunchData state and a one-time fetch URL for whichever AU of cmi5.xml is launched.
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+
+const root = process.argv[2] || '.';
+const port = Number(process.argv[3]) || 8080;
+
+const statements = [];
+const states = new Map();
+const tokens = new Map();
+const learner = { objectType: 'Agent', name: 'Test Learner', account: { homePage: 'http://localhost', name: 'test-learner' } };
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.mp4': 'video/mp4',
+  '.mp3': 'audio/mpeg',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2'
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Experience-API-Version',
+  'X-Experience-API-Version': '1.0.3'
+};
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function reply(response, status, body) {
+  const headers = { ...CORS_HEADERS };
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  response.writeHead(status, headers);
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function getStateKey(activityId, agent, stateId, registration) {
+  return [activityId, agent, stateId, registration].map(value => value || '').join('\n');
+}
+
+function describeUser(authorization) {
+  if (!authorization || !authorization.startsWith('Basic ')) return 'no credentials';
+  return `as "${Buffer.from(authorization.slice(6), 'base64').toString().split(':')[0]}"`;
+}
+
+function logStatement(statement) {
+  const verb = statement.verb.display ? Object.values(statement.verb.display)[0] : statement.verb.id;
+  const result = statement.result ? ` ${JSON.stringify(statement.result)}` : '';
+  console.log(`  ${verb} ${statement.object.id}${result}`);
+}
+
+async function handleLrs(request, response, url) {
+  const path = url.pathname.replace(/^\/xapi\/?/, '');
+
+  if (path === 'about') {
+    return reply(response, 200, { version: ['1.0.3'] });
+  }
+
+  if (path === 'statements') {
+    if (request.method === 'GET') {
+      return reply(response, 200, { statements, more: '' });
+    }
+    const body = JSON.parse(await readBody(request));
+    const received = Array.isArray(body) ? body : [body];
+    console.log(`POST statements ${describeUser(request.headers.authorization)}`);
+    received.forEach(statement => {
+      statement.id = statement.id || crypto.randomUUID();
+      statement.stored = new Date().toISOString();
+      statements.push(statement);
+      logStatement(statement);
+    });
+    return reply(response, 200, received.map(statement => statement.id));
+  }
+
+  if (path === 'activities/state') {
+    const key = getStateKey(...['activityId', 'agent', 'stateId', 'registration'].map(name => url.searchParams.get(name)));
+    if (request.method === 'GET') {
+      return states.has(key) ? reply(response, 200, states.get(key)) : reply(response, 404);
+    }
+    if (request.method === 'DELETE') {
+      states.delete(key);
+      return reply(response, 204);
+    }
+    states.set(key, JSON.parse(await readBody(request)));
+    console.log(`${request.method} state ${url.searchParams.get('stateId')} ${JSON.stringify(states.get(key))}`);
+    return reply(response, 204);
+  }
+
+  // cmi5 fetch URLs answer once
+  if (path.startsWith('cmi5/fetch/') && request.method === 'POST') {
+    const token = tokens.get(path);
+    tokens.delete(path);
+    return token
+      ? reply(response, 200, { 'auth-token': token })
+      : reply(response, 200, { 'error-code': '1', 'error-text': 'Already used' });
+  }
+
+  return reply(response, 404, { error: `${path} is not part of this mock LRS` });
+}
+
+// The AUs of cmi5.xml as launch links; launching one sets up its session the way a cmi5 LMS would
+async function handleCmi5(response, url) {
+  const structure = await readFile(join(root, 'cmi5.xml'), 'utf8');
+  const aus = [...structure.matchAll(/<au id="([^"]+)" moveOn="([^"]+)"(?: masteryScore="([^"]+)")?[\s\S]*?<title>\s*<langstring[^>]*>([^<]*)<\/langstring>[\s\S]*?<url>([^<]+)<\/url>/g)]
+    .map(([, id, moveOn, masteryScore, title, auUrl]) => ({ id, moveOn, masteryScore, title, url: auUrl }));
+
+  const au = url.searchParams.has('au') ? aus[Number(url.searchParams.get('au'))] : null;
+  if (!au) {
+    const links = aus.map((item, index) => `<li><a href="/cmi5/?au=${index}">${item.title}</a> (${item.moveOn})</li>`).join('');
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return response.end(`<!doctype html><title>cmi5 launch</title><h1>Launch an AU</h1><ul>${links}</ul>`);
+  }
+
+  const registration = crypto.randomUUID();
+  const agent = JSON.stringify(learner);
+  const fetchPath = `cmi5/fetch/${crypto.randomUUID()}`;
+  tokens.set(fetchPath, Buffer.from('cmi5-au:mock').toString('base64'));
+  states.set(getStateKey(au.id, agent, 'LMS.LaunchData', registration), {
+    contextTemplate: { extensions: { 'https://w3id.org/xapi/cmi5/context/extensions/sessionid': crypto.randomUUID() } },
+    launchMode: 'Normal',
+    moveOn: au.moveOn,
+    ...(au.masteryScore ? { masteryScore: Number(au.masteryScore) } : {}),
+    returnURL: `http://localhost:${port}/cmi5/`
+  });
+  console.log(`cmi5 launch of ${au.id} (registration ${registration})`);
+
+  const endpoint = `http://localhost:${port}/xapi/`;
+  const query = new URLSearchParams({ endpoint, fetch: endpoint + fetchPath, actor: agent, registration, activityId: au.id });
+  response.writeHead(302, { Location: `/${au.url}?${query}` });
+  response.end();
+}
+
+async function handleFile(response, url) {
+  const file = normalize(decodeURIComponent(url.pathname === '/' ? '/launch.html' : url.pathname)).replace(/^(\.\.[/\\])+/, '');
+  try {
+    const content = await readFile(join(root, file));
+    response.writeHead(200, { 'Content-Type': MIME_TYPES[extname(file)] || 'application/octet-stream' });
+    response.end(content);
+  } catch {
+    response.writeHead(404);
+    response.end('Not found');
+  }
+}
+
+createServer(async (request, response) => {
+  const url = new URL(request.url, `http://localhost:${port}`);
+  try {
+    if (request.method === 'OPTIONS') {
+      return reply(response, 204);
+    }
+    if (url.pathname.startsWith('/xapi/')) {
+      return await handleLrs(request, response, url);
+    }
+    if (url.pathname === '/cmi5/') {
+      return await handleCmi5(response, url);
+    }
+    return await handleFile(response, url);
+  } catch (error) {
+    console.error(error);
+    return reply(response, 400, { error: String(error) });
+  }
+}).listen(port, () => {
+  console.log(`Serving ${root} at http://localhost:${port}/ with the mock LRS at http://localhost:${port}/xapi/`);
+});
@@ -0,0 +1,215 @@
+// xAPI ADAPTER for LessonTracker
+// Sends statements to a Learning Record Store: "experienced" for every page shown,
+// "answered" for every graded question, "completed" once every page has been seen and
+// "passed" / "failed" once the questions are scored. The bookmark and progress are kept in
+// the State API's "resume" document. An LMS launches the package with the usual query
+// string (endpoint, auth, actor, registration, activity_id); opened without one, the LRS
+// in settings.lrs is used, and without either nothing is tracked.
+(function (window) {
+
+  var VERBS = {
+    experienced: 'http://adlnet.gov/expapi/verbs/experienced',
+    answered: 'http://adlnet.gov/expapi/verbs/answered',
+    completed: 'http://adlnet.gov/expapi/verbs/completed',
+    passed: 'http://adlnet.gov/expapi/verbs/passed',
+    failed: 'http://adlnet.gov/expapi/verbs/failed'
+  };
+
+  var lrs = null;
+  var actor = null;
+  var registration = null;
+  var course = null;
+  var language = 'en';
+  var startTime = null;
+  var bookmark = '';
+  var score = null;
+  var reported = { completed: false, success: 'unknown' };
+
+  function getLaunchParameters() {
+    var parameters = {};
+    var pairs = window.location.search.replace(/^\?/, '').split('&');
+    for (var i = 0; i < pairs.length; i++) {
+      if (!pairs[i]) continue;
+      var pair = pairs[i].split('=');
+      parameters[decodeURIComponent(pair[0])] = decodeURIComponent(pair.slice(1).join('=').replace(/\+/g, ' '));
+    }
+    return parameters;
+  }
+
+  // Without an actor from the launch the learner is an anonymous account kept in this browser
+  function getAnonymousActor(homePage) {
+    var name = null;
+    try {
+      name = window.localStorage.getItem('xapi-learner');
+      if (!name) {
+        name = 'learner-' + new Date().getTime() + '-' + Math.floor(Math.random() * 1e9);
+        window.localStorage.setItem('xapi-learner', name);
+      }
+    } catch (error) {
+      name = 'learner-anonymous';
+    }
+    return { objectType: 'Agent', name: 'Anonymous learner', account: { homePage: homePage, name: name } };
+  }
+
+  function getHeaders(json) {
+    var headers = { 'X-Experience-API-Version': '1.0.3' };
+    if (lrs.auth) headers.Authorization = lrs.auth;
+    if (json) headers['Content-Type'] = 'application/json';
+    return headers;
+  }
+
+  // keepalive lets the last statements and the state out while the window is closing
+  function send(method, path, body) {
+    var headers = getHeaders(true);
+    if (window.fetch) {
+      window.fetch(lrs.endpoint + path, { method: method, headers: headers, body: JSON.stringify(body), keepalive: true })
+        .catch(function (error) { console.warn('xAPI request failed:', error); });
+      return;
+    }
+
+    var xhr = new XMLHttpRequest();
+    xhr.open(method, lrs.endpoint + path, true);
+    for (var name in headers) xhr.setRequestHeader(name, headers[name]);
+    xhr.send(JSON.stringify(body));
+  }
+
+  function getStatePath() {
+    return 'activities/state?activityId=' + encodeURIComponent(course.id) +
+      '&agent=' + encodeURIComponent(JSON.stringify(actor)) +
+      '&stateId=resume' + (registration ? '&registration=' + encodeURIComponent(registration) : '');
+  }
+
+  // Read synchronously: the tracker needs the bookmark before it shows the first page
+  function loadState() {
+    try {
+      var xhr = new XMLHttpRequest();
+      xhr.open('GET', lrs.endpoint + getStatePath(), false);
+      var headers = getHeaders(false);
+      for (var name in headers) xhr.setRequestHeader(name, headers[name]);
+      xhr.send(null);
+      return xhr.status === 200 ? JSON.parse(xhr.responseText) : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  function langMap(value) {
+    var map = {};
+    map[language] = value;
+    return map;
+  }
+
+  function getDuration() {
+    return 'PT' + ((new Date() - startTime) / 1000).toFixed(2) + 'S';
+  }
+
+  // Pages sit in the lesson; questions sit in their page, grouped under the lesson
+  function sendStatement(verb, object, parent, result) {
+    var statement = {
+      actor: actor,
+      verb: { id: VERBS[verb], display: { 'en-US': verb } },
+      object: object,
+      context: { language: language },
+      timestamp: new Date().toISOString()
+    };
+    if (object !== course) {
+      statement.context.contextActivities = parent
+        ? { parent: [parent], grouping: [{ id: course.id }] }
+        : { parent: [{ id: course.id }] };
+    }
+    if (registration) statement.context.registration = registration;
+    if (result) statement.result = result;
+    send('POST', 'statements', statement);
+  }
+
+  function getScoreResult() {
+    return score ? { scaled: score.scaled, raw: score.correct, min: 0, max: score.total } : undefined;
+  }
+
+  window.XapiAdapter = {
+    // settings.lrs: { endpoint, auth }, settings.activityId, settings.language
+    initialize: function (settings) {
+      var launch = getLaunchParameters();
+      var endpoint = launch.endpoint || (settings.lrs && settings.lrs.endpoint);
+      if (!endpoint) return null;
+
+      lrs = {
+        endpoint: endpoint.charAt(endpoint.length - 1) === '/' ? endpoint : endpoint + '/',
+        auth: launch.endpoint ? launch.auth : settings.lrs.auth
+      };
+      language = settings.language || language;
+      course = {
+        id: launch.activity_id || settings.activityId,
+        definition: { type: 'http://adlnet.gov/expapi/activities/course', name: langMap(settings.title) }
+      };
+      try {
+        actor = launch.actor ? JSON.parse(launch.actor) : getAnonymousActor(course.id);
+      } catch (error) {
+        actor = getAnonymousActor(course.id);
+      }
+      // Older launch links pass the actor's name and mbox as arrays
+      if (actor.mbox && actor.mbox.length && typeof actor.mbox !== 'string') actor.mbox = actor.mbox[0];
+      if (actor.name && typeof actor.name !== 'string') actor.name = actor.name[0];
+      registration = launch.registration || null;
+      startTime = new Date();
+
+      var state = loadState();
+      bookmark = state.location || '';
+      return { location: bookmark, data: state.data || '', masteryScore: null };
+    },
+
+    pageViewed: function (page) {
+      bookmark = page.file;
+      sendStatement('experienced', {
+        id: course.id + '/' + page.file,
+        definition: { type: 'http://activitystrea.ms/schema/1.0/page', name: langMap(page.title) }
+      });
+    },
+
+    saveState: function (data) {
+      send('PUT', getStatePath(), { location: bookmark, data: data });
+    },
+
+    setScore: function (newScore) {
+      score = newScore;
+    },
+
+    // Completed and passed/failed go out once, when they are first reached in a session
+    setStatus: function (status) {
+      if (status.completed && !reported.completed) {
+        reported.completed = true;
+        sendStatement('completed', course, null, { completion: true, duration: getDuration() });
+      }
+      if (status.success !== 'unknown' && status.success !== reported.success) {
+        reported.success = status.success;
+        sendStatement(status.success, course, null, {
+          score: getScoreResult(),
+          success: status.success === 'passed',
+          completion: status.completed,
+          duration: getDuration()
+        });
+      }
+    },
+
+    recordInteraction: function (result) {
+      sendStatement('answered', {
+        id: course.id + '/' + result.id,
+        definition: {
+          type: 'http://adlnet.gov/expapi/activities/cmi.interaction',
+          interactionType: result.type,
+          description: langMap(result.description),
+          correctResponsesPattern: [result.correctResponse.join('[,]')]
+        }
+      }, { id: course.id + '/' + result.page }, {
+        response: result.response.join('[,]'),
+        success: result.correct
+      });
+    },
+
+    // Statements and state go out as they happen
+    commit: function () {},
+
+    terminate: function () {}
+  };
+
+})(window);
@@ -0,0 +1,112 @@
+import { escapeAttribute, escapeHtml, indent } from './html';
+
+// What an xAPI package tells the LMS about the lesson and its pages
+export interface XapiCourse {
+  activityId: string; // IRI every statement about the lesson uses
+  title: string;
+  description: string;
+  language: string;
+  launch: string;
+  pages: { activityId: string; title: string }[];
+}
+
+const COURSE_ACTIVITY_TYPE = 'http://adlnet.gov/expapi/activities/course';
+const PAGE_ACTIVITY_TYPE = 'http://activitystrea.ms/schema/1.0/page';
+
+// tincan.xml: the lesson is the launchable course activity, its pages the activities the
+// "experienced" statements are about
+export function renderTincanXml(course: XapiCourse): string {
+  const langString = (element: string, value: string) => `<${element} lang="${course.language}">${escapeHtml(value)}</${element}>`;
+  const pages = course.pages.map(page => [
+    `<activity id="${escapeAttribute(page.activityId)}" type="${PAGE_ACTIVITY_TYPE}">`,
+    `    ${langString('name', page.title)}`,
+    '</activity>'
+  ].join('\n'));
+
+  return `<?xml version="1.0" encoding="utf-8" ?>
+<tincan xmlns="http://projecttincan.com/tincan.xsd">
+    <activities>
+        <activity id="${escapeAttribute(course.activityId)}" type="${COURSE_ACTIVITY_TYPE}">
+            ${langString('name', course.title)}
+            ${langString('description', course.description)}
+            ${langString('launch', course.launch)}
+        </activity>
+${indent(pages.join('\n'), 8)}
+    </activities>
+</tincan>
+`;
+}
+
+// cmi5 course structure: an AU is one launch of the package, a block groups AUs
+export interface Cmi5Course {
+  activityId: string;
+  title: string;
+  description: string;
+  language: string;
+  objectives: { id: string; title: string; description: string }[];
+  children: Cmi5Node[];
+}
+
+export interface Cmi5Node {
+  id: string;
+  title: string;
+  description: string;
+  url?: string; // AUs only; nodes without one are blocks
+  moveOn?: 'Completed' | 'CompletedAndPassed';
+  masteryScore?: number; // 0-1
+  children?: Cmi5Node[];
+}
+
+// cmi5.xml: every AU is launched "AnyWindow" and refers to all the lesson objectives
+export function renderCmi5Xml(course: Cmi5Course): string {
+  const langString = (value: string) => `<langstring lang="${course.language}">${escapeHtml(value)}</langstring>`;
+  const objectiveReferences = course.objectives.length > 0
+    ? [
+      '<objectives>',
+      ...course.objectives.map(objective => `    <objective idref="${escapeAttribute(objective.id)}"/>`),
+      '</objectives>'
+    ].join('\n')
+    : '';
+
+  const renderNode = (node: Cmi5Node): string => {
+    const heading = [
+      `    <title>${langString(node.title)}</title>`,
+      `    <description>${langString(node.description)}</description>`
+    ];
+
+    if (!node.url) {
+      return [
+        `<block id="${escapeAttribute(node.id)}">`,
+        ...heading,
+        indent((node.children || []).map(renderNode).join('\n'), 4),
+        '</block>'
+      ].join('\n');
+    }
+
+    const masteryScore = node.masteryScore !== undefined ? ` masteryScore="${node.masteryScore}"` : '';
+    return [
+      `<au id="${escapeAttribute(node.id)}" moveOn="${node.moveOn || 'Completed'}"${masteryScore} launchMethod="AnyWindow">`,
+      ...heading,
+      indent(objectiveReferences, 4),
+      `    <url>${escapeHtml(node.url)}</url>`,
+      '</au>'
+    ].filter(line => line.trim()).join('\n');
+  };
+
+  const objectives = course.objectives.map(objective => [
+    `<objective id="${escapeAttribute(objective.id)}">`,
+    `    <title>${langString(objective.title)}</title>`,
+    `    <description>${langString(objective.description)}</description>`,
+    '</objective>'
+  ].join('\n'));
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<courseStructure xmlns="https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd">
+    <course id="${escapeAttribute(course.activityId)}">
+        <title>${langString(course.title)}</title>
+        <description>${langString(course.description)}</description>
+    </course>
+${objectives.length > 0 ? `    <objectives>\n${indent(objectives.join('\n'), 8)}\n    </objectives>\n` : ''}${indent(course.children.map(renderNode).join('\n'), 4)}
+</courseStructure>
+`;
+}
@@ -0,0 +1,152 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { findGradedQuestions, LAUNCH_PAGE, Scorm12PackageGenerator, type TrackingSettings } from './scormPackageGenerator';
+import { groupByUnit, type StaticPage } from './staticLessonGenerator';
+import { renderCmi5Xml, renderTincanXml, type Cmi5Node } from './xapiManifest';
+
+// What the xAPI adapter reads on top of the tracker's settings
+interface XapiTrackingSettings extends TrackingSettings {
+  activityId: string;
+  language: string;
+  lrs?: { endpoint: string; auth: string };
+}
+
+// The static lesson as an xAPI (Tin Can) package for latest_core_xapi: tincan.xml for the
+// LMS, and the launch page reporting through templates/tracking/xapi-statements.js to the
+// LRS the LMS launches it with, or the one set in Template Settings.
+export class XapiPackageGenerator extends Scorm12PackageGenerator {
+  async generateLesson(): Promise<void> {
+    try {
+      const zip = new JSZip();
+      const pages = await this.addStaticLesson(zip);
+
+      await this.addTrackingScripts(zip, ['lesson-tracking.js', 'lesson-tracker.js', 'xapi-statements.js']);
+      zip.file(LAUNCH_PAGE, this.renderLaunchPage(['tracking/xapi-statements.js'], 'XapiAdapter', this.getXapiTrackingSettings(pages)));
+      zip.file('tincan.xml', renderTincanXml({
+        activityId: this.getActivityId(),
+        title: String(this.getTemplateVariables().lessonTitle),
+        description: this.config.description || '',
+        language: this.getLangCode(),
+        launch: LAUNCH_PAGE,
+        pages: pages.map(page => ({ activityId: `${this.getActivityId()}/${page.fileName}`, title: page.page.title }))
+      }));
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const filename = `${this.config.lessonTitle?.replace(/[^a-z0-9]/gi, '_') || 'lesson'}_xapi.zip`;
+      saveAs(blob, filename);
+
+    } catch (error) {
+      console.error('Error generating xAPI package:', error);
+      throw error;
+    }
+  }
+
+  // The lesson's MetEd address when it has a path; pages and questions hang off it
+  protected getActivityId(): string {
+    const path = (this.config.metedPath || '').replace(/^\/+|\/+$/g, '');
+    return path
+      ? `https://www.meted.ucar.edu/${path}`
+      : `https://www.meted.ucar.edu/lesson/${encodeURIComponent(this.config.lessonId || String(this.getTemplateVariables().lessonTitle))}`;
+  }
+
+  private getXapiTrackingSettings(pages: StaticPage[]): XapiTrackingSettings {
+    const endpoint = this.config.lrsEndpoint?.trim();
+
+    return {
+      ...this.getTrackingSettings(pages),
+      activityId: this.getActivityId(),
+      language: this.getLangCode(),
+      lrs: endpoint ? { endpoint, auth: getBasicAuth(this.config.lrsUsername || '', this.config.lrsPassword || '') } : undefined
+    };
+  }
+}
+
+// The static lesson as a cmi5 course with one AU per level-1 unit, each with its own launch
+// page running templates/tracking/cmi5-au.js. Units with questions move on once completed and
+// passed at the mastery score from Template Settings, the others once completed.
+export class Cmi5PackageGenerator extends XapiPackageGenerator {
+  async generateLesson(): Promise<void> {
+    try {
+      const zip = new JSZip();
+      const pages = await this.addStaticLesson(zip);
+      await this.addTrackingScripts(zip, ['lesson-tracking.js', 'lesson-tracker.js', 'cmi5-au.js']);
+
+      const units = groupByUnit(pages);
+      units.forEach((unitPages, index) => {
+        zip.file(getAuLaunchPage(index), this.renderLaunchPage(['tracking/cmi5-au.js'], 'Cmi5Adapter', this.getAuTrackingSettings(pages, unitPages)));
+      });
+
+      const activityId = this.getActivityId();
+      zip.file('cmi5.xml', renderCmi5Xml({
+        activityId,
+        title: String(this.getTemplateVariables().lessonTitle),
+        description: this.config.description || String(this.getTemplateVariables().lessonTitle),
+        language: this.getLangCode(),
+        objectives: this.getObjectives().map((objective, index) => ({
+          id: `${activityId}/objective/${index + 1}`,
+          title: `Objective ${index + 1}`,
+          description: objective.description
+        })),
+        children: this.getCourseNodes(units)
+      }));
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const filename = `${this.config.lessonTitle?.replace(/[^a-z0-9]/gi, '_') || 'lesson'}_cmi5.zip`;
+      saveAs(blob, filename);
+
+    } catch (error) {
+      console.error('Error generating cmi5 package:', error);
+      throw error;
+    }
+  }
+
+  // Opening a page of another unit hands the learner back to the LMS
+  private getAuTrackingSettings(pages: StaticPage[], unitPages: StaticPage[]): XapiTrackingSettings {
+    return {
+      ...this.getTrackingSettings(unitPages),
+      activityId: this.getActivityId(),
+      language: this.getLangCode(),
+      navigation: pages.filter(page => !unitPages.includes(page)).map(page => ({ file: page.fileName, request: 'exit' }))
+    };
+  }
+
+  // AUs sit in a block per chapter once there is more than one chapter
+  private getCourseNodes(units: StaticPage[][]): Cmi5Node[] {
+    const activityId = this.getActivityId();
+    const aus = units.map((unitPages, index): Cmi5Node => {
+      const graded = unitPages.some(page => findGradedQuestions(page.content).length > 0);
+      return {
+        id: `${activityId}/au/${index + 1}`,
+        title: unitPages[0].unit.title,
+        description: unitPages.map(page => page.page.title).join(', '),
+        url: getAuLaunchPage(index),
+        moveOn: graded ? 'CompletedAndPassed' : 'Completed',
+        masteryScore: graded ? this.config.masteryScore / 100 : undefined
+      };
+    });
+
+    if (this.config.chapters.length === 1) {
+      return aus;
+    }
+
+    return this.config.chapters.map((chapter, chapterIndex) => ({
+      id: `${activityId}/block/${chapterIndex + 1}`,
+      title: chapter.title,
+      description: chapter.description || chapter.title,
+      children: aus.filter((_, index) => units[index][0].chapterNumber === chapterIndex + 1)
+    }));
+  }
+}
+
+function getAuLaunchPage(index: number): string {
+  return `launch_${index + 1}.html`;
+}
+
+// HTTP Basic credentials, UTF-8 encoded
+function getBasicAuth(username: string, password: string): string {
+  if (!username && !password) {
+    return '';
+  }
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}